@@ -13,16 +13,33 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as activity from "../activity.js";
+import type * as attachments from "../attachments.js";
 import type * as auth from "../auth.js";
 import type * as bookmarks from "../bookmarks.js";
+import type * as comments from "../comments.js";
+import type * as crons from "../crons.js";
 import type * as events from "../events.js";
+import type * as focusSessions from "../focusSessions.js";
+import type * as fractionalIndex from "../fractionalIndex.js";
 import type * as googleAuth from "../googleAuth.js";
 import type * as googleCalendarAuth from "../googleCalendarAuth.js";
 import type * as googleCalendarEvents from "../googleCalendarEvents.js";
 import type * as http from "../http.js";
+import type * as milestones from "../milestones.js";
 import type * as notes from "../notes.js";
+import type * as notifications from "../notifications.js";
+import type * as projectProgress from "../projectProgress.js";
 import type * as projects from "../projects.js";
+import type * as recurrence from "../recurrence.js";
+import type * as taskFilters from "../taskFilters.js";
+import type * as taskTemplates from "../taskTemplates.js";
+import type * as taskViews from "../taskViews.js";
 import type * as tasks from "../tasks.js";
+import type * as timeEntries from "../timeEntries.js";
+import type * as trash from "../trash.js";
+import type * as undo from "../undo.js";
+import type * as workflows from "../workflows.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -33,16 +50,33 @@ import type * as tasks from "../tasks.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  activity: typeof activity;
+  attachments: typeof attachments;
   auth: typeof auth;
   bookmarks: typeof bookmarks;
+  comments: typeof comments;
+  crons: typeof crons;
   events: typeof events;
+  focusSessions: typeof focusSessions;
+  fractionalIndex: typeof fractionalIndex;
   googleAuth: typeof googleAuth;
   googleCalendarAuth: typeof googleCalendarAuth;
   googleCalendarEvents: typeof googleCalendarEvents;
   http: typeof http;
+  milestones: typeof milestones;
   notes: typeof notes;
+  notifications: typeof notifications;
+  projectProgress: typeof projectProgress;
   projects: typeof projects;
+  recurrence: typeof recurrence;
+  taskFilters: typeof taskFilters;
+  taskTemplates: typeof taskTemplates;
+  taskViews: typeof taskViews;
   tasks: typeof tasks;
+  timeEntries: typeof timeEntries;
+  trash: typeof trash;
+  undo: typeof undo;
+  workflows: typeof workflows;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -0,0 +1,168 @@
+import { query, MutationCtx } from "./_generated/server";
+import { Infer, v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+// Tables whose changes show up in item history and the activity feed.
+// Google Calendar events are logged by the sync itself.
+export const ACTIVITY_TABLES = [
+  "tasks",
+  "projects",
+  "notes",
+  "bookmarks",
+  "events",
+  "googleCalendarEvents",
+] as const;
+
+// Sources a client can claim for its own changes; googleSync is only set
+// by the sync's internal functions
+export const clientActivitySource = v.union(
+  v.literal("ui"),
+  v.literal("quickCapture")
+);
+
+export const activitySource = v.union(
+  clientActivitySource,
+  v.literal("googleSync")
+);
+
+export const activityAction = v.union(
+  v.literal("create"),
+  v.literal("update"),
+  v.literal("status"),
+  v.literal("trash"),
+  v.literal("restore"),
+  v.literal("delete")
+);
+
+export type ActivitySource = Infer<typeof activitySource>;
+type ActivityAction = Infer<typeof activityAction>;
+type Snapshot = Record<string, unknown>;
+
+// Bookkeeping fields that would only add noise to a diff. Trashing and
+// restoring are actions of their own, so deletedAt is left out too.
+const IGNORED_FIELDS = new Set([
+  "_id",
+  "_creationTime",
+  "userId",
+  "sortKey",
+  "reminderJobId",
+  "lastModified",
+  "lastSynced",
+  "originalEvent",
+  "deletedAt",
+  "taskCount",
+  "completedTaskCount",
+]);
+
+// Fields whose change moves an item along rather than editing it
+const STATUS_FIELDS = ["status", "completed"];
+
+function diffFields(before: Snapshot, after: Snapshot) {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields]
+    .filter(
+      (field) =>
+        !IGNORED_FIELDS.has(field) &&
+        JSON.stringify(before[field]) !== JSON.stringify(after[field])
+    )
+    .sort()
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+function getAction(
+  before: Snapshot | undefined,
+  after: Snapshot | undefined,
+  fields: string[]
+): ActivityAction {
+  if (!before) return "create";
+  if (!after) return "delete";
+  if (before.deletedAt !== after.deletedAt) {
+    return after.deletedAt ? "trash" : "restore";
+  }
+  if (fields.some((field) => STATUS_FIELDS.includes(field))) return "status";
+  return "update";
+}
+
+/**
+ * Log a change to one document, given its state before and after (unset
+ * for an insert or a delete). Updates that only touch bookkeeping fields
+ * aren't logged. `actorId` is unset for changes nobody made directly, such
+ * as a calendar sync.
+ */
+export async function recordActivity(
+  ctx: MutationCtx,
+  {
+    userId,
+    actorId,
+    source,
+    table,
+    entityId,
+    before,
+    after,
+  }: {
+    userId: Id<"users">;
+    actorId?: Id<"users">;
+    source: ActivitySource;
+    table: string;
+    entityId: string;
+    before?: Snapshot;
+    after?: Snapshot;
+  }
+) {
+  if (!ACTIVITY_TABLES.some((t) => t === table)) return;
+  const changes = before && after ? diffFields(before, after) : [];
+  const action = getAction(
+    before,
+    after,
+    changes.map((c) => c.field)
+  );
+  if (action === "update" && changes.length === 0) return;
+  const title = (after ?? before)?.title;
+
+  await ctx.db.insert("activity", {
+    userId,
+    actorId,
+    source,
+    table,
+    entityId,
+    title: typeof title === "string" ? title : "Untitled",
+    action,
+    changes,
+    createdAt: Date.now(),
+  });
+}
+
+// The user's activity across all items, newest first
+export const list = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return { page: [], isDone: true, continueCursor: "" };
+    return await ctx.db
+      .query("activity")
+      .withIndex("by_user_created", (q) => q.eq("userId", userId))
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
+
+// History of one item, newest first
+export const listForEntity = query({
+  args: {
+    entityId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const entries = await ctx.db
+      .query("activity")
+      .withIndex("by_entity", (q) => q.eq("entityId", args.entityId))
+      .order("desc")
+      .collect();
+    return entries.filter((entry) => entry.userId === userId);
+  },
+});
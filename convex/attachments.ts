@@ -0,0 +1,203 @@
+import {
+  internalMutation,
+  mutation,
+  query,
+  DatabaseReader,
+  MutationCtx,
+} from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { ItemRef, getItemRef, itemId } from "./comments";
+
+// Kept in sync with src/utils/attachments.ts, which checks files before
+// uploading them
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+// Upload URLs stop working after an hour
+const UPLOAD_WINDOW_MS = 60 * 60 * 1000;
+const ALLOWED_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+];
+
+// The item's attachments, oldest first
+async function queryByItem(db: DatabaseReader, ref: ItemRef) {
+  return "taskId" in ref
+    ? await db
+        .query("attachments")
+        .withIndex("by_task", (q) => q.eq("taskId", ref.taskId))
+        .collect()
+    : await db
+        .query("attachments")
+        .withIndex("by_project", (q) => q.eq("projectId", ref.projectId))
+        .collect();
+}
+
+// Remove the item's attachments and their files, for when it's deleted for
+// good
+export async function purgeAttachments(ctx: MutationCtx, ref: ItemRef) {
+  for (const attachment of await queryByItem(ctx.db, ref)) {
+    await ctx.storage.delete(attachment.storageId);
+    await ctx.db.delete(attachment._id);
+  }
+}
+
+// Number of attachments on each of the user's tasks and projects, by item id
+export const counts = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return {};
+    const attachments = await ctx.db
+      .query("attachments")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    const counts: Record<string, number> = {};
+    for (const attachment of attachments) {
+      const id = attachment.taskId ?? attachment.projectId;
+      if (id) counts[id] = (counts[id] ?? 0) + 1;
+    }
+    return counts;
+  },
+});
+
+// Attachments of a task or a project, oldest first, with URLs to view them
+export const list = query({
+  args: {
+    itemId,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const attachments = await queryByItem(
+      ctx.db,
+      await getItemRef(ctx.db, userId, args.itemId)
+    );
+    return await Promise.all(
+      attachments.map(async (attachment) => ({
+        ...attachment,
+        url: await ctx.storage.getUrl(attachment.storageId),
+      }))
+    );
+  },
+});
+
+// Step one of an upload: a URL the client posts the file to, and the id
+// recording who asked for it
+export const generateUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+    const uploadId = await ctx.db.insert("attachmentUploads", {
+      userId,
+      createdAt: Date.now(),
+    });
+    return { uploadId, uploadUrl: await ctx.storage.generateUploadUrl() };
+  },
+});
+
+// Step two: attach the uploaded file. It has to have been stored after the
+// user asked for the upload URL and not be attached already, so nobody can
+// claim someone else's file. Files that are too big or of a type we don't
+// accept are deleted from storage again, which is why the error is returned
+// rather than thrown: throwing would roll the delete back.
+export const create = mutation({
+  args: {
+    itemId,
+    uploadId: v.id("attachmentUploads"),
+    storageId: v.id("_storage"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const upload = await ctx.db.get(args.uploadId);
+    const file = await ctx.db.system.get(args.storageId);
+    const attached = await ctx.db
+      .query("attachments")
+      .withIndex("by_storage", (q) => q.eq("storageId", args.storageId))
+      .first();
+    if (
+      !upload ||
+      upload.userId !== userId ||
+      !file ||
+      file._creationTime < upload.createdAt ||
+      file._creationTime > upload.createdAt + UPLOAD_WINDOW_MS ||
+      attached
+    ) {
+      throw new Error("Upload not found");
+    }
+    // Each upload URL attaches one file
+    await ctx.db.delete(upload._id);
+
+    const contentType = file.contentType ?? "";
+    let error: string | null = null;
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      error = "Files can be at most 10 MB";
+    } else if (!ALLOWED_TYPES.includes(contentType)) {
+      error = "Only images, PDFs and text files can be attached";
+    }
+    let ref: ItemRef | null = null;
+    if (!error) {
+      try {
+        ref = await getItemRef(ctx.db, userId, args.itemId);
+      } catch (err) {
+        error = err instanceof Error ? err.message : "Item not found";
+      }
+    }
+    if (error || !ref) {
+      await ctx.storage.delete(args.storageId);
+      return { error: error ?? "Item not found" };
+    }
+
+    const attachmentId = await ctx.db.insert("attachments", {
+      ...ref,
+      userId,
+      storageId: args.storageId,
+      name: args.name.trim() || "Untitled",
+      contentType,
+      size: file.size,
+      createdAt: Date.now(),
+    });
+    return { attachmentId };
+  },
+});
+
+// Forget upload URLs that have expired without a file being attached
+export const purgeExpiredUploads = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("attachmentUploads")
+      .withIndex("by_created", (q) =>
+        q.lt("createdAt", Date.now() - UPLOAD_WINDOW_MS)
+      )
+      .collect();
+    for (const upload of expired) await ctx.db.delete(upload._id);
+  },
+});
+
+// Deletes the attachment along with its file in storage
+export const remove = mutation({
+  args: {
+    id: v.id("attachments"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const attachment = await ctx.db.get(args.id);
+    if (!attachment || attachment.userId !== userId) {
+      throw new Error("Attachment not found");
+    }
+    await ctx.storage.delete(attachment.storageId);
+    await ctx.db.delete(args.id);
+  },
+});
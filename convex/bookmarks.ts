@@ -1,20 +1,30 @@
-import { mutation, query } from "./_generated/server";
+import { query } from "./_generated/server";
 import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { undoableMutation } from "./undo";
 
+// Newest first, either archived or not
 export const list = query({
-  args: {},
-  handler: async (ctx) => {
+  args: {
+    paginationOpts: paginationOptsValidator,
+    isArchived: v.boolean(),
+  },
+  handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
-    if (!userId) return [];
+    if (!userId) return { page: [], isDone: true, continueCursor: "" };
     return await ctx.db
       .query("bookmarks")
-      .withIndex("by_user", (q) => q.eq("userId", userId))
-      .collect();
+      .withIndex("by_user_archived", (q) =>
+        q.eq("userId", userId).eq("isArchived", args.isArchived)
+      )
+      .order("desc")
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .paginate(args.paginationOpts);
   },
 });
 
-export const create = mutation({
+export const create = undoableMutation("Create bookmark", {
   args: {
     title: v.string(),
     url: v.string(),
@@ -36,3 +46,20 @@ export const create = mutation({
     });
   },
 });
+
+// Moves the bookmark to the trash
+export const remove = undoableMutation("Delete bookmark", {
+  args: {
+    id: v.id("bookmarks"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const bookmark = await ctx.db.get(args.id);
+    if (!bookmark || bookmark.userId !== userId || bookmark.deletedAt) {
+      throw new Error("Bookmark not found");
+    }
+    await ctx.db.patch(args.id, { deletedAt: Date.now() });
+  },
+});
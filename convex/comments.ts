@@ -0,0 +1,162 @@
+import {
+  mutation,
+  query,
+  DatabaseReader,
+  MutationCtx,
+} from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+const MAX_COMMENT_LENGTH = 5000;
+
+// A task or a project that comments and attachments can belong to
+export const itemId = v.union(v.id("tasks"), v.id("projects"));
+
+export type ItemRef = { taskId: Id<"tasks"> } | { projectId: Id<"projects"> };
+
+// The user's task or project with this id, as the fields that point at it
+export async function getItemRef(
+  db: DatabaseReader,
+  userId: Id<"users">,
+  id: string
+): Promise<ItemRef> {
+  const taskId = db.normalizeId("tasks", id);
+  if (taskId) {
+    const task = await db.get(taskId);
+    if (!task || task.userId !== userId || task.deletedAt) {
+      throw new Error("Task not found");
+    }
+    return { taskId };
+  }
+  const projectId = db.normalizeId("projects", id);
+  const project = projectId && (await db.get(projectId));
+  if (
+    !projectId ||
+    !project ||
+    project.userId !== userId ||
+    project.deletedAt
+  ) {
+    throw new Error("Project not found");
+  }
+  return { projectId };
+}
+
+// The item's comments, oldest first
+async function queryByItem(db: DatabaseReader, ref: ItemRef) {
+  return "taskId" in ref
+    ? await db
+        .query("comments")
+        .withIndex("by_task", (q) => q.eq("taskId", ref.taskId))
+        .collect()
+    : await db
+        .query("comments")
+        .withIndex("by_project", (q) => q.eq("projectId", ref.projectId))
+        .collect();
+}
+
+// Remove the item's comments, for when it's deleted for good
+export async function purgeComments(ctx: MutationCtx, ref: ItemRef) {
+  for (const comment of await queryByItem(ctx.db, ref)) {
+    await ctx.db.delete(comment._id);
+  }
+}
+
+// Number of comments on each of the user's tasks and projects, by item id
+export const counts = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return {};
+    const comments = await ctx.db
+      .query("comments")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    const counts: Record<string, number> = {};
+    for (const comment of comments) {
+      const id = comment.taskId ?? comment.projectId;
+      if (id) counts[id] = (counts[id] ?? 0) + 1;
+    }
+    return counts;
+  },
+});
+
+// Comments on a task or a project, oldest first; the client nests replies
+export const list = query({
+  args: {
+    itemId,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    return await queryByItem(
+      ctx.db,
+      await getItemRef(ctx.db, userId, args.itemId)
+    );
+  },
+});
+
+export const add = mutation({
+  args: {
+    itemId,
+    body: v.string(),
+    // Set when replying to another comment on the same item
+    parentCommentId: v.optional(v.id("comments")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const body = args.body.trim();
+    if (!body) throw new Error("Comment is empty");
+    if (body.length > MAX_COMMENT_LENGTH) {
+      throw new Error(
+        `Comments can be at most ${MAX_COMMENT_LENGTH} characters`
+      );
+    }
+    const ref = await getItemRef(ctx.db, userId, args.itemId);
+    if (args.parentCommentId) {
+      const parent = await ctx.db.get(args.parentCommentId);
+      const parentItem = parent?.taskId ?? parent?.projectId;
+      if (!parent || parent.userId !== userId || parentItem !== args.itemId) {
+        throw new Error("Comment not found");
+      }
+    }
+
+    return await ctx.db.insert("comments", {
+      ...ref,
+      userId,
+      parentCommentId: args.parentCommentId,
+      body,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Deleting a comment deletes the replies under it too
+export const remove = mutation({
+  args: {
+    id: v.id("comments"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const comment = await ctx.db.get(args.id);
+    if (!comment || comment.userId !== userId) {
+      throw new Error("Comment not found");
+    }
+    const ref: ItemRef = comment.taskId
+      ? { taskId: comment.taskId }
+      : { projectId: comment.projectId! };
+    const thread = await queryByItem(ctx.db, ref);
+    const removed = new Set<Id<"comments">>([comment._id]);
+    // Comments come oldest first, so replies follow what they answer
+    for (const other of thread) {
+      if (other.parentCommentId && removed.has(other.parentCommentId)) {
+        removed.add(other._id);
+      }
+    }
+    for (const id of removed) await ctx.db.delete(id);
+  },
+});
@@ -0,0 +1,30 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Empty trash items older than 30 days
+crons.daily(
+  "purge expired trash",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.trash.purgeExpired,
+  {}
+);
+
+// Forget attachment upload URLs that were never used
+crons.daily(
+  "purge expired attachment uploads",
+  { hourUTC: 3, minuteUTC: 30 },
+  internal.attachments.purgeExpiredUploads,
+  {}
+);
+
+// Bring back snoozed tasks once their start date has passed
+crons.interval(
+  "resurface snoozed tasks",
+  { minutes: 1 },
+  internal.tasks.resurfaceSnoozed,
+  {}
+);
+
+export default crons;
@@ -1,20 +1,31 @@
-import { mutation, query } from "./_generated/server";
+import { query } from "./_generated/server";
 import { v } from "convex/values";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { scheduleReminder } from "./notifications";
+import { undoableMutation } from "./undo";
 
+// Events overlapping [from, to), in start order
 export const list = query({
-  args: {},
-  handler: async (ctx) => {
+  args: {
+    from: v.number(),
+    to: v.number(),
+  },
+  handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
     if (!userId) return [];
-    return await ctx.db
+    const events = await ctx.db
       .query("events")
-      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .withIndex("by_user_end", (q) =>
+        q.eq("userId", userId).gt("endDate", args.from)
+      )
       .collect();
+    return events
+      .filter((event) => event.startDate < args.to && !event.deletedAt)
+      .sort((a, b) => a.startDate - b.startDate);
   },
 });
 
-export const create = mutation({
+export const create = undoableMutation("Create event", {
   args: {
     title: v.string(),
     description: v.optional(v.string()),
@@ -34,9 +45,69 @@ export const create = mutation({
     const userId = await getAuthUserId(ctx);
     if (!userId) throw new Error("Not authenticated");
 
-    return await ctx.db.insert("events", {
+    const eventId = await ctx.db.insert("events", {
       ...args,
       userId,
     });
+    if (args.reminderTime !== undefined) {
+      await ctx.db.patch(eventId, {
+        reminderJobId: await scheduleReminder(
+          ctx,
+          undefined,
+          args.reminderTime,
+          { eventId }
+        ),
+      });
+    }
+    return eventId;
+  },
+});
+
+export const updateReminder = undoableMutation("Change event reminder", {
+  args: {
+    id: v.id("events"),
+    // null removes the reminder
+    reminderTime: v.union(v.number(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const event = await ctx.db.get(args.id);
+    if (!event || event.userId !== userId || event.deletedAt) {
+      throw new Error("Event not found");
+    }
+
+    const reminderTime = args.reminderTime ?? undefined;
+    await ctx.db.patch(args.id, {
+      reminderTime,
+      reminderJobId: await scheduleReminder(
+        ctx,
+        event.reminderJobId,
+        reminderTime,
+        { eventId: args.id }
+      ),
+    });
+  },
+});
+
+// Moves the event to the trash, cancelling its reminder
+export const remove = undoableMutation("Delete event", {
+  args: {
+    id: v.id("events"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const event = await ctx.db.get(args.id);
+    if (!event || event.userId !== userId || event.deletedAt) {
+      throw new Error("Event not found");
+    }
+    if (event.reminderJobId) await ctx.scheduler.cancel(event.reminderJobId);
+    await ctx.db.patch(args.id, {
+      deletedAt: Date.now(),
+      reminderJobId: undefined,
+    });
   },
 });
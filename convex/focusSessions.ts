@@ -0,0 +1,65 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+// Focus sessions overlapping [from, to), with their task titles
+export const list = query({
+  args: {
+    from: v.number(),
+    to: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    // Sessions are short, so any overlapping one starts within a day of `from`
+    const sessions = await ctx.db
+      .query("focusSessions")
+      .withIndex("by_user_start", (q) =>
+        q
+          .eq("userId", userId)
+          .gte("start", args.from - 24 * 60 * 60 * 1000)
+          .lt("start", args.to)
+      )
+      .collect();
+
+    const taskTitles = new Map<Id<"tasks">, string>();
+    const result = [];
+    for (const session of sessions) {
+      if (session.end <= args.from) continue;
+      if (!taskTitles.has(session.taskId)) {
+        const task = await ctx.db.get(session.taskId);
+        taskTitles.set(session.taskId, task?.title ?? "Deleted task");
+      }
+      result.push({
+        ...session,
+        taskTitle: taskTitles.get(session.taskId) ?? "Deleted task",
+      });
+    }
+    return result;
+  },
+});
+
+// Record a completed focus session against a task
+export const log = mutation({
+  args: {
+    taskId: v.id("tasks"),
+    start: v.number(),
+    end: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const task = await ctx.db.get(args.taskId);
+    if (!task || task.userId !== userId || task.deletedAt) {
+      throw new Error("Task not found");
+    }
+    if (args.end <= args.start) {
+      throw new Error("Focus session must end after it starts");
+    }
+
+    return await ctx.db.insert("focusSessions", { userId, ...args });
+  },
+});
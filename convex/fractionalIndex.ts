@@ -0,0 +1,49 @@
+// Fractional indexing for manually ordered lists. Each item carries a string
+// sort key and moving an item only rewrites its own key: a new key strictly
+// between its new neighbours' keys. Keys compare with plain string ordering.
+
+const DIGITS =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+// Midpoint of two digit strings read as fractions (b = null means 1).
+// Keys never end in the zero digit so there is always room in between.
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    let n = 0;
+    while ((a[n] || DIGITS[0]) === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+/**
+ * Generate a sort key that orders after `before` and before `after`. Either
+ * bound may be omitted to insert at the start or end of the list.
+ */
+export function keyBetween(before?: string, after?: string): string {
+  if (before !== undefined && after !== undefined && before >= after) {
+    throw new Error(`Invalid sort key range: ${before} >= ${after}`);
+  }
+  return midpoint(before ?? "", after ?? null);
+}
+
+/**
+ * Compare documents the way the by_user_sort indexes order them: by sort
+ * key, keyless documents first, then by creation time.
+ */
+export function compareBySortKey(
+  a: { sortKey?: string; _creationTime: number },
+  b: { sortKey?: string; _creationTime: number }
+): number {
+  const keyA = a.sortKey ?? "";
+  const keyB = b.sortKey ?? "";
+  if (keyA !== keyB) return keyA < keyB ? -1 : 1;
+  return a._creationTime - b._creationTime;
+}
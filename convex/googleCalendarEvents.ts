@@ -10,6 +10,7 @@ import {
 import { Doc, Id } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { recordActivity } from "./activity";
 
 // Modify schema.ts to include this table
 // googleCalendarEvents: defineTable({
@@ -458,7 +459,15 @@ export const createGoogleEvent = internalMutation({
     }),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.insert("googleCalendarEvents", args.event);
+    const eventId = await ctx.db.insert("googleCalendarEvents", args.event);
+    await recordActivity(ctx, {
+      userId: args.event.userId,
+      source: "googleSync",
+      table: "googleCalendarEvents",
+      entityId: eventId,
+      after: args.event,
+    });
+    return eventId;
   },
 });
 
@@ -483,7 +492,16 @@ export const updateGoogleEvent = internalMutation({
     }),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.replace(args.eventId, args.event);
+    const existing = await ctx.db.get(args.eventId);
+    await ctx.db.replace(args.eventId, args.event);
+    await recordActivity(ctx, {
+      userId: args.event.userId,
+      source: "googleSync",
+      table: "googleCalendarEvents",
+      entityId: args.eventId,
+      before: existing ?? undefined,
+      after: args.event,
+    });
   },
 });
 
@@ -548,6 +566,14 @@ export const clearAllEvents = mutation({
 
     for (const event of events) {
       await ctx.db.delete(event._id);
+      await recordActivity(ctx, {
+        userId,
+        actorId: userId,
+        source: "ui",
+        table: "googleCalendarEvents",
+        entityId: event._id,
+        before: event,
+      });
     }
 
     return { deletedCount: events.length };
@@ -0,0 +1,212 @@
+import { query, DatabaseReader, DatabaseWriter } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { undoableMutation } from "./undo";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type MilestoneStatus = "done" | "overdue" | "at_risk" | "on_track";
+
+async function getOwnedProject(
+  db: DatabaseReader,
+  userId: Id<"users">,
+  projectId: Id<"projects">
+) {
+  const project = await db.get(projectId);
+  if (!project || project.userId !== userId || project.deletedAt) {
+    throw new Error("Project not found");
+  }
+  return project;
+}
+
+function validateTitle(title: string | undefined) {
+  if (title !== undefined && !title.trim()) {
+    throw new Error("Title is required");
+  }
+}
+
+/**
+ * Roll a milestone's tasks up into its completion and status. `today` is
+ * the start of the client's local day. A milestone is done once it has
+ * tasks and all of them are completed, and at risk while it has more open
+ * tasks than days left before it's due.
+ */
+async function summarize(
+  db: DatabaseReader,
+  milestone: Doc<"milestones">,
+  today: number
+) {
+  const tasks = await db
+    .query("tasks")
+    .withIndex("by_milestone", (q) => q.eq("milestoneId", milestone._id))
+    .filter((q) => q.eq(q.field("deletedAt"), undefined))
+    .collect();
+  const completedTaskCount = tasks.filter((task) => task.completed).length;
+  const openTaskCount = tasks.length - completedTaskCount;
+  const daysLeft = Math.round((milestone.dueDate - today) / DAY_MS);
+
+  let status: MilestoneStatus = "on_track";
+  if (tasks.length > 0 && openTaskCount === 0) status = "done";
+  else if (daysLeft < 0) status = "overdue";
+  else if (openTaskCount > daysLeft) status = "at_risk";
+
+  return {
+    ...milestone,
+    taskCount: tasks.length,
+    completedTaskCount,
+    progress:
+      tasks.length > 0
+        ? Math.round((100 * completedTaskCount) / tasks.length)
+        : 0,
+    daysLeft,
+    status,
+  };
+}
+
+// A project's milestones with their roll-ups, soonest due first
+export const list = query({
+  args: {
+    projectId: v.id("projects"),
+    today: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const project = await ctx.db.get(args.projectId);
+    if (!project || project.userId !== userId) return [];
+
+    const milestones = await ctx.db
+      .query("milestones")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    return await Promise.all(
+      milestones.map((milestone) => summarize(ctx.db, milestone, args.today))
+    );
+  },
+});
+
+// The first milestone still to be reached in each project, by project id,
+// leaving out projects in the trash
+export const listNext = query({
+  args: {
+    today: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return {};
+    const milestones = await ctx.db
+      .query("milestones")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    milestones.sort((a, b) => a.dueDate - b.dueDate);
+
+    const next: Record<string, Awaited<ReturnType<typeof summarize>>> = {};
+    const trashed = new Map<Id<"projects">, boolean>();
+    for (const milestone of milestones) {
+      if (next[milestone.projectId]) continue;
+      if (!trashed.has(milestone.projectId)) {
+        const project = await ctx.db.get(milestone.projectId);
+        trashed.set(milestone.projectId, !project || !!project.deletedAt);
+      }
+      if (trashed.get(milestone.projectId)) continue;
+      const summary = await summarize(ctx.db, milestone, args.today);
+      if (summary.status !== "done") next[milestone.projectId] = summary;
+    }
+    return next;
+  },
+});
+
+export const create = undoableMutation("Create milestone", {
+  args: {
+    projectId: v.id("projects"),
+    title: v.string(),
+    dueDate: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+    await getOwnedProject(ctx.db, userId, args.projectId);
+    validateTitle(args.title);
+
+    return await ctx.db.insert("milestones", {
+      ...args,
+      title: args.title.trim(),
+      userId,
+    });
+  },
+});
+
+export const update = undoableMutation("Edit milestone", {
+  args: {
+    id: v.id("milestones"),
+    title: v.optional(v.string()),
+    dueDate: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const milestone = await ctx.db.get(args.id);
+    if (!milestone || milestone.userId !== userId) {
+      throw new Error("Milestone not found");
+    }
+    validateTitle(args.title);
+    const { id, ...fields } = args;
+    await ctx.db.patch(id, {
+      ...fields,
+      ...(fields.title !== undefined && { title: fields.title.trim() }),
+    });
+  },
+});
+
+// Deletes the milestone; its tasks stay in the project without one
+export const remove = undoableMutation("Delete milestone", {
+  args: {
+    id: v.id("milestones"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const milestone = await ctx.db.get(args.id);
+    if (!milestone || milestone.userId !== userId) {
+      throw new Error("Milestone not found");
+    }
+    await unassignMilestoneTasks(ctx.db, args.id);
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * Check that a task in `projectId` can be assigned to this milestone.
+ * Milestones belong to one project, so its tasks must be in it too.
+ */
+export async function validateMilestone(
+  db: DatabaseReader,
+  userId: Id<"users">,
+  milestoneId: Id<"milestones">,
+  projectId: Id<"projects"> | undefined
+) {
+  const milestone = await db.get(milestoneId);
+  if (!milestone || milestone.userId !== userId) {
+    throw new Error("Milestone not found");
+  }
+  if (milestone.projectId !== projectId) {
+    throw new Error("Milestones can only hold tasks from their own project");
+  }
+}
+
+// Take every task, trashed ones included, off the milestone
+export async function unassignMilestoneTasks(
+  db: DatabaseWriter,
+  milestoneId: Id<"milestones">
+) {
+  const tasks = await db
+    .query("tasks")
+    .withIndex("by_milestone", (q) => q.eq("milestoneId", milestoneId))
+    .collect();
+  for (const task of tasks) {
+    await db.patch(task._id, { milestoneId: undefined });
+  }
+}
@@ -1,20 +1,27 @@
-import { mutation, query } from "./_generated/server";
+import { query } from "./_generated/server";
 import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { undoableMutation } from "./undo";
 
+// Most recently modified first
 export const list = query({
-  args: {},
-  handler: async (ctx) => {
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
-    if (!userId) return [];
+    if (!userId) return { page: [], isDone: true, continueCursor: "" };
     return await ctx.db
       .query("notes")
-      .withIndex("by_user", (q) => q.eq("userId", userId))
-      .collect();
+      .withIndex("by_user_modified", (q) => q.eq("userId", userId))
+      .order("desc")
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .paginate(args.paginationOpts);
   },
 });
 
-export const create = mutation({
+export const create = undoableMutation("Create note", {
   args: {
     title: v.string(),
     content: v.string(),
@@ -35,3 +42,20 @@ export const create = mutation({
     });
   },
 });
+
+// Moves the note to the trash
+export const remove = undoableMutation("Delete note", {
+  args: {
+    id: v.id("notes"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const note = await ctx.db.get(args.id);
+    if (!note || note.userId !== userId || note.deletedAt) {
+      throw new Error("Note not found");
+    }
+    await ctx.db.patch(args.id, { deletedAt: Date.now() });
+  },
+});
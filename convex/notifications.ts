@@ -0,0 +1,119 @@
+import {
+  internalMutation,
+  mutation,
+  query,
+  MutationCtx,
+} from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+type ReminderTarget = { taskId: Id<"tasks"> } | { eventId: Id<"events"> };
+
+// Replace any pending reminder job with one firing at `reminderAt`. Returns
+// the new job id, or undefined when the reminder is unset or already past.
+export async function scheduleReminder(
+  ctx: MutationCtx,
+  pendingJobId: Id<"_scheduled_functions"> | undefined,
+  reminderAt: number | undefined,
+  target: ReminderTarget
+): Promise<Id<"_scheduled_functions"> | undefined> {
+  if (pendingJobId) await ctx.scheduler.cancel(pendingJobId);
+  if (reminderAt === undefined || reminderAt <= Date.now()) return undefined;
+
+  return "taskId" in target
+    ? await ctx.scheduler.runAt(
+        reminderAt,
+        internal.notifications.deliverTaskReminder,
+        target
+      )
+    : await ctx.scheduler.runAt(
+        reminderAt,
+        internal.notifications.deliverEventReminder,
+        target
+      );
+}
+
+// Scheduled by scheduleReminder when a task's reminderDate comes due
+export const deliverTaskReminder = internalMutation({
+  args: {
+    taskId: v.id("tasks"),
+  },
+  handler: async (ctx, args) => {
+    const task = await ctx.db.get(args.taskId);
+    if (!task) return;
+    await ctx.db.patch(task._id, { reminderJobId: undefined });
+    // Nothing to remind about once the task is done or in the trash
+    if (task.completed || task.deletedAt || task.reminderDate === undefined) {
+      return;
+    }
+
+    await ctx.db.insert("notifications", {
+      userId: task.userId,
+      title: task.title,
+      body: task.description || undefined,
+      kind: "task_reminder",
+      dueAt: task.dueDate,
+      taskId: task._id,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Scheduled by scheduleReminder when an event's reminderTime comes due
+export const deliverEventReminder = internalMutation({
+  args: {
+    eventId: v.id("events"),
+  },
+  handler: async (ctx, args) => {
+    const event = await ctx.db.get(args.eventId);
+    if (!event) return;
+    await ctx.db.patch(event._id, { reminderJobId: undefined });
+    if (event.deletedAt || event.reminderTime === undefined) return;
+
+    await ctx.db.insert("notifications", {
+      userId: event.userId,
+      title: event.title,
+      body: event.location || undefined,
+      kind: "event_reminder",
+      dueAt: event.startDate,
+      eventId: event._id,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Notifications that haven't been shown to the user yet
+export const listPending = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    return await ctx.db
+      .query("notifications")
+      .withIndex("by_user_delivered", (q) =>
+        q.eq("userId", userId).eq("deliveredAt", undefined)
+      )
+      .collect();
+  },
+});
+
+export const markDelivered = mutation({
+  args: {
+    ids: v.array(v.id("notifications")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const now = Date.now();
+    for (const id of args.ids) {
+      const notification = await ctx.db.get(id);
+      if (!notification || notification.userId !== userId) continue;
+      if (notification.deliveredAt === undefined) {
+        await ctx.db.patch(id, { deliveredAt: now });
+      }
+    }
+  },
+});
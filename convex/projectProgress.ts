@@ -0,0 +1,95 @@
+import { MutationCtx } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+
+// "auto" keeps a project's progress at the share of its tasks completed;
+// "manual" leaves it to the user. Projects without a mode are manual.
+export const progressMode = v.union(v.literal("manual"), v.literal("auto"));
+
+// How much each task counts towards automatic progress
+export const progressWeighting = v.union(
+  v.literal("count"),
+  v.literal("estimate"),
+  v.literal("priority")
+);
+
+type ProgressWeighting = Infer<typeof progressWeighting>;
+
+const PRIORITY_WEIGHTS: Record<string, number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+// Weights per task. Tasks without an estimate count as the average of the
+// estimated ones, so adding estimates to some tasks doesn't zero the rest.
+function getWeights(tasks: Doc<"tasks">[], weighting: ProgressWeighting) {
+  if (weighting === "priority") {
+    return tasks.map(
+      (task) => PRIORITY_WEIGHTS[task.priority ?? "medium"] ?? 2
+    );
+  }
+  if (weighting === "estimate") {
+    const estimates = tasks
+      .map((task) => task.estimateMinutes)
+      .filter((minutes) => minutes !== undefined);
+    const average =
+      estimates.length > 0
+        ? estimates.reduce((sum, minutes) => sum + minutes, 0) /
+          estimates.length
+        : 1;
+    return tasks.map((task) => task.estimateMinutes ?? average);
+  }
+  return tasks.map(() => 1);
+}
+
+// Percentage of the tasks' weight that's completed, 0 for no tasks
+export function computeProgress(
+  tasks: Doc<"tasks">[],
+  weighting: ProgressWeighting = "count"
+) {
+  const weights = getWeights(tasks, weighting);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) return 0;
+  const done = tasks.reduce(
+    (sum, task, i) => sum + (task.completed ? weights[i] : 0),
+    0
+  );
+  return Math.round((100 * done) / total);
+}
+
+/**
+ * Bring the task counts of these projects up to date with their tasks, and
+ * their progress too when it's automatic. Subtasks and snoozed tasks count;
+ * trashed ones don't. Unchanged projects aren't written to.
+ */
+export async function syncProjectProgress(
+  ctx: MutationCtx,
+  projectIds: Iterable<Id<"projects"> | undefined>
+) {
+  for (const projectId of new Set(projectIds)) {
+    if (!projectId) continue;
+    const project = await ctx.db.get(projectId);
+    if (!project) continue;
+    const tasks = (
+      await ctx.db
+        .query("tasks")
+        .withIndex("by_user_project", (q) =>
+          q.eq("userId", project.userId).eq("projectId", projectId)
+        )
+        .collect()
+    ).filter((task) => !task.deletedAt);
+
+    const patch: Partial<Doc<"projects">> = {};
+    const completedTaskCount = tasks.filter((task) => task.completed).length;
+    if (project.taskCount !== tasks.length) patch.taskCount = tasks.length;
+    if (project.completedTaskCount !== completedTaskCount) {
+      patch.completedTaskCount = completedTaskCount;
+    }
+    if (project.progressMode === "auto") {
+      const progress = computeProgress(tasks, project.progressWeighting);
+      if (project.progress !== progress) patch.progress = progress;
+    }
+    if (Object.keys(patch).length > 0) await ctx.db.patch(projectId, patch);
+  }
+}
@@ -1,20 +1,180 @@
-import { mutation, query } from "./_generated/server";
+import { query, DatabaseReader, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { compareBySortKey, keyBetween } from "./fractionalIndex";
+import { undoableMutation } from "./undo";
+import {
+  progressMode,
+  progressWeighting,
+  syncProjectProgress,
+} from "./projectProgress";
+
+// Projects created before manual ordering existed have no key and sort first;
+// give them keys ahead of the keyed projects so their position doesn't change
+async function backfillSortKeys(ctx: MutationCtx, userId: Id<"users">) {
+  const projects = await ctx.db
+    .query("projects")
+    .withIndex("by_user_sort", (q) => q.eq("userId", userId))
+    .collect();
+  const unkeyed = projects.filter((project) => project.sortKey === undefined);
+  let first = projects.find(
+    (project) => project.sortKey !== undefined
+  )?.sortKey;
+  for (const project of unkeyed.reverse()) {
+    first = keyBetween(undefined, first);
+    await ctx.db.patch(project._id, { sortKey: first });
+  }
+}
 
 export const list = query({
   args: {},
   handler: async (ctx) => {
     const userId = await getAuthUserId(ctx);
     if (!userId) return [];
+    // Manual order; projects without a sort key come first in creation order
     return await ctx.db
       .query("projects")
-      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .withIndex("by_user_sort", (q) => q.eq("userId", userId))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .collect();
   },
 });
 
-export const create = mutation({
+/**
+ * Events, from the app and synced from Google Calendar, that name the
+ * project in their title (or, for the app's own events, in their tags) and
+ * fall within its dates: from its start, or creation, to its due date.
+ */
+async function getRelatedEvents(
+  db: DatabaseReader,
+  userId: Id<"users">,
+  project: Doc<"projects">
+) {
+  const title = project.title.trim().toLowerCase();
+  if (!title) return [];
+  const from = project.startDate ?? project._creationTime;
+  const to = project.dueDate ?? Infinity;
+  const mentions = (event: { title: string; tags?: string[] }) =>
+    event.title.toLowerCase().includes(title) ||
+    !!event.tags?.some((tag) => tag.toLowerCase() === title);
+
+  const events = await db
+    .query("events")
+    .withIndex("by_user_end", (q) =>
+      q.eq("userId", userId).gte("endDate", from)
+    )
+    .filter((q) => q.eq(q.field("deletedAt"), undefined))
+    .collect();
+  const googleEvents = await db
+    .query("googleCalendarEvents")
+    .withIndex("by_date_range", (q) => {
+      const range = q.eq("userId", userId).gte("startDate", from);
+      return project.dueDate !== undefined
+        ? range.lte("startDate", project.dueDate)
+        : range;
+    })
+    .collect();
+  return [...events, ...googleEvents]
+    .filter((event) => event.startDate <= to && mentions(event))
+    .sort((a, b) => a.startDate - b.startDate);
+}
+
+/**
+ * Everything linked to a project in one go: its tasks (subtasks included),
+ * notes, bookmarks and related events, all out of the trash. Null when the
+ * project doesn't exist, isn't the user's, or is in the trash.
+ */
+export const getDetail = query({
+  args: {
+    // Straight from the URL, so it may not be a project id at all
+    id: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const id = ctx.db.normalizeId("projects", args.id);
+    const project = id && (await ctx.db.get(id));
+    if (!project || project.userId !== userId || project.deletedAt) {
+      return null;
+    }
+    const tasks = await ctx.db
+      .query("tasks")
+      .withIndex("by_user_project", (q) =>
+        q.eq("userId", userId).eq("projectId", project._id)
+      )
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+    const notes = await ctx.db
+      .query("notes")
+      .withIndex("by_user_project", (q) =>
+        q.eq("userId", userId).eq("projectId", project._id)
+      )
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+    const bookmarks = await ctx.db
+      .query("bookmarks")
+      .withIndex("by_user_project", (q) =>
+        q.eq("userId", userId).eq("projectId", project._id)
+      )
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+
+    return {
+      project,
+      tasks: tasks.sort(compareBySortKey),
+      notes: notes.sort((a, b) => b.lastModified - a.lastModified),
+      bookmarks: bookmarks.sort((a, b) => a.title.localeCompare(b.title)),
+      events: await getRelatedEvents(ctx.db, userId, project),
+    };
+  },
+});
+
+/**
+ * Projects in their manual order for the timeline, each with its milestones
+ * and its tasks that have a due date, soonest first.
+ */
+export const listTimeline = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const projects = await ctx.db
+      .query("projects")
+      .withIndex("by_user_sort", (q) => q.eq("userId", userId))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+
+    return await Promise.all(
+      projects.map(async (project) => {
+        const milestones = await ctx.db
+          .query("milestones")
+          .withIndex("by_project", (q) => q.eq("projectId", project._id))
+          .collect();
+        const tasks = await ctx.db
+          .query("tasks")
+          .withIndex("by_user_project", (q) =>
+            q.eq("userId", userId).eq("projectId", project._id)
+          )
+          .filter((q) =>
+            q.and(
+              q.eq(q.field("deletedAt"), undefined),
+              q.neq(q.field("dueDate"), undefined)
+            )
+          )
+          .collect();
+        return {
+          ...project,
+          milestones,
+          tasks: tasks.sort((a, b) => (a.dueDate ?? 0) - (b.dueDate ?? 0)),
+        };
+      })
+    );
+  },
+});
+
+export const create = undoableMutation("Create project", {
   args: {
     title: v.string(),
     description: v.optional(v.string()),
@@ -25,21 +185,67 @@ export const create = mutation({
     category: v.string(),
     progress: v.number(),
     startDate: v.optional(v.number()),
+    // New projects follow their tasks unless told otherwise
+    progressMode: v.optional(progressMode),
+    progressWeighting: v.optional(progressWeighting),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
     if (!userId) throw new Error("Not authenticated");
 
+    const last = await ctx.db
+      .query("projects")
+      .withIndex("by_user_sort", (q) => q.eq("userId", userId))
+      .order("desc")
+      .first();
+
     return await ctx.db.insert("projects", {
       ...args,
+      progressMode: args.progressMode ?? "auto",
       userId,
       completed: false,
       completedAt: undefined,
+      sortKey: keyBetween(last?.sortKey),
+    });
+  },
+});
+
+// Switch between automatic and manual progress, or set manual progress
+export const updateProgress = undoableMutation("Change project progress", {
+  args: {
+    id: v.id("projects"),
+    progressMode: v.optional(progressMode),
+    progressWeighting: v.optional(progressWeighting),
+    // 0-100, for projects with manual progress
+    progress: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const project = await ctx.db.get(args.id);
+    if (!project || project.userId !== userId || project.deletedAt) {
+      throw new Error("Project not found");
+    }
+    const { id, progress, ...settings } = args;
+    const mode = settings.progressMode ?? project.progressMode ?? "manual";
+    if (progress !== undefined) {
+      if (mode === "auto") {
+        throw new Error("This project's progress follows its tasks");
+      }
+      if (!Number.isFinite(progress) || progress < 0 || progress > 100) {
+        throw new Error("Progress must be between 0 and 100");
+      }
+    }
+    await ctx.db.patch(id, {
+      ...settings,
+      ...(progress !== undefined && { progress: Math.round(progress) }),
     });
+    await syncProjectProgress(ctx, [id]);
   },
 });
 
-export const updateStatus = mutation({
+export const updateStatus = undoableMutation("Move project", {
   args: {
     id: v.id("projects"),
     status: v.string(),
@@ -49,7 +255,9 @@ export const updateStatus = mutation({
     if (!userId) throw new Error("Not authenticated");
 
     const project = await ctx.db.get(args.id);
-    if (!project || project.userId !== userId) throw new Error("Project not found");
+    if (!project || project.userId !== userId || project.deletedAt) {
+      throw new Error("Project not found");
+    }
 
     await ctx.db.patch(args.id, {
       status: args.status,
@@ -58,3 +266,103 @@ export const updateStatus = mutation({
     });
   },
 });
+
+export const reorder = undoableMutation("Move project", {
+  args: {
+    id: v.id("projects"),
+    // Neighbours at the drop position; omit one to drop at a column's end
+    prevId: v.optional(v.id("projects")),
+    nextId: v.optional(v.id("projects")),
+    // Target column, when the project moves between columns
+    status: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const project = await ctx.db.get(args.id);
+    if (!project || project.userId !== userId || project.deletedAt) {
+      throw new Error("Project not found");
+    }
+
+    const getNeighbour = async (id: Id<"projects"> | undefined) => {
+      if (!id) return null;
+      const neighbour = await ctx.db.get(id);
+      if (!neighbour || neighbour.userId !== userId || neighbour.deletedAt) {
+        throw new Error("Project not found");
+      }
+      return neighbour;
+    };
+    let prev = await getNeighbour(args.prevId);
+    let next = await getNeighbour(args.nextId);
+    if (
+      (prev && prev.sortKey === undefined) ||
+      (next && next.sortKey === undefined)
+    ) {
+      await backfillSortKeys(ctx, userId);
+      prev = await getNeighbour(args.prevId);
+      next = await getNeighbour(args.nextId);
+    }
+
+    // Neighbours can be out of order if the list changed mid-drag
+    const sortKey =
+      prev?.sortKey !== undefined &&
+      next?.sortKey !== undefined &&
+      prev.sortKey >= next.sortKey
+        ? keyBetween(prev.sortKey)
+        : keyBetween(prev?.sortKey, next?.sortKey);
+
+    if (args.status !== undefined && args.status !== project.status) {
+      await ctx.db.patch(args.id, {
+        sortKey,
+        status: args.status,
+        completed: args.status === "completed",
+        completedAt: args.status === "completed" ? Date.now() : undefined,
+      });
+    } else {
+      await ctx.db.patch(args.id, { sortKey });
+    }
+  },
+});
+
+// Move or stretch a project on the timeline
+export const reschedule = undoableMutation("Reschedule project", {
+  args: {
+    id: v.id("projects"),
+    startDate: v.number(),
+    dueDate: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const project = await ctx.db.get(args.id);
+    if (!project || project.userId !== userId || project.deletedAt) {
+      throw new Error("Project not found");
+    }
+    if (args.startDate > args.dueDate) {
+      throw new Error("A project can't start after it's due");
+    }
+    await ctx.db.patch(args.id, {
+      startDate: args.startDate,
+      dueDate: args.dueDate,
+    });
+  },
+});
+
+// Moves the project to the trash; its tasks, notes and bookmarks stay put
+export const remove = undoableMutation("Delete project", {
+  args: {
+    id: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const project = await ctx.db.get(args.id);
+    if (!project || project.userId !== userId || project.deletedAt) {
+      throw new Error("Project not found");
+    }
+    await ctx.db.patch(args.id, { deletedAt: Date.now() });
+  },
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { getNextOccurrence, parseRecurrenceRule } from "./recurrence";
+
+const utc = (iso: string) => new Date(`${iso}Z`).getTime();
+
+describe("parseRecurrenceRule", () => {
+  it("parses the parts of an RRULE", () => {
+    expect(
+      parseRecurrenceRule("RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=3")
+    ).toEqual({
+      freq: "MONTHLY",
+      interval: 2,
+      byDay: [{ weekday: 5, ordinal: -1 }],
+      byMonthDay: [],
+      count: 3,
+    });
+  });
+
+  it("accepts the keywords used by events", () => {
+    expect(parseRecurrenceRule("weekly").freq).toBe("WEEKLY");
+  });
+
+  it("rejects rules it can't evaluate", () => {
+    expect(() => parseRecurrenceRule("INTERVAL=2")).toThrow("missing FREQ");
+    expect(() => parseRecurrenceRule("FREQ=HOURLY")).toThrow(
+      'unsupported FREQ "HOURLY"'
+    );
+    expect(() => parseRecurrenceRule("FREQ=WEEKLY;BYDAY=XX")).toThrow(
+      'bad BYDAY "XX"'
+    );
+    expect(() => parseRecurrenceRule("FREQ=DAILY;BYHOUR=9")).toThrow(
+      'unsupported part "BYHOUR"'
+    );
+  });
+});
+
+describe("getNextOccurrence", () => {
+  it("steps by the interval", () => {
+    expect(
+      getNextOccurrence("FREQ=DAILY;INTERVAL=3", utc("2024-01-01T09:00:00"))
+    ).toBe(utc("2024-01-04T09:00:00"));
+    expect(
+      getNextOccurrence("FREQ=WEEKLY;INTERVAL=2", utc("2024-01-01T09:00:00"))
+    ).toBe(utc("2024-01-15T09:00:00"));
+  });
+
+  it("finds the next listed weekday", () => {
+    // Friday to the following Monday
+    expect(
+      getNextOccurrence(
+        "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+        utc("2024-01-05T09:00:00")
+      )
+    ).toBe(utc("2024-01-08T09:00:00"));
+  });
+
+  it("evaluates weekdays in the rule's time zone", () => {
+    // Monday midnight in Berlin is still Sunday in UTC
+    expect(
+      getNextOccurrence(
+        "FREQ=WEEKLY;BYDAY=MO,WE",
+        utc("2024-01-07T23:00:00"),
+        undefined,
+        0,
+        "Europe/Berlin"
+      )
+    ).toBe(utc("2024-01-09T23:00:00"));
+  });
+
+  it("keeps the local time of day across daylight saving changes", () => {
+    // Berlin moves to summer time on March 31st, 2024
+    expect(
+      getNextOccurrence(
+        "FREQ=DAILY",
+        utc("2024-03-30T23:00:00"),
+        undefined,
+        0,
+        "Europe/Berlin"
+      )
+    ).toBe(utc("2024-03-31T22:00:00"));
+  });
+
+  it("finds the nth weekday of the month in the rule's time zone", () => {
+    // Second Tuesday at midnight in New York
+    expect(
+      getNextOccurrence(
+        "FREQ=MONTHLY;BYDAY=2TU",
+        utc("2024-01-09T05:00:00"),
+        undefined,
+        0,
+        "America/New_York"
+      )
+    ).toBe(utc("2024-02-13T05:00:00"));
+  });
+
+  it("counts month days from the end", () => {
+    expect(
+      getNextOccurrence(
+        "FREQ=MONTHLY;BYMONTHDAY=-1",
+        utc("2024-01-31T00:00:00")
+      )
+    ).toBe(utc("2024-02-29T00:00:00"));
+  });
+
+  it("skips months and years without the anchor day", () => {
+    expect(getNextOccurrence("FREQ=MONTHLY", utc("2024-01-31T00:00:00"))).toBe(
+      utc("2024-03-31T00:00:00")
+    );
+    expect(getNextOccurrence("FREQ=YEARLY", utc("2024-02-29T00:00:00"))).toBe(
+      utc("2028-02-29T00:00:00")
+    );
+  });
+
+  it("skips occurrences up to notBefore", () => {
+    expect(
+      getNextOccurrence(
+        "FREQ=DAILY",
+        utc("2024-01-01T09:00:00"),
+        utc("2024-01-05T12:00:00")
+      )
+    ).toBe(utc("2024-01-06T09:00:00"));
+  });
+
+  it("ends the series at COUNT and UNTIL", () => {
+    const from = utc("2024-01-01T09:00:00");
+    expect(getNextOccurrence("FREQ=DAILY;COUNT=3", from, from, 1)).toBe(
+      utc("2024-01-02T09:00:00")
+    );
+    expect(getNextOccurrence("FREQ=DAILY;COUNT=3", from, from, 2)).toBeNull();
+    expect(getNextOccurrence("FREQ=DAILY;UNTIL=20240102", from)).toBe(
+      utc("2024-01-02T09:00:00")
+    );
+    expect(getNextOccurrence("FREQ=DAILY;UNTIL=20240101", from)).toBeNull();
+  });
+
+  it("reads a date-only UNTIL in the rule's time zone", () => {
+    // 8pm on January 1st in Los Angeles is already January 2nd in UTC
+    expect(
+      getNextOccurrence(
+        "FREQ=DAILY;UNTIL=20240101",
+        utc("2024-01-01T04:00:00"),
+        undefined,
+        0,
+        "America/Los_Angeles"
+      )
+    ).toBe(utc("2024-01-02T04:00:00"));
+  });
+
+  it("rejects unknown time zones", () => {
+    expect(() =>
+      getNextOccurrence("FREQ=DAILY", 0, 0, 0, "Mars/Olympus_Mons")
+    ).toThrow('Invalid time zone "Mars/Olympus_Mons"');
+  });
+});
@@ -0,0 +1,344 @@
+// Minimal RFC 5545 RRULE support for recurring tasks. Handles FREQ, INTERVAL,
+// BYDAY (with ordinals for monthly rules), BYMONTHDAY, COUNT and UNTIL, plus
+// the plain "daily"/"weekly"/"monthly"/"yearly" keywords used by events.
+// Rules are evaluated on the wall-clock time in the time zone they were set
+// in, keeping the time of day of the anchor date. Internally, wall-clock
+// times are timestamps whose UTC fields read as the local date and time.
+
+type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+interface WeekdayRule {
+  weekday: number; // 0 = Sunday, matching Date.getUTCDay()
+  ordinal?: number; // 2 = second, -1 = last (monthly/yearly rules only)
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay: WeekdayRule[];
+  byMonthDay: number[];
+  count?: number;
+  until?: number;
+  // UNTIL ending in "Z" is an instant; otherwise it's a wall-clock time
+  untilIsUtc?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const KEYWORDS: Record<string, string> = {
+  daily: "FREQ=DAILY",
+  weekly: "FREQ=WEEKLY",
+  monthly: "FREQ=MONTHLY",
+  yearly: "FREQ=YEARLY",
+};
+// How far ahead to look for a matching date before giving up
+const MAX_PERIODS = 1000;
+
+function parseUntil(
+  value: string
+): Pick<RecurrenceRule, "until" | "untilIsUtc"> {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/i.exec(
+    value
+  );
+  if (!match) throw new Error(`Invalid recurrence rule: bad UNTIL "${value}"`);
+  const [, y, m, d, hh, mm, ss, utc] = match;
+  // A date-only UNTIL includes the whole of that day
+  if (hh === undefined) return { until: Date.UTC(+y, +m - 1, +d) + DAY_MS - 1 };
+  return {
+    until: Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss),
+    untilIsUtc: utc !== "",
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric",
+      });
+    } catch {
+      throw new Error(`Invalid time zone "${timeZone}"`);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Throws unless `timeZone` is an IANA time zone name, e.g. "Europe/Paris"
+export function validateTimeZone(timeZone: string) {
+  getFormatter(timeZone);
+}
+
+// The wall-clock time in `timeZone` at an instant
+function toWallClock(timestamp: number, timeZone: string): number {
+  const fields: Record<string, number> = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(
+    timestamp
+  )) {
+    fields[type] = Number(value);
+  }
+  const ms = ((timestamp % 1000) + 1000) % 1000;
+  return (
+    Date.UTC(
+      fields.year,
+      fields.month - 1,
+      fields.day,
+      fields.hour,
+      fields.minute,
+      fields.second
+    ) + ms
+  );
+}
+
+// The instant a wall-clock time in `timeZone` falls at. Times skipped by a
+// daylight saving change move forward by the size of the gap.
+function fromWallClock(wallClock: number, timeZone: string): number {
+  const guess = wallClock - (toWallClock(wallClock, timeZone) - wallClock);
+  return wallClock - (toWallClock(guess, timeZone) - guess);
+}
+
+function parsePositiveInt(key: string, value: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error(`Invalid recurrence rule: bad ${key} "${value}"`);
+  }
+  return n;
+}
+
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const trimmed = text.trim();
+  const source = (KEYWORDS[trimmed.toLowerCase()] ?? trimmed).replace(
+    /^RRULE:/i,
+    ""
+  );
+
+  const rule: RecurrenceRule = {
+    freq: "DAILY",
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+  };
+  let hasFreq = false;
+
+  for (const part of source.split(";").filter(Boolean)) {
+    const [rawKey, value = ""] = part.split("=");
+    const key = rawKey.toUpperCase();
+    switch (key) {
+      case "FREQ": {
+        const freq = value.toUpperCase();
+        if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) {
+          throw new Error(
+            `Invalid recurrence rule: unsupported FREQ "${value}"`
+          );
+        }
+        rule.freq = freq as Frequency;
+        hasFreq = true;
+        break;
+      }
+      case "INTERVAL":
+        rule.interval = parsePositiveInt(key, value);
+        break;
+      case "COUNT":
+        rule.count = parsePositiveInt(key, value);
+        break;
+      case "UNTIL":
+        Object.assign(rule, parseUntil(value));
+        break;
+      case "BYDAY":
+        rule.byDay = value.split(",").map((day) => {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/i.exec(day);
+          if (!match) {
+            throw new Error(`Invalid recurrence rule: bad BYDAY "${day}"`);
+          }
+          return {
+            weekday: WEEKDAYS.indexOf(match[2].toUpperCase()),
+            ordinal: match[1] ? Number(match[1]) : undefined,
+          };
+        });
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = value.split(",").map((day) => {
+          const n = Number(day);
+          if (!Number.isInteger(n) || n === 0 || Math.abs(n) > 31) {
+            throw new Error(`Invalid recurrence rule: bad BYMONTHDAY "${day}"`);
+          }
+          return n;
+        });
+        break;
+      case "WKST":
+        break;
+      default:
+        throw new Error(`Invalid recurrence rule: unsupported part "${key}"`);
+    }
+  }
+
+  if (!hasFreq) throw new Error("Invalid recurrence rule: missing FREQ");
+  return rule;
+}
+
+// Weeks start on Monday; 1970-01-01 was a Thursday
+const weekIndex = (timestamp: number) =>
+  Math.floor((Math.floor(timestamp / DAY_MS) + 3) / 7);
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// All dates in the given month matching the rule, at the anchor's time of day
+function monthCandidates(
+  rule: RecurrenceRule,
+  year: number,
+  month: number,
+  anchor: Date
+): number[] {
+  const normalized = new Date(Date.UTC(year, month, 1));
+  const y = normalized.getUTCFullYear();
+  const m = normalized.getUTCMonth();
+  const length = daysInMonth(y, m);
+  const at = (day: number) =>
+    Date.UTC(
+      y,
+      m,
+      day,
+      anchor.getUTCHours(),
+      anchor.getUTCMinutes(),
+      anchor.getUTCSeconds()
+    );
+
+  const days = new Set<number>();
+  if (rule.byDay.length > 0) {
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1; day <= length; day++) {
+        if (new Date(Date.UTC(y, m, day)).getUTCDay() === weekday) {
+          matching.push(day);
+        }
+      }
+      if (ordinal === undefined) {
+        matching.forEach((day) => days.add(day));
+      } else {
+        const day =
+          matching[ordinal > 0 ? ordinal - 1 : matching.length + ordinal];
+        if (day !== undefined) days.add(day);
+      }
+    }
+  } else if (rule.byMonthDay.length > 0) {
+    for (const n of rule.byMonthDay) {
+      const day = n > 0 ? n : length + n + 1;
+      if (day >= 1 && day <= length) days.add(day);
+    }
+  } else if (anchor.getUTCDate() <= length) {
+    // Months too short for the anchor day are skipped, as RFC 5545 does
+    days.add(anchor.getUTCDate());
+  }
+
+  return [...days].sort((a, b) => a - b).map(at);
+}
+
+// The first occurrence strictly after `from`, treating `from` as an occurrence
+function nextAfter(rule: RecurrenceRule, from: number): number | null {
+  const anchor = new Date(from);
+
+  switch (rule.freq) {
+    case "DAILY":
+    case "WEEKLY": {
+      const periodDays = rule.freq === "DAILY" ? 1 : 7;
+      if (rule.byDay.length === 0) {
+        return from + periodDays * rule.interval * DAY_MS;
+      }
+      const anchorWeek = weekIndex(from);
+      for (let i = 1; i <= 7 * rule.interval * 2; i++) {
+        const candidate = from + i * DAY_MS;
+        const weekday = new Date(candidate).getUTCDay();
+        if (!rule.byDay.some((d) => d.weekday === weekday)) continue;
+        if (
+          rule.freq === "WEEKLY" &&
+          (weekIndex(candidate) - anchorWeek) % rule.interval !== 0
+        ) {
+          continue;
+        }
+        return candidate;
+      }
+      return null;
+    }
+    case "MONTHLY": {
+      for (let step = 0; step <= MAX_PERIODS; step += rule.interval) {
+        const next = monthCandidates(
+          rule,
+          anchor.getUTCFullYear(),
+          anchor.getUTCMonth() + step,
+          anchor
+        ).find((candidate) => candidate > from);
+        if (next !== undefined) return next;
+      }
+      return null;
+    }
+    case "YEARLY": {
+      for (
+        let step = rule.interval;
+        step <= MAX_PERIODS;
+        step += rule.interval
+      ) {
+        const candidate = new Date(from);
+        candidate.setUTCFullYear(anchor.getUTCFullYear() + step);
+        // Feb 29 only exists in leap years
+        if (candidate.getUTCMonth() === anchor.getUTCMonth()) {
+          return candidate.getTime();
+        }
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Compute the due date of the next instance in a series.
+ *
+ * `from` is the current instance's due date. Occurrences at or before
+ * `notBefore` are skipped so completing a task late doesn't create an
+ * instance that is already overdue. `completedCount` is the number of
+ * instances already completed in the series, used to honour COUNT.
+ * `timeZone` is the IANA zone the rule was set in, so weekdays, month days
+ * and the time of day are those the user sees. Returns null when the series
+ * has ended.
+ */
+export function getNextOccurrence(
+  ruleText: string,
+  from: number,
+  notBefore: number = from,
+  completedCount = 0,
+  timeZone = "UTC"
+): number | null {
+  const rule = parseRecurrenceRule(ruleText);
+  if (rule.count !== undefined && completedCount + 1 >= rule.count) {
+    return null;
+  }
+
+  const toInstant = (wallClock: number) => fromWallClock(wallClock, timeZone);
+  let next = nextAfter(rule, toWallClock(from, timeZone));
+  for (
+    let i = 0;
+    next !== null && toInstant(next) <= notBefore && i < MAX_PERIODS;
+    i++
+  ) {
+    next = nextAfter(rule, next);
+  }
+
+  if (next === null || toInstant(next) <= notBefore) return null;
+  if (
+    rule.until !== undefined &&
+    (rule.untilIsUtc ? toInstant(next) : next) > rule.until
+  ) {
+    return null;
+  }
+  return toInstant(next);
+}
@@ -1,6 +1,9 @@
 import { defineSchema, defineTable } from "convex/server";
 import { authTables } from "@convex-dev/auth/server";
 import { v } from "convex/values";
+import { taskFilterClause } from "./taskFilters";
+import { activityAction, activitySource } from "./activity";
+import { progressMode, progressWeighting } from "./projectProgress";
 
 const applicationTables = {
   tasks: defineTable({
@@ -9,13 +12,66 @@ const applicationTables = {
     dueDate: v.optional(v.number()),
     completed: v.boolean(),
     priority: v.optional(v.string()), // "low", "medium", "high"
-    status: v.optional(v.string()), // "todo", "in_progress", "done"
+    status: v.optional(v.string()), // column of the task's workflow, e.g. "todo"
     tags: v.optional(v.array(v.string())),
     userId: v.id("users"),
     projectId: v.optional(v.id("projects")),
     reminderDate: v.optional(v.number()),
     completedAt: v.optional(v.number()),
-  }).index("by_user", ["userId"]),
+    parentTaskId: v.optional(v.id("tasks")),
+    recurrenceRule: v.optional(v.string()), // RFC 5545 RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO"
+    timeZone: v.optional(v.string()), // IANA zone the rule is evaluated in
+    seriesId: v.optional(v.id("tasks")), // first task of a recurring series
+    blockedBy: v.optional(v.array(v.id("tasks"))), // must be completed first
+    reminderJobId: v.optional(v.id("_scheduled_functions")),
+    sortKey: v.optional(v.string()), // fractional index for manual ordering
+    estimateMinutes: v.optional(v.number()), // compared with tracked time
+    deletedAt: v.optional(v.number()), // set while in the trash
+    startDate: v.optional(v.number()), // snoozed: hidden from lists until then
+    notifyOnStart: v.optional(v.boolean()), // notify when startDate passes
+    milestoneId: v.optional(v.id("milestones")), // in the task's project
+  })
+    .index("by_user", ["userId"])
+    .index("by_parent", ["parentTaskId"])
+    .index("by_user_sort", ["userId", "sortKey"])
+    .index("by_user_project", [
+      "userId",
+      "projectId",
+      "completed",
+      "completedAt",
+    ])
+    .index("by_milestone", ["milestoneId"])
+    .index("by_user_status", ["userId", "status"])
+    .index("by_user_due", ["userId", "dueDate"])
+    .index("by_user_completed", ["userId", "completed", "completedAt"])
+    .index("by_user_completed_due", ["userId", "completed", "dueDate"])
+    .index("by_user_deleted", ["userId", "deletedAt"])
+    .index("by_deleted", ["deletedAt"])
+    .index("by_start", ["startDate"]),
+
+  // One row per completed instance of a recurring task
+  taskCompletions: defineTable({
+    userId: v.id("users"),
+    seriesId: v.id("tasks"),
+    taskId: v.id("tasks"),
+    dueDate: v.optional(v.number()),
+    completedAt: v.number(),
+  }).index("by_series", ["seriesId", "completedAt"]),
+
+  // Kanban columns for the user's tasks; projectId is set for a project's own
+  // workflow and unset for the user's default one
+  workflows: defineTable({
+    userId: v.id("users"),
+    projectId: v.optional(v.id("projects")),
+    columns: v.array(
+      v.object({
+        status: v.string(), // value stored in tasks.status
+        name: v.string(),
+        color: v.string(), // palette key, e.g. "slate", "amber"
+        completed: v.optional(v.boolean()), // exactly one column is completed
+      })
+    ),
+  }).index("by_user_project", ["userId", "projectId"]),
 
   projects: defineTable({
     title: v.string(),
@@ -27,10 +83,32 @@ const applicationTables = {
     tags: v.optional(v.array(v.string())),
     category: v.optional(v.string()), // "work", "personal", "education", etc.
     progress: v.optional(v.number()), // 0-100
+    progressMode: v.optional(progressMode), // unset means manual
+    progressWeighting: v.optional(progressWeighting), // for automatic progress
+    // Maintained from the project's tasks, whatever the progress mode
+    taskCount: v.optional(v.number()),
+    completedTaskCount: v.optional(v.number()),
     userId: v.id("users"),
     startDate: v.optional(v.number()),
     completedAt: v.optional(v.number()),
-  }).index("by_user", ["userId"]),
+    sortKey: v.optional(v.string()), // fractional index for manual ordering
+    deletedAt: v.optional(v.number()), // set while in the trash
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_sort", ["userId", "sortKey"])
+    .index("by_user_deleted", ["userId", "deletedAt"])
+    .index("by_deleted", ["deletedAt"]),
+
+  // Dated checkpoints within a project; tasks of the project can be
+  // assigned to one
+  milestones: defineTable({
+    userId: v.id("users"),
+    projectId: v.id("projects"),
+    title: v.string(),
+    dueDate: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_project", ["projectId", "dueDate"]),
 
   events: defineTable({
     title: v.string(),
@@ -47,7 +125,13 @@ const applicationTables = {
     color: v.optional(v.string()), // for calendar display
     userId: v.id("users"),
     reminderTime: v.optional(v.number()),
-  }).index("by_user", ["userId"]),
+    reminderJobId: v.optional(v.id("_scheduled_functions")),
+    deletedAt: v.optional(v.number()), // set while in the trash
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_end", ["userId", "endDate"])
+    .index("by_user_deleted", ["userId", "deletedAt"])
+    .index("by_deleted", ["deletedAt"]),
 
   notes: defineTable({
     title: v.string(),
@@ -59,9 +143,14 @@ const applicationTables = {
     lastModified: v.number(),
     userId: v.id("users"),
     projectId: v.optional(v.id("projects")),
+    deletedAt: v.optional(v.number()), // set while in the trash
   })
     .index("by_user", ["userId"])
-    .index("by_pinned", ["userId", "isPinned"]),
+    .index("by_pinned", ["userId", "isPinned"])
+    .index("by_user_modified", ["userId", "lastModified"])
+    .index("by_user_project", ["userId", "projectId"])
+    .index("by_user_deleted", ["userId", "deletedAt"])
+    .index("by_deleted", ["deletedAt"]),
 
   bookmarks: defineTable({
     title: v.string(),
@@ -74,8 +163,157 @@ const applicationTables = {
     lastVisited: v.optional(v.number()),
     userId: v.id("users"),
     projectId: v.optional(v.id("projects")),
+    deletedAt: v.optional(v.number()), // set while in the trash
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_archived", ["userId", "isArchived"])
+    .index("by_user_project", ["userId", "projectId"])
+    .index("by_user_deleted", ["userId", "deletedAt"])
+    .index("by_deleted", ["deletedAt"]),
+
+  notifications: defineTable({
+    userId: v.id("users"),
+    title: v.string(),
+    body: v.optional(v.string()),
+    kind: v.string(), // "task_reminder", "event_reminder", "task_resurfaced"
+    dueAt: v.optional(v.number()), // task due date or event start
+    taskId: v.optional(v.id("tasks")),
+    eventId: v.optional(v.id("events")),
+    createdAt: v.number(),
+    deliveredAt: v.optional(v.number()), // set once shown in the browser
+  }).index("by_user_delivered", ["userId", "deliveredAt"]),
+
+  // Tracked time on tasks; at most one entry per user is running (no end)
+  timeEntries: defineTable({
+    userId: v.id("users"),
+    taskId: v.id("tasks"),
+    projectId: v.optional(v.id("projects")), // the task's project at start
+    start: v.number(),
+    end: v.optional(v.number()),
+    note: v.optional(v.string()),
+  })
+    .index("by_user_end", ["userId", "end"])
+    .index("by_user_start", ["userId", "start"])
+    .index("by_task", ["taskId"]),
+
+  // Reusable tasks. Placeholders like {{date}} in the title, description and
+  // checklist are filled in when a task is created from the template.
+  taskTemplates: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    title: v.string(),
+    description: v.optional(v.string()),
+    priority: v.optional(v.string()),
+    tags: v.array(v.string()),
+    projectId: v.optional(v.id("projects")),
+    estimateMinutes: v.optional(v.number()),
+    dueOffsetDays: v.optional(v.number()), // due this many days after creation
+    // Created as subtasks, each optionally due relative to creation too
+    checklist: v.array(
+      v.object({
+        title: v.string(),
+        dueOffsetDays: v.optional(v.number()),
+      })
+    ),
+  }).index("by_user", ["userId"]),
+
+  // Named task filter queries shown in the sidebar; clauses are the parsed
+  // query, stored so the server can count matches
+  taskViews: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    query: v.string(),
+    clauses: v.array(taskFilterClause),
   }).index("by_user", ["userId"]),
 
+  // Completed Pomodoro focus sessions, shown on the day's timeline
+  focusSessions: defineTable({
+    userId: v.id("users"),
+    taskId: v.id("tasks"),
+    start: v.number(),
+    end: v.number(),
+  })
+    .index("by_user_start", ["userId", "start"])
+    .index("by_task", ["taskId"]),
+
+  // Discussion on a task or a project; exactly one of taskId and projectId
+  // is set. Replies point at the comment they answer.
+  comments: defineTable({
+    userId: v.id("users"),
+    taskId: v.optional(v.id("tasks")),
+    projectId: v.optional(v.id("projects")),
+    parentCommentId: v.optional(v.id("comments")),
+    body: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_task", ["taskId", "createdAt"])
+    .index("by_project", ["projectId", "createdAt"]),
+
+  // Files in Convex storage attached to a task or a project
+  attachments: defineTable({
+    userId: v.id("users"),
+    taskId: v.optional(v.id("tasks")),
+    projectId: v.optional(v.id("projects")),
+    storageId: v.id("_storage"),
+    name: v.string(),
+    contentType: v.string(),
+    size: v.number(), // bytes
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_task", ["taskId", "createdAt"])
+    .index("by_project", ["projectId", "createdAt"])
+    .index("by_storage", ["storageId"]),
+
+  // Upload URLs handed out for attachments, so only the user who asked for
+  // one can attach the file posted to it
+  attachmentUploads: defineTable({
+    userId: v.id("users"),
+    createdAt: v.number(),
+  }).index("by_created", ["createdAt"]),
+
+  // Recent changes the user can undo or redo, as snapshots of every document
+  // a mutation touched (see convex/undo.ts)
+  undoEntries: defineTable({
+    userId: v.id("users"),
+    label: v.string(), // e.g. "Delete task"
+    changes: v.array(
+      v.object({
+        table: v.string(),
+        id: v.string(),
+        // Unset before an insert or after a delete
+        before: v.optional(v.any()),
+        after: v.optional(v.any()),
+      })
+    ),
+    undone: v.boolean(),
+    createdAt: v.number(),
+  }).index("by_user_created", ["userId", "createdAt"]),
+
+  // Audit log of changes to user content, kept for item history and the
+  // activity feed (see convex/activity.ts)
+  activity: defineTable({
+    userId: v.id("users"), // owner of the item
+    actorId: v.optional(v.id("users")), // unset for syncs
+    source: activitySource,
+    table: v.string(),
+    entityId: v.string(),
+    title: v.string(), // the item's title at the time
+    action: activityAction,
+    changes: v.array(
+      v.object({
+        field: v.string(),
+        // Unset when the field was added or removed
+        before: v.optional(v.any()),
+        after: v.optional(v.any()),
+      })
+    ),
+    createdAt: v.number(),
+  })
+    .index("by_user_created", ["userId", "createdAt"])
+    .index("by_entity", ["entityId", "createdAt"]),
+
   googleCalendarAuth: defineTable({
     userId: v.id("users"),
     isAuthorized: v.boolean(),
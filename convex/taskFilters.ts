@@ -0,0 +1,205 @@
+import { DatabaseReader } from "./_generated/server";
+import { Infer, v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { compareBySortKey } from "./fractionalIndex";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One term of a task filter query such as `tag:work` or `-status:done`, as
+ * parsed by src/utils/taskQuery.ts. Due ranges are [from, to) either as day
+ * offsets from the caller's local midnight, so saved views stay relative, or
+ * as absolute timestamps for explicit dates.
+ */
+export const taskFilterClause = v.object({
+  field: v.union(
+    v.literal("text"),
+    v.literal("tag"),
+    v.literal("priority"),
+    v.literal("status"),
+    v.literal("project"),
+    v.literal("is"),
+    v.literal("due")
+  ),
+  // For due: "none", "any" or "range"
+  value: v.string(),
+  negate: v.boolean(),
+  fromDays: v.optional(v.number()),
+  toDays: v.optional(v.number()),
+  from: v.optional(v.number()),
+  to: v.optional(v.number()),
+});
+
+export type TaskFilterClause = Infer<typeof taskFilterClause>;
+
+// Snoozed tasks stay out of task lists, agendas and view counts until their
+// start date, when resurfaceSnoozed clears it
+export const isSnoozed = (task: Doc<"tasks">) => task.startDate !== undefined;
+
+// Ids of the tasks' blockers that are still open
+export async function getOpenBlockerIds(
+  db: DatabaseReader,
+  tasks: Doc<"tasks">[]
+) {
+  const blockerIds = new Set(tasks.flatMap((task) => task.blockedBy || []));
+  const openIds = new Set<Id<"tasks">>();
+  for (const id of blockerIds) {
+    const blocker = await db.get(id);
+    if (blocker && !blocker.completed && !blocker.deletedAt) openIds.add(id);
+  }
+  return openIds;
+}
+
+function getDueRange(clause: TaskFilterClause, today: number) {
+  // Day offsets ignore DST shifts, which only moves the bound by an hour
+  const from =
+    clause.from ??
+    (clause.fromDays !== undefined
+      ? today + clause.fromDays * DAY_MS
+      : -Infinity);
+  const to =
+    clause.to ??
+    (clause.toDays !== undefined ? today + clause.toDays * DAY_MS : Infinity);
+  return { from, to };
+}
+
+/**
+ * The user's tasks matching every clause, in manual order, leaving out the
+ * trash. The first
+ * positive project, status or due clause picks the index to read from; all
+ * clauses are then checked in memory.
+ */
+export async function runTaskFilter(
+  db: DatabaseReader,
+  userId: Id<"users">,
+  clauses: TaskFilterClause[],
+  today: number,
+  // Only look at this project's tasks
+  projectId?: Id<"projects">
+): Promise<Doc<"tasks">[]> {
+  // Project names resolve to ids, with "none" meaning no project
+  const projects = clauses.some((c) => c.field === "project")
+    ? await db
+        .query("projects")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect()
+    : [];
+  const projectIdsFor = (name: string): (Id<"projects"> | undefined)[] =>
+    name.toLowerCase() === "none"
+      ? [undefined]
+      : projects
+          .filter((p) => p.title.toLowerCase() === name.toLowerCase())
+          .map((p) => p._id);
+
+  const positive = clauses.filter((c) => !c.negate);
+  const projectClause = positive.find((c) => c.field === "project");
+  const statusClause = positive.find((c) => c.field === "status");
+  const dueClause = positive.find(
+    (c) => c.field === "due" && c.value === "range"
+  );
+
+  let candidates: Doc<"tasks">[];
+  if (projectId) {
+    candidates = await db
+      .query("tasks")
+      .withIndex("by_user_project", (q) =>
+        q.eq("userId", userId).eq("projectId", projectId)
+      )
+      .collect();
+  } else if (projectClause) {
+    candidates = [];
+    for (const projectId of projectIdsFor(projectClause.value)) {
+      candidates.push(
+        ...(await db
+          .query("tasks")
+          .withIndex("by_user_project", (q) =>
+            q.eq("userId", userId).eq("projectId", projectId)
+          )
+          .collect())
+      );
+    }
+  } else if (statusClause) {
+    candidates = await db
+      .query("tasks")
+      .withIndex("by_user_status", (q) =>
+        q.eq("userId", userId).eq("status", statusClause.value)
+      )
+      .collect();
+  } else if (dueClause) {
+    const { from, to } = getDueRange(dueClause, today);
+    candidates = await db
+      .query("tasks")
+      .withIndex("by_user_due", (q) => {
+        const user = q.eq("userId", userId);
+        if (from > -Infinity && to < Infinity) {
+          return user.gte("dueDate", from).lt("dueDate", to);
+        }
+        if (from > -Infinity) return user.gte("dueDate", from);
+        if (to < Infinity) return user.lt("dueDate", to);
+        return user;
+      })
+      .collect();
+  } else {
+    candidates = await db
+      .query("tasks")
+      .withIndex("by_user_sort", (q) => q.eq("userId", userId))
+      .collect();
+  }
+
+  const openBlockerIds = clauses.some(
+    (c) => c.field === "is" && c.value === "blocked"
+  )
+    ? await getOpenBlockerIds(db, candidates)
+    : new Set<Id<"tasks">>();
+
+  const matches = (task: Doc<"tasks">, clause: TaskFilterClause) => {
+    const value = clause.value.toLowerCase();
+    switch (clause.field) {
+      case "text":
+        return `${task.title}\n${task.description ?? ""}`
+          .toLowerCase()
+          .includes(value);
+      case "tag":
+        return (task.tags || []).some((tag) => tag.toLowerCase() === value);
+      case "priority":
+        return (task.priority || "medium") === value;
+      case "status":
+        return task.status === value;
+      case "project":
+        return projectIdsFor(clause.value).includes(task.projectId);
+      case "is":
+        switch (value) {
+          case "open":
+            return !task.completed;
+          case "completed":
+            return task.completed;
+          case "blocked":
+            return (
+              !task.completed &&
+              (task.blockedBy || []).some((id) => openBlockerIds.has(id))
+            );
+          case "recurring":
+            return !!task.recurrenceRule;
+          case "subtask":
+            return !!task.parentTaskId;
+          default:
+            return false;
+        }
+      case "due": {
+        if (value === "none") return task.dueDate === undefined;
+        if (task.dueDate === undefined) return false;
+        if (value === "any") return true;
+        const { from, to } = getDueRange(clause, today);
+        return task.dueDate >= from && task.dueDate < to;
+      }
+    }
+  };
+
+  return candidates
+    .filter(
+      (task) =>
+        !task.deletedAt &&
+        clauses.every((clause) => matches(task, clause) !== clause.negate)
+    )
+    .sort(compareBySortKey);
+}
@@ -0,0 +1,283 @@
+import { mutation, query, DatabaseReader } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { nextSortKey } from "./tasks";
+import { undoableMutation } from "./undo";
+import { getOpenColumn, getWorkflowColumns } from "./workflows";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_CHECKLIST_ITEMS = 50;
+
+const checklistItem = v.object({
+  title: v.string(),
+  dueOffsetDays: v.optional(v.number()),
+});
+
+const templateFields = {
+  name: v.string(),
+  title: v.string(),
+  description: v.optional(v.string()),
+  priority: v.optional(v.string()),
+  tags: v.array(v.string()),
+  projectId: v.optional(v.id("projects")),
+  estimateMinutes: v.optional(v.number()),
+  dueOffsetDays: v.optional(v.number()),
+  checklist: v.array(checklistItem),
+};
+
+function validateOffset(days: number | undefined) {
+  if (days !== undefined && (!Number.isInteger(days) || days < 0)) {
+    throw new Error("Due offsets must be a whole number of days, 0 or more");
+  }
+}
+
+function validateTemplate(fields: {
+  name?: string;
+  title?: string;
+  dueOffsetDays?: number;
+  checklist?: { title: string; dueOffsetDays?: number }[];
+}) {
+  if (fields.name !== undefined && !fields.name.trim()) {
+    throw new Error("Template name is required");
+  }
+  if (fields.title !== undefined && !fields.title.trim()) {
+    throw new Error("Title is required");
+  }
+  validateOffset(fields.dueOffsetDays);
+  if (fields.checklist) {
+    if (fields.checklist.length > MAX_CHECKLIST_ITEMS) {
+      throw new Error(
+        `Templates can have at most ${MAX_CHECKLIST_ITEMS} checklist items`
+      );
+    }
+    for (const item of fields.checklist) validateOffset(item.dueOffsetDays);
+  }
+}
+
+async function validateProject(
+  db: DatabaseReader,
+  userId: Id<"users">,
+  projectId: Id<"projects"> | undefined
+) {
+  if (!projectId) return;
+  const project = await db.get(projectId);
+  if (!project || project.userId !== userId || project.deletedAt) {
+    throw new Error("Project not found");
+  }
+}
+
+// Fill {{name}} placeholders from `values`, leaving unknown ones as typed.
+// Only the object's own keys count, so {{constructor}} stays as typed too.
+function fillPlaceholders(text: string, values: Record<string, string>) {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name)
+      ? values[name]
+      : placeholder
+  );
+}
+
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const templates = await ctx.db
+      .query("taskTemplates")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+export const create = mutation({
+  args: templateFields,
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+    validateTemplate(args);
+    await validateProject(ctx.db, userId, args.projectId);
+
+    return await ctx.db.insert("taskTemplates", {
+      ...args,
+      name: args.name.trim(),
+      title: args.title.trim(),
+      userId,
+    });
+  },
+});
+
+/**
+ * Save a task and its direct subtasks as a template. Due dates become
+ * offsets from `today`, the start of the client's local day, so a task due
+ * in three days makes a template due three days after each use.
+ */
+export const createFromTask = mutation({
+  args: {
+    taskId: v.id("tasks"),
+    name: v.string(),
+    today: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const task = await ctx.db.get(args.taskId);
+    if (!task || task.userId !== userId || task.deletedAt) {
+      throw new Error("Task not found");
+    }
+    validateTemplate({ name: args.name });
+    const toOffset = (dueDate: number | undefined) =>
+      dueDate === undefined
+        ? undefined
+        : Math.max(0, Math.round((dueDate - args.today) / DAY_MS));
+    const subtasks = await ctx.db
+      .query("tasks")
+      .withIndex("by_parent", (q) => q.eq("parentTaskId", task._id))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+
+    return await ctx.db.insert("taskTemplates", {
+      userId,
+      name: args.name.trim(),
+      title: task.title,
+      description: task.description || undefined,
+      priority: task.priority,
+      tags: task.tags ?? [],
+      projectId: task.projectId,
+      estimateMinutes: task.estimateMinutes,
+      dueOffsetDays: toOffset(task.dueDate),
+      checklist: subtasks.slice(0, MAX_CHECKLIST_ITEMS).map((subtask) => ({
+        title: subtask.title,
+        dueOffsetDays: toOffset(subtask.dueDate),
+      })),
+    });
+  },
+});
+
+export const update = mutation({
+  args: {
+    id: v.id("taskTemplates"),
+    name: v.optional(v.string()),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    priority: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
+    // null clears the field
+    projectId: v.optional(v.union(v.id("projects"), v.null())),
+    estimateMinutes: v.optional(v.union(v.number(), v.null())),
+    dueOffsetDays: v.optional(v.union(v.number(), v.null())),
+    checklist: v.optional(v.array(checklistItem)),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const template = await ctx.db.get(args.id);
+    if (!template || template.userId !== userId) {
+      throw new Error("Template not found");
+    }
+    const { id, projectId, estimateMinutes, dueOffsetDays, ...fields } = args;
+    validateTemplate({ ...fields, dueOffsetDays: dueOffsetDays ?? undefined });
+    await validateProject(ctx.db, userId, projectId ?? undefined);
+
+    const patch: Partial<Doc<"taskTemplates">> = { ...fields };
+    if (fields.name !== undefined) patch.name = fields.name.trim();
+    if (fields.title !== undefined) patch.title = fields.title.trim();
+    if (projectId !== undefined) patch.projectId = projectId ?? undefined;
+    if (estimateMinutes !== undefined) {
+      patch.estimateMinutes = estimateMinutes ?? undefined;
+    }
+    if (dueOffsetDays !== undefined) {
+      patch.dueOffsetDays = dueOffsetDays ?? undefined;
+    }
+    await ctx.db.patch(id, patch);
+  },
+});
+
+export const remove = mutation({
+  args: {
+    id: v.id("taskTemplates"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const template = await ctx.db.get(args.id);
+    if (!template || template.userId !== userId) {
+      throw new Error("Template not found");
+    }
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * Create a task from a template, with its checklist as subtasks. Due dates
+ * count from `today`, the start of the client's local day, and `date` is
+ * that day as the user writes it, for {{date}}. A given projectId overrides
+ * the template's own project.
+ */
+export const instantiate = undoableMutation("Create task from template", {
+  args: {
+    id: v.id("taskTemplates"),
+    today: v.number(),
+    date: v.string(),
+    projectId: v.optional(v.id("projects")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const template = await ctx.db.get(args.id);
+    if (!template || template.userId !== userId) {
+      throw new Error("Template not found");
+    }
+    await validateProject(ctx.db, userId, args.projectId);
+    // The template's own project may have been trashed since it was saved
+    const templateProject =
+      template.projectId && (await ctx.db.get(template.projectId));
+    const project = args.projectId
+      ? await ctx.db.get(args.projectId)
+      : templateProject && !templateProject.deletedAt
+        ? templateProject
+        : null;
+
+    const fill = (text: string) =>
+      fillPlaceholders(text, {
+        date: args.date,
+        project: project?.title ?? "",
+      });
+    const dueDate = (offset: number | undefined) =>
+      offset === undefined ? undefined : args.today + offset * DAY_MS;
+    const status = getOpenColumn(
+      await getWorkflowColumns(ctx.db, userId, project?._id)
+    ).status;
+
+    const taskId = await ctx.db.insert("tasks", {
+      userId,
+      title: fill(template.title).trim() || template.name,
+      description: template.description && fill(template.description),
+      priority: template.priority,
+      tags: template.tags,
+      projectId: project?._id,
+      estimateMinutes: template.estimateMinutes,
+      dueDate: dueDate(template.dueOffsetDays),
+      status,
+      completed: false,
+      sortKey: await nextSortKey(ctx.db, userId),
+    });
+    for (const item of template.checklist) {
+      await ctx.db.insert("tasks", {
+        userId,
+        title: fill(item.title).trim() || "Untitled",
+        parentTaskId: taskId,
+        projectId: project?._id,
+        dueDate: dueDate(item.dueOffsetDays),
+        status,
+        completed: false,
+        sortKey: await nextSortKey(ctx.db, userId),
+      });
+    }
+    return taskId;
+  },
+});
@@ -0,0 +1,100 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { isSnoozed, runTaskFilter, taskFilterClause } from "./taskFilters";
+
+function validateName(name: string) {
+  if (!name.trim()) throw new Error("View name is required");
+}
+
+// Saved views with how many tasks each matches right now, as listFiltered
+// shows them
+export const list = query({
+  args: {
+    // Start of the client's local day, for relative due dates
+    today: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const views = await ctx.db
+      .query("taskViews")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    const result = [];
+    for (const view of views) {
+      const tasks = await runTaskFilter(
+        ctx.db,
+        userId,
+        view.clauses,
+        args.today
+      );
+      result.push({
+        ...view,
+        count: tasks.filter((task) => !isSnoozed(task)).length,
+      });
+    }
+    return result;
+  },
+});
+
+export const create = mutation({
+  args: {
+    name: v.string(),
+    query: v.string(),
+    clauses: v.array(taskFilterClause),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+    validateName(args.name);
+
+    return await ctx.db.insert("taskViews", {
+      ...args,
+      name: args.name.trim(),
+      userId,
+    });
+  },
+});
+
+export const update = mutation({
+  args: {
+    id: v.id("taskViews"),
+    name: v.optional(v.string()),
+    // The query text and its parsed clauses change together
+    query: v.optional(v.string()),
+    clauses: v.optional(v.array(taskFilterClause)),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const view = await ctx.db.get(args.id);
+    if (!view || view.userId !== userId) throw new Error("View not found");
+    if ((args.query === undefined) !== (args.clauses === undefined)) {
+      throw new Error("Query and clauses must be updated together");
+    }
+    if (args.name !== undefined) validateName(args.name);
+
+    const { id, ...updates } = args;
+    await ctx.db.patch(id, {
+      ...updates,
+      ...(args.name !== undefined && { name: args.name.trim() }),
+    });
+  },
+});
+
+export const remove = mutation({
+  args: {
+    id: v.id("taskViews"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const view = await ctx.db.get(args.id);
+    if (!view || view.userId !== userId) throw new Error("View not found");
+    await ctx.db.delete(args.id);
+  },
+});
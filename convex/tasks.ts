@@ -1,62 +1,719 @@
-import { mutation, query } from "./_generated/server";
+import {
+  internalMutation,
+  query,
+  DatabaseReader,
+  MutationCtx,
+} from "./_generated/server";
 import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { Doc, Id } from "./_generated/dataModel";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import {
+  getNextOccurrence,
+  parseRecurrenceRule,
+  validateTimeZone,
+} from "./recurrence";
+import { scheduleReminder } from "./notifications";
+import { compareBySortKey, keyBetween } from "./fractionalIndex";
+import {
+  getOpenBlockerIds,
+  isSnoozed,
+  runTaskFilter,
+  taskFilterClause,
+} from "./taskFilters";
+import {
+  getCompletedColumn,
+  getOpenColumn,
+  getWorkflowColumns,
+  placeTask,
+  resolveColumn,
+} from "./workflows";
+import { undoableMutation } from "./undo";
+import { purgeComments } from "./comments";
+import { purgeAttachments } from "./attachments";
+import { validateMilestone } from "./milestones";
+import { getRunningEntry } from "./timeEntries";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RESURFACE_BATCH_SIZE = 100;
+
+type TaskNode = Doc<"tasks"> & {
+  subtasks: TaskNode[];
+  // Roll-up counts across all descendants, not just direct children
+  subtaskCount: number;
+  completedSubtaskCount: number;
+  // True while any task in blockedBy is still open
+  isBlocked: boolean;
+};
+
+// Nest tasks under their parents, treating orphans as top-level tasks.
+// openIds defaults to the open tasks among `tasks`, which is every possible
+// blocker when given all of the user's tasks.
+function buildTaskTree(
+  tasks: Doc<"tasks">[],
+  openIds = new Set(
+    tasks.filter((task) => !task.completed).map((task) => task._id)
+  )
+): TaskNode[] {
+  const ids = new Set(tasks.map((task) => task._id));
+  const childrenByParent = new Map<Id<"tasks">, Doc<"tasks">[]>();
+  const roots: Doc<"tasks">[] = [];
+
+  for (const task of tasks) {
+    if (task.parentTaskId && ids.has(task.parentTaskId)) {
+      const siblings = childrenByParent.get(task.parentTaskId) || [];
+      siblings.push(task);
+      childrenByParent.set(task.parentTaskId, siblings);
+    } else {
+      roots.push(task);
+    }
+  }
+
+  const toNode = (task: Doc<"tasks">): TaskNode => {
+    const subtasks = (childrenByParent.get(task._id) || []).map(toNode);
+    return {
+      ...task,
+      subtasks,
+      subtaskCount: subtasks.reduce((n, s) => n + 1 + s.subtaskCount, 0),
+      completedSubtaskCount: subtasks.reduce(
+        (n, s) => n + (s.completed ? 1 : 0) + s.completedSubtaskCount,
+        0
+      ),
+      isBlocked: (task.blockedBy || []).some((id) => openIds.has(id)),
+    };
+  };
+
+  return roots.map(toNode);
+}
+
+async function getDescendants(
+  db: DatabaseReader,
+  taskId: Id<"tasks">
+): Promise<Doc<"tasks">[]> {
+  const children = await db
+    .query("tasks")
+    .withIndex("by_parent", (q) => q.eq("parentTaskId", taskId))
+    .collect();
+  const descendants = [...children];
+  for (const child of children) {
+    descendants.push(...(await getDescendants(db, child._id)));
+  }
+  return descendants;
+}
+
+// Completed subtasks, at any depth, of the given open tasks. Open
+// descendants are left out since they're among the open tasks already.
+async function getCompletedDescendants(
+  db: DatabaseReader,
+  openTasks: Doc<"tasks">[]
+): Promise<Doc<"tasks">[]> {
+  const completed: Doc<"tasks">[] = [];
+  const queue = [...openTasks];
+  for (let task = queue.shift(); task; task = queue.shift()) {
+    const children = await db
+      .query("tasks")
+      .withIndex("by_parent", (q) => q.eq("parentTaskId", task._id))
+      .collect();
+    for (const child of children) {
+      if (!child.completed || child.deletedAt) continue;
+      completed.push(child);
+      queue.push(child);
+    }
+  }
+  return completed;
+}
+
+// Record a completed instance of a recurring task and create the next one.
+// The rule moves on to the new instance, so reopening an old instance can't
+// fork the series.
+async function advanceRecurringTask(
+  ctx: MutationCtx,
+  task: Doc<"tasks">,
+  completedAt: number
+) {
+  if (!task.recurrenceRule) return;
+
+  const seriesId = task.seriesId ?? task._id;
+  const history = await ctx.db
+    .query("taskCompletions")
+    .withIndex("by_series", (q) => q.eq("seriesId", seriesId))
+    .collect();
+  await ctx.db.insert("taskCompletions", {
+    userId: task.userId,
+    seriesId,
+    taskId: task._id,
+    dueDate: task.dueDate,
+    completedAt,
+  });
+  await ctx.db.patch(task._id, { recurrenceRule: undefined, seriesId });
+
+  const from = task.dueDate ?? completedAt;
+  const nextDueDate = getNextOccurrence(
+    task.recurrenceRule,
+    from,
+    completedAt,
+    history.length,
+    task.timeZone
+  );
+  if (nextDueDate === null) return;
+
+  // Keep the reminder the same distance ahead of the due date
+  const reminderDate =
+    task.reminderDate !== undefined
+      ? nextDueDate - (from - task.reminderDate)
+      : undefined;
+  const columns = await getWorkflowColumns(ctx.db, task.userId, task.projectId);
+  const nextTaskId = await ctx.db.insert("tasks", {
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    tags: task.tags,
+    projectId: task.projectId,
+    parentTaskId: task.parentTaskId,
+    userId: task.userId,
+    status: getOpenColumn(columns).status,
+    completed: false,
+    dueDate: nextDueDate,
+    reminderDate,
+    recurrenceRule: task.recurrenceRule,
+    timeZone: task.timeZone,
+    seriesId,
+    sortKey: await nextSortKey(ctx.db, task.userId),
+  });
+  if (reminderDate !== undefined) {
+    await ctx.db.patch(nextTaskId, {
+      reminderJobId: await scheduleReminder(ctx, undefined, reminderDate, {
+        taskId: nextTaskId,
+      }),
+    });
+  }
+}
+
+// Sort key placing a new task at the end of the user's manual order
+export async function nextSortKey(db: DatabaseReader, userId: Id<"users">) {
+  const last = await db
+    .query("tasks")
+    .withIndex("by_user_sort", (q) => q.eq("userId", userId))
+    .order("desc")
+    .first();
+  return keyBetween(last?.sortKey);
+}
+
+// Tasks created before manual ordering existed have no key and sort first;
+// give them keys ahead of the keyed tasks so their position doesn't change
+async function backfillSortKeys(ctx: MutationCtx, userId: Id<"users">) {
+  const tasks = await ctx.db
+    .query("tasks")
+    .withIndex("by_user_sort", (q) => q.eq("userId", userId))
+    .collect();
+  const unkeyed = tasks.filter((task) => task.sortKey === undefined);
+  let first = tasks.find((task) => task.sortKey !== undefined)?.sortKey;
+  for (const task of unkeyed.reverse()) {
+    first = keyBetween(undefined, first);
+    await ctx.db.patch(task._id, { sortKey: first });
+  }
+}
+
+function validateEstimate(estimateMinutes: number | null | undefined) {
+  if (
+    estimateMinutes !== undefined &&
+    estimateMinutes !== null &&
+    !(estimateMinutes > 0)
+  ) {
+    throw new Error("Estimate must be a positive number of minutes");
+  }
+}
+
+function validateStartDate(startDate: number | null | undefined) {
+  if (typeof startDate === "number" && startDate <= Date.now()) {
+    throw new Error("Start date must be in the future");
+  }
+}
+
+function validateRecurrenceRule(
+  rule: string | undefined | null,
+  timeZone: string | undefined
+) {
+  if (rule) parseRecurrenceRule(rule);
+  if (timeZone) validateTimeZone(timeZone);
+}
+
+// Blockers must belong to the user, and adding them must not create a cycle
+async function validateBlockers(
+  db: DatabaseReader,
+  userId: Id<"users">,
+  taskId: Id<"tasks"> | null,
+  blockerIds: Id<"tasks">[]
+) {
+  for (const blockerId of blockerIds) {
+    if (blockerId === taskId) throw new Error("A task cannot block itself");
+    const blocker = await db.get(blockerId);
+    if (!blocker || blocker.userId !== userId || blocker.deletedAt) {
+      throw new Error("Blocking task not found");
+    }
+  }
+  // A task that doesn't exist yet can't be depended on
+  if (!taskId) return;
+
+  // Reaching the task again while walking its blockers' blockers is a cycle
+  const visited = new Set<Id<"tasks">>();
+  const stack = [...blockerIds];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) throw new Error("Dependency cycle detected");
+    if (visited.has(id)) continue;
+    visited.add(id);
+    const task = await db.get(id);
+    stack.push(...(task?.blockedBy || []));
+  }
+}
+
+async function assertNotBlocked(
+  db: DatabaseReader,
+  blockerIds: Id<"tasks">[] | undefined
+) {
+  const openBlockers: string[] = [];
+  for (const blockerId of blockerIds || []) {
+    const blocker = await db.get(blockerId);
+    if (blocker && !blocker.completed && !blocker.deletedAt) {
+      openBlockers.push(blocker.title);
+    }
+  }
+  if (openBlockers.length > 0) {
+    throw new Error(`Task is blocked by: ${openBlockers.join(", ")}`);
+  }
+}
+
+// Move a task into a status column, keeping completion, recurrence and
+// dependencies consistent. Returns the tasks that completing it unblocked.
+async function applyStatusChange(
+  ctx: MutationCtx,
+  task: Doc<"tasks">,
+  status: string
+) {
+  const columns = await getWorkflowColumns(ctx.db, task.userId, task.projectId);
+  const column = resolveColumn(columns, status);
+  const completing = !!column.completed && !task.completed;
+  if (completing) await assertNotBlocked(ctx.db, task.blockedBy);
+
+  const now = Date.now();
+  await ctx.db.patch(task._id, {
+    status,
+    completed: !!column.completed,
+    completedAt: column.completed ? now : undefined,
+  });
+
+  if (!completing) return [];
+  await advanceRecurringTask(ctx, task, now);
+  return await findUnblockedTasks(ctx.db, task.userId, task._id);
+}
+
+// Open tasks that depended on `taskId` and have no open blockers left
+async function findUnblockedTasks(
+  db: DatabaseReader,
+  userId: Id<"users">,
+  taskId: Id<"tasks">
+) {
+  const openTasks = await db
+    .query("tasks")
+    .withIndex("by_user_completed", (q) =>
+      q.eq("userId", userId).eq("completed", false)
+    )
+    .filter((q) => q.eq(q.field("deletedAt"), undefined))
+    .collect();
+  const openIds = new Set(openTasks.map((t) => t._id));
+  return openTasks
+    .filter(
+      (t) =>
+        t.blockedBy?.includes(taskId) &&
+        !t.blockedBy.some((id) => openIds.has(id))
+    )
+    .map((t) => ({ _id: t._id, title: t.title }));
+}
 
 export const list = query({
+  args: {
+    // Only open or only completed tasks
+    completed: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const { completed } = args;
+    if (completed !== undefined) {
+      return await ctx.db
+        .query("tasks")
+        .withIndex("by_user_completed", (q) =>
+          q.eq("userId", userId).eq("completed", completed)
+        )
+        .filter((q) => q.eq(q.field("deletedAt"), undefined))
+        .collect();
+    }
+    return await ctx.db
+      .query("tasks")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+  },
+});
+
+// The user's tasks among `ids`, skipping missing and trashed ones
+export const getMany = query({
+  args: {
+    ids: v.array(v.id("tasks")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const tasks = [];
+    for (const id of args.ids) {
+      const task = await ctx.db.get(id);
+      if (task && task.userId === userId && !task.deletedAt) tasks.push(task);
+    }
+    return tasks;
+  },
+});
+
+/**
+ * Open top-level tasks in manual order, each carrying all of its subtasks,
+ * optionally only those of one project. Completed top-level tasks are paged
+ * in by listCompleted, together with any open subtasks they still have.
+ */
+export const listTree = query({
+  args: {
+    projectId: v.optional(v.id("projects")),
+  },
+  handler: async (ctx, args): Promise<TaskNode[]> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const { projectId } = args;
+    const openQuery = projectId
+      ? ctx.db
+          .query("tasks")
+          .withIndex("by_user_project", (q) =>
+            q
+              .eq("userId", userId)
+              .eq("projectId", projectId)
+              .eq("completed", false)
+          )
+      : ctx.db
+          .query("tasks")
+          .withIndex("by_user_completed", (q) =>
+            q.eq("userId", userId).eq("completed", false)
+          );
+    const openTasks = (
+      await openQuery
+        .filter((q) => q.eq(q.field("deletedAt"), undefined))
+        .collect()
+    ).filter((task) => !isSnoozed(task));
+    const tasks = [
+      ...openTasks,
+      ...(await getCompletedDescendants(ctx.db, openTasks)),
+    ].sort(compareBySortKey);
+
+    const roots = [];
+    for (const root of buildTaskTree(
+      tasks,
+      await getOpenBlockerIds(ctx.db, tasks)
+    )) {
+      // Open subtasks of a completed task are listed under it instead, and
+      // those of a snoozed task are hidden along with it
+      const parent = root.parentTaskId && (await ctx.db.get(root.parentTaskId));
+      if (!parent || (!parent.completed && !isSnoozed(parent))) {
+        roots.push(root);
+      }
+    }
+    return roots;
+  },
+});
+
+// Completed top-level tasks, most recently completed first, with subtasks
+export const listCompleted = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    projectId: v.optional(v.id("projects")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return { page: [], isDone: true, continueCursor: "" };
+
+    const { projectId } = args;
+    const completedQuery = projectId
+      ? ctx.db
+          .query("tasks")
+          .withIndex("by_user_project", (q) =>
+            q
+              .eq("userId", userId)
+              .eq("projectId", projectId)
+              .eq("completed", true)
+          )
+      : ctx.db
+          .query("tasks")
+          .withIndex("by_user_completed", (q) =>
+            q.eq("userId", userId).eq("completed", true)
+          );
+    const result = await completedQuery
+      .order("desc")
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("parentTaskId"), undefined),
+          q.eq(q.field("deletedAt"), undefined)
+        )
+      )
+      .paginate(args.paginationOpts);
+
+    const page: TaskNode[] = [];
+    for (const task of result.page) {
+      const descendants = await getDescendants(ctx.db, task._id);
+      const branch = [task, ...descendants.filter((d) => !d.deletedAt)].sort(
+        compareBySortKey
+      );
+      page.push(
+        buildTaskTree(branch, await getOpenBlockerIds(ctx.db, branch))[0]
+      );
+    }
+    return { ...result, page };
+  },
+});
+
+// Tasks matching a filter query, nested like listTree. Subtasks whose
+// parent doesn't match are shown at the top level.
+export const listFiltered = query({
+  args: {
+    clauses: v.array(taskFilterClause),
+    // Start of the client's local day, for relative due dates
+    today: v.number(),
+    projectId: v.optional(v.id("projects")),
+  },
+  handler: async (ctx, args): Promise<TaskNode[]> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const tasks = (
+      await runTaskFilter(
+        ctx.db,
+        userId,
+        args.clauses,
+        args.today,
+        args.projectId
+      )
+    ).filter((task) => !isSnoozed(task));
+    return buildTaskTree(tasks, await getOpenBlockerIds(ctx.db, tasks));
+  },
+});
+
+// Open tasks due in [from, to), earliest first, leaving out snoozed ones.
+// Without `from` this includes everything overdue. Only open tasks are read,
+// so completed history doesn't add to the cost.
+async function getOpenTasksDue(
+  db: DatabaseReader,
+  userId: Id<"users">,
+  from: number | undefined,
+  to: number
+) {
+  const tasks = await db
+    .query("tasks")
+    .withIndex("by_user_completed_due", (q) => {
+      const open = q.eq("userId", userId).eq("completed", false);
+      return from !== undefined
+        ? open.gte("dueDate", from).lt("dueDate", to)
+        : open.lt("dueDate", to);
+    })
+    .collect();
+  return tasks.filter(
+    (task) => task.dueDate !== undefined && !task.deletedAt && !isSnoozed(task)
+  );
+}
+
+export const listDue = query({
+  args: {
+    from: v.optional(v.number()),
+    to: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    return await getOpenTasksDue(ctx.db, userId, args.from, args.to);
+  },
+});
+
+// Open tasks due before the start of the client's local day
+export const countOverdue = query({
+  args: {
+    today: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return 0;
+    return (await getOpenTasksDue(ctx.db, userId, undefined, args.today))
+      .length;
+  },
+});
+
+// Open snoozed tasks, the soonest to resurface first
+export const listSnoozed = query({
   args: {},
   handler: async (ctx) => {
     const userId = await getAuthUserId(ctx);
     if (!userId) return [];
+    const tasks = await ctx.db
+      .query("tasks")
+      .withIndex("by_user_completed", (q) =>
+        q.eq("userId", userId).eq("completed", false)
+      )
+      .filter((q) =>
+        q.and(
+          q.neq(q.field("startDate"), undefined),
+          q.eq(q.field("deletedAt"), undefined)
+        )
+      )
+      .collect();
+    return tasks.sort((a, b) => a.startDate! - b.startDate!);
+  },
+});
+
+export const listSubtasks = query({
+  args: {
+    parentTaskId: v.id("tasks"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const parent = await ctx.db.get(args.parentTaskId);
+    if (!parent || parent.userId !== userId) return [];
+
     return await ctx.db
       .query("tasks")
-      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .withIndex("by_parent", (q) => q.eq("parentTaskId", args.parentTaskId))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .collect();
   },
 });
 
-export const create = mutation({
+export const create = undoableMutation("Create task", {
   args: {
     title: v.string(),
     description: v.optional(v.string()),
     dueDate: v.optional(v.number()),
     priority: v.string(),
-    status: v.string(),
+    // Defaults to the first open column of the task's workflow
+    status: v.optional(v.string()),
     tags: v.array(v.string()),
     projectId: v.optional(v.id("projects")),
     reminderDate: v.optional(v.number()),
+    parentTaskId: v.optional(v.id("tasks")),
+    recurrenceRule: v.optional(v.string()),
+    // IANA time zone the recurrence rule is evaluated in; UTC if left out
+    timeZone: v.optional(v.string()),
+    blockedBy: v.optional(v.array(v.id("tasks"))),
+    estimateMinutes: v.optional(v.number()),
+    // Hide the task until then
+    startDate: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
     if (!userId) throw new Error("Not authenticated");
+    validateRecurrenceRule(args.recurrenceRule, args.timeZone);
+    validateStartDate(args.startDate);
+    validateEstimate(args.estimateMinutes);
+    await validateBlockers(ctx.db, userId, null, args.blockedBy || []);
+
+    let projectId = args.projectId;
+    if (args.parentTaskId) {
+      const parent = await ctx.db.get(args.parentTaskId);
+      if (!parent || parent.userId !== userId || parent.deletedAt) {
+        throw new Error("Parent task not found");
+      }
+      // Subtasks belong to their parent's project unless told otherwise
+      projectId = projectId ?? parent.projectId;
+    }
+    const columns = await getWorkflowColumns(ctx.db, userId, projectId);
+    const column = args.status
+      ? resolveColumn(columns, args.status)
+      : getOpenColumn(columns);
+    if (column.completed) await assertNotBlocked(ctx.db, args.blockedBy);
 
-    return await ctx.db.insert("tasks", {
+    const taskId = await ctx.db.insert("tasks", {
       ...args,
+      projectId,
       userId,
-      completed: false,
-      completedAt: undefined,
+      status: column.status,
+      completed: !!column.completed,
+      completedAt: column.completed ? Date.now() : undefined,
+      sortKey: await nextSortKey(ctx.db, userId),
     });
+    if (args.reminderDate !== undefined) {
+      await ctx.db.patch(taskId, {
+        reminderJobId: await scheduleReminder(
+          ctx,
+          undefined,
+          args.reminderDate,
+          { taskId }
+        ),
+      });
+    }
+    return taskId;
   },
 });
 
-export const toggle = mutation({
+export const toggle = undoableMutation("Toggle task", {
   args: {
     id: v.id("tasks"),
+    // When completing a parent, also complete all of its open subtasks
+    includeSubtasks: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
     if (!userId) throw new Error("Not authenticated");
 
     const task = await ctx.db.get(args.id);
-    if (!task || task.userId !== userId) throw new Error("Task not found");
+    if (!task || task.userId !== userId || task.deletedAt) {
+      throw new Error("Task not found");
+    }
+    if (!task.completed) await assertNotBlocked(ctx.db, task.blockedBy);
 
+    // Completing moves the task to its workflow's completed column and
+    // reopening moves it back to the first open one
+    const columnFor = async (t: Doc<"tasks">, completed: boolean) => {
+      const columns = await getWorkflowColumns(ctx.db, userId, t.projectId);
+      return completed ? getCompletedColumn(columns) : getOpenColumn(columns);
+    };
+    const now = Date.now();
     await ctx.db.patch(args.id, {
+      status: (await columnFor(task, !task.completed)).status,
       completed: !task.completed,
-      completedAt: !task.completed ? Date.now() : undefined,
+      completedAt: !task.completed ? now : undefined,
     });
+
+    if (task.completed) return { unblockedTasks: [] };
+    await advanceRecurringTask(ctx, task, now);
+
+    if (args.includeSubtasks) {
+      const descendants = await getDescendants(ctx.db, args.id);
+      for (const subtask of descendants) {
+        if (subtask.completed || subtask.deletedAt) continue;
+        // Blocked subtasks stay open rather than failing the whole toggle
+        try {
+          await assertNotBlocked(ctx.db, subtask.blockedBy);
+        } catch {
+          continue;
+        }
+        await ctx.db.patch(subtask._id, {
+          completed: true,
+          completedAt: now,
+          status: (await columnFor(subtask, true)).status,
+        });
+        await advanceRecurringTask(ctx, subtask, now);
+      }
+    }
+
+    return {
+      unblockedTasks: await findUnblockedTasks(ctx.db, userId, args.id),
+    };
   },
 });
 
-export const updateStatus = mutation({
+export const updateStatus = undoableMutation("Move task", {
   args: {
     id: v.id("tasks"),
     status: v.string(),
@@ -66,12 +723,554 @@ export const updateStatus = mutation({
     if (!userId) throw new Error("Not authenticated");
 
     const task = await ctx.db.get(args.id);
-    if (!task || task.userId !== userId) throw new Error("Task not found");
+    if (!task || task.userId !== userId || task.deletedAt) {
+      throw new Error("Task not found");
+    }
+
+    return {
+      unblockedTasks: await applyStatusChange(ctx, task, args.status),
+    };
+  },
+});
+
+export const reorder = undoableMutation("Move task", {
+  args: {
+    id: v.id("tasks"),
+    // Neighbours at the drop position; omit one to drop at a column's end
+    prevId: v.optional(v.id("tasks")),
+    nextId: v.optional(v.id("tasks")),
+    // Target column, when the task moves between columns
+    status: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const task = await ctx.db.get(args.id);
+    if (!task || task.userId !== userId || task.deletedAt) {
+      throw new Error("Task not found");
+    }
+
+    const getNeighbour = async (id: Id<"tasks"> | undefined) => {
+      if (!id) return null;
+      const neighbour = await ctx.db.get(id);
+      if (!neighbour || neighbour.userId !== userId || neighbour.deletedAt) {
+        throw new Error("Task not found");
+      }
+      return neighbour;
+    };
+    let prev = await getNeighbour(args.prevId);
+    let next = await getNeighbour(args.nextId);
+    if (
+      (prev && prev.sortKey === undefined) ||
+      (next && next.sortKey === undefined)
+    ) {
+      await backfillSortKeys(ctx, userId);
+      prev = await getNeighbour(args.prevId);
+      next = await getNeighbour(args.nextId);
+    }
+
+    let unblockedTasks: { _id: Id<"tasks">; title: string }[] = [];
+    const columns = await getWorkflowColumns(ctx.db, userId, task.projectId);
+    const currentStatus = placeTask(columns, task).status;
+    if (args.status !== undefined && args.status !== currentStatus) {
+      unblockedTasks = await applyStatusChange(ctx, task, args.status);
+    }
+
+    // Neighbours can be out of order if the list changed mid-drag
+    const sortKey =
+      prev?.sortKey !== undefined &&
+      next?.sortKey !== undefined &&
+      prev.sortKey >= next.sortKey
+        ? keyBetween(prev.sortKey)
+        : keyBetween(prev?.sortKey, next?.sortKey);
+    await ctx.db.patch(args.id, { sortKey });
+
+    return { unblockedTasks };
+  },
+});
+
+export const update = undoableMutation("Edit task", {
+  args: {
+    id: v.id("tasks"),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    // null clears the field
+    dueDate: v.optional(v.union(v.number(), v.null())),
+    priority: v.optional(v.string()),
+    status: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
+    projectId: v.optional(v.union(v.id("projects"), v.null())),
+    reminderDate: v.optional(v.union(v.number(), v.null())),
+    recurrenceRule: v.optional(v.union(v.string(), v.null())),
+    timeZone: v.optional(v.string()),
+    blockedBy: v.optional(v.array(v.id("tasks"))),
+    estimateMinutes: v.optional(v.union(v.number(), v.null())),
+    startDate: v.optional(v.union(v.number(), v.null())),
+    milestoneId: v.optional(v.union(v.id("milestones"), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const task = await ctx.db.get(args.id);
+    if (!task || task.userId !== userId || task.deletedAt) {
+      throw new Error("Task not found");
+    }
 
+    const {
+      id,
+      dueDate,
+      startDate,
+      projectId,
+      reminderDate,
+      recurrenceRule,
+      status,
+      estimateMinutes,
+      milestoneId,
+      ...fields
+    } = args;
+    if (fields.title !== undefined && !fields.title.trim()) {
+      throw new Error("Title is required");
+    }
+    validateRecurrenceRule(recurrenceRule, fields.timeZone);
+    if (fields.blockedBy !== undefined) {
+      await validateBlockers(ctx.db, userId, id, fields.blockedBy);
+    }
+    // Statuses come from the workflow of the project the task ends up in
+    const columns = await getWorkflowColumns(
+      ctx.db,
+      userId,
+      projectId !== undefined ? (projectId ?? undefined) : task.projectId
+    );
+    const column =
+      status !== undefined
+        ? resolveColumn(columns, status)
+        : placeTask(columns, task);
+    const completing = !!column.completed && !task.completed;
+    if (completing) {
+      await assertNotBlocked(ctx.db, fields.blockedBy ?? task.blockedBy);
+    }
+
+    const patch: Partial<Doc<"tasks">> = { ...fields };
+    if (dueDate !== undefined) patch.dueDate = dueDate ?? undefined;
+    if (startDate !== undefined && startDate !== task.startDate) {
+      validateStartDate(startDate);
+      patch.startDate = startDate ?? undefined;
+      // A notification only goes with the snooze it was asked for
+      patch.notifyOnStart = undefined;
+    }
+    if (reminderDate !== undefined) {
+      patch.reminderDate = reminderDate ?? undefined;
+      patch.reminderJobId = await scheduleReminder(
+        ctx,
+        task.reminderJobId,
+        patch.reminderDate,
+        { taskId: id }
+      );
+    }
+    if (recurrenceRule !== undefined) {
+      patch.recurrenceRule = recurrenceRule || undefined;
+    }
+    if (estimateMinutes !== undefined) {
+      validateEstimate(estimateMinutes);
+      patch.estimateMinutes = estimateMinutes ?? undefined;
+    }
+    if (projectId !== undefined) {
+      if (projectId !== null) {
+        const project = await ctx.db.get(projectId);
+        if (!project || project.userId !== userId || project.deletedAt) {
+          throw new Error("Project not found");
+        }
+      }
+      patch.projectId = projectId ?? undefined;
+    }
+    const nextProjectId =
+      projectId !== undefined ? (projectId ?? undefined) : task.projectId;
+    if (milestoneId) {
+      await validateMilestone(ctx.db, userId, milestoneId, nextProjectId);
+      patch.milestoneId = milestoneId;
+    } else if (milestoneId === null || nextProjectId !== task.projectId) {
+      // Milestones don't follow their tasks into other projects
+      patch.milestoneId = undefined;
+    }
+    if (
+      column.status !== task.status ||
+      !!column.completed !== task.completed
+    ) {
+      patch.status = column.status;
+      patch.completed = !!column.completed;
+      patch.completedAt = column.completed
+        ? (task.completedAt ?? Date.now())
+        : undefined;
+    }
+
+    await ctx.db.patch(id, patch);
+
+    if (!completing) return { unblockedTasks: [] };
+    const updated = await ctx.db.get(id);
+    if (updated) await advanceRecurringTask(ctx, updated, Date.now());
+    return { unblockedTasks: await findUnblockedTasks(ctx.db, userId, id) };
+  },
+});
+
+// Hide a task until `until`, optionally notifying the user when it's back
+export const snooze = undoableMutation("Snooze task", {
+  args: {
+    id: v.id("tasks"),
+    until: v.number(),
+    notify: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const task = await ctx.db.get(args.id);
+    if (!task || task.userId !== userId || task.deletedAt) {
+      throw new Error("Task not found");
+    }
+    if (task.completed) throw new Error("Completed tasks can't be snoozed");
+    validateStartDate(args.until);
     await ctx.db.patch(args.id, {
-      status: args.status,
-      completed: args.status === "done",
-      completedAt: args.status === "done" ? Date.now() : undefined,
+      startDate: args.until,
+      notifyOnStart: args.notify || undefined,
     });
   },
 });
+
+// Run every minute by a cron: brings back snoozed tasks whose start date has
+// passed, notifying the user where they asked for it. Trashed tasks stay
+// snoozed until restored.
+export const resurfaceSnoozed = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const due = await ctx.db
+      .query("tasks")
+      .withIndex("by_start", (q) => q.gte("startDate", 0).lte("startDate", now))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .take(RESURFACE_BATCH_SIZE);
+    for (const task of due) {
+      await ctx.db.patch(task._id, {
+        startDate: undefined,
+        notifyOnStart: undefined,
+      });
+      if (!task.notifyOnStart || task.completed) continue;
+      await ctx.db.insert("notifications", {
+        userId: task.userId,
+        title: task.title,
+        body: task.description || undefined,
+        kind: "task_resurfaced",
+        dueAt: task.dueDate,
+        taskId: task._id,
+        createdAt: now,
+      });
+    }
+  },
+});
+
+// Move a task and its subtasks to the trash, cancelling their reminders and
+// stopping the timer if it runs on one of them. Returns the ids of the tasks
+// trashed.
+export async function trashTask(ctx: MutationCtx, task: Doc<"tasks">) {
+  const deletedAt = Date.now();
+  const trashedIds = new Set<Id<"tasks">>();
+  for (const trashed of [task, ...(await getDescendants(ctx.db, task._id))]) {
+    // Subtasks trashed earlier keep their own deletion time
+    if (trashed.deletedAt) continue;
+    trashedIds.add(trashed._id);
+    if (trashed.reminderJobId) {
+      await ctx.scheduler.cancel(trashed.reminderJobId);
+    }
+    await ctx.db.patch(trashed._id, { deletedAt, reminderJobId: undefined });
+  }
+  const running = await getRunningEntry(ctx.db, task.userId);
+  if (running && trashedIds.has(running.taskId)) {
+    await ctx.db.patch(running._id, { end: deletedAt });
+  }
+  return trashedIds;
+}
+
+// Take a task out of the trash with the subtasks trashed along with it. A
+// subtask whose parent is still in the trash comes back at the top level.
+export async function restoreTask(ctx: MutationCtx, task: Doc<"tasks">) {
+  const parent = task.parentTaskId ? await ctx.db.get(task.parentTaskId) : null;
+  if (task.parentTaskId && (!parent || parent.deletedAt)) {
+    await ctx.db.patch(task._id, { parentTaskId: undefined });
+  }
+  const descendants = await getDescendants(ctx.db, task._id);
+  for (const restored of [
+    task,
+    ...descendants.filter((d) => d.deletedAt === task.deletedAt),
+  ]) {
+    await ctx.db.patch(restored._id, {
+      deletedAt: undefined,
+      reminderJobId: await scheduleReminder(
+        ctx,
+        undefined,
+        restored.completed ? undefined : restored.reminderDate,
+        { taskId: restored._id }
+      ),
+    });
+  }
+}
+
+// Permanently delete tasks and their subtasks along with their time entries
+// and focus sessions, and drop dependencies on them
+export async function purgeTasks(ctx: MutationCtx, tasks: Doc<"tasks">[]) {
+  const removedIds = new Set<Id<"tasks">>();
+  for (const task of tasks) {
+    // Subtasks make no sense without their parent, so remove the whole branch
+    for (const removed of [task, ...(await getDescendants(ctx.db, task._id))]) {
+      if (removedIds.has(removed._id)) continue;
+      removedIds.add(removed._id);
+      if (removed.reminderJobId) {
+        await ctx.scheduler.cancel(removed.reminderJobId);
+      }
+      const timeEntries = await ctx.db
+        .query("timeEntries")
+        .withIndex("by_task", (q) => q.eq("taskId", removed._id))
+        .collect();
+      for (const entry of timeEntries) await ctx.db.delete(entry._id);
+      const focusSessions = await ctx.db
+        .query("focusSessions")
+        .withIndex("by_task", (q) => q.eq("taskId", removed._id))
+        .collect();
+      for (const session of focusSessions) await ctx.db.delete(session._id);
+      await purgeComments(ctx, { taskId: removed._id });
+      await purgeAttachments(ctx, { taskId: removed._id });
+      await ctx.db.delete(removed._id);
+    }
+  }
+
+  for (const userId of new Set(tasks.map((task) => task.userId))) {
+    const dependents = await ctx.db
+      .query("tasks")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    for (const dependent of dependents) {
+      if (!dependent.blockedBy?.some((id) => removedIds.has(id))) continue;
+      await ctx.db.patch(dependent._id, {
+        blockedBy: dependent.blockedBy.filter((id) => !removedIds.has(id)),
+      });
+    }
+  }
+}
+
+// Moves the task to the trash; see convex/trash.ts for restoring it
+export const remove = undoableMutation("Delete task", {
+  args: {
+    id: v.id("tasks"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const task = await ctx.db.get(args.id);
+    if (!task || task.userId !== userId || task.deletedAt) {
+      throw new Error("Task not found");
+    }
+    await trashTask(ctx, task);
+  },
+});
+
+const MAX_BULK_TASKS = 200;
+
+type BulkFailure = { id: Id<"tasks">; title?: string; error: string };
+
+function validateBulkIds(ids: Id<"tasks">[]) {
+  if (ids.length === 0) throw new Error("No tasks selected");
+  if (ids.length > MAX_BULK_TASKS) {
+    throw new Error(`Select at most ${MAX_BULK_TASKS} tasks at a time`);
+  }
+}
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : "Unknown error";
+
+/**
+ * Apply the same changes to many tasks. Each task is checked and written on
+ * its own, so one that can't be changed (not found, blocked, a status its
+ * workflow doesn't have) is reported in `failed` without stopping the rest.
+ */
+export const bulkUpdate = undoableMutation("Update tasks", {
+  args: {
+    ids: v.array(v.id("tasks")),
+    status: v.optional(v.string()),
+    priority: v.optional(v.string()),
+    addTags: v.optional(v.array(v.string())),
+    removeTags: v.optional(v.array(v.string())),
+    // null clears the field
+    projectId: v.optional(v.union(v.id("projects"), v.null())),
+    dueDate: v.optional(v.union(v.number(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+    validateBulkIds(args.ids);
+
+    const { status, priority, projectId, dueDate } = args;
+    if (projectId) {
+      const project = await ctx.db.get(projectId);
+      if (!project || project.userId !== userId || project.deletedAt) {
+        throw new Error("Project not found");
+      }
+    }
+    const addTags = (args.addTags || []).map((t) => t.trim()).filter(Boolean);
+    const removeTags = new Set(args.removeTags || []);
+
+    const succeeded: Id<"tasks">[] = [];
+    const failed: BulkFailure[] = [];
+    const unblocked = new Map<
+      Id<"tasks">,
+      { _id: Id<"tasks">; title: string }
+    >();
+
+    for (const id of new Set(args.ids)) {
+      const task = await ctx.db.get(id);
+      try {
+        if (!task || task.userId !== userId || task.deletedAt) {
+          throw new Error("Task not found");
+        }
+
+        // Statuses come from the workflow of the project the task ends up in
+        const columns = await getWorkflowColumns(
+          ctx.db,
+          userId,
+          projectId !== undefined ? (projectId ?? undefined) : task.projectId
+        );
+        const column =
+          status !== undefined
+            ? resolveColumn(columns, status)
+            : placeTask(columns, task);
+        const completing = !!column.completed && !task.completed;
+        if (completing) await assertNotBlocked(ctx.db, task.blockedBy);
+
+        const patch: Partial<Doc<"tasks">> = {};
+        if (priority !== undefined) patch.priority = priority;
+        if (dueDate !== undefined) patch.dueDate = dueDate ?? undefined;
+        if (projectId !== undefined && projectId !== task.projectId) {
+          patch.projectId = projectId ?? undefined;
+          patch.milestoneId = undefined;
+        }
+        if (addTags.length > 0 || removeTags.size > 0) {
+          const tags = (task.tags || []).filter((tag) => !removeTags.has(tag));
+          for (const tag of addTags) if (!tags.includes(tag)) tags.push(tag);
+          patch.tags = tags;
+        }
+        if (
+          column.status !== task.status ||
+          !!column.completed !== task.completed
+        ) {
+          patch.status = column.status;
+          patch.completed = !!column.completed;
+          patch.completedAt = column.completed
+            ? (task.completedAt ?? Date.now())
+            : undefined;
+        }
+        await ctx.db.patch(id, patch);
+
+        if (completing) {
+          const updated = await ctx.db.get(id);
+          if (updated) await advanceRecurringTask(ctx, updated, Date.now());
+          for (const t of await findUnblockedTasks(ctx.db, userId, id)) {
+            unblocked.set(t._id, t);
+          }
+        }
+        succeeded.push(id);
+      } catch (err) {
+        failed.push({ id, title: task?.title, error: errorMessage(err) });
+      }
+    }
+
+    return {
+      succeeded,
+      failed,
+      // Tasks changed in this batch are already in view
+      unblockedTasks: [...unblocked.values()].filter(
+        (t) => !succeeded.includes(t._id)
+      ),
+    };
+  },
+});
+
+// Move many tasks to the trash, each with its subtasks, reporting the ones
+// that failed
+export const bulkRemove = undoableMutation("Delete tasks", {
+  args: {
+    ids: v.array(v.id("tasks")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+    validateBulkIds(args.ids);
+
+    const succeeded: Id<"tasks">[] = [];
+    const failed: BulkFailure[] = [];
+    const trashedIds = new Set<Id<"tasks">>();
+
+    for (const id of new Set(args.ids)) {
+      // Already trashed with a selected parent
+      if (trashedIds.has(id)) {
+        succeeded.push(id);
+        continue;
+      }
+      const task = await ctx.db.get(id);
+      try {
+        if (!task || task.userId !== userId || task.deletedAt) {
+          throw new Error("Task not found");
+        }
+        for (const trashed of await trashTask(ctx, task)) {
+          trashedIds.add(trashed);
+        }
+        succeeded.push(id);
+      } catch (err) {
+        failed.push({ id, title: task?.title, error: errorMessage(err) });
+      }
+    }
+
+    return { succeeded, failed };
+  },
+});
+
+// Completion history of the recurring series a task belongs to
+export const getSeriesHistory = query({
+  args: {
+    taskId: v.id("tasks"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const task = await ctx.db.get(args.taskId);
+    if (!task || task.userId !== userId) return null;
+
+    const completions = await ctx.db
+      .query("taskCompletions")
+      .withIndex("by_series", (q) =>
+        q.eq("seriesId", task.seriesId ?? task._id)
+      )
+      .collect();
+
+    // An instance counts towards a streak when it was completed within a
+    // day of its due date
+    const onTime = completions.map(
+      (c) => c.dueDate === undefined || c.completedAt <= c.dueDate + DAY_MS
+    );
+    let currentStreak = 0;
+    for (let i = onTime.length - 1; i >= 0 && onTime[i]; i--) currentStreak++;
+    let longestStreak = 0;
+    let run = 0;
+    for (const hit of onTime) {
+      run = hit ? run + 1 : 0;
+      longestStreak = Math.max(longestStreak, run);
+    }
+
+    return {
+      completions,
+      totalCompleted: completions.length,
+      currentStreak,
+      longestStreak,
+    };
+  },
+});
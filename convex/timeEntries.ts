@@ -0,0 +1,186 @@
+import { mutation, query, DatabaseReader } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+export async function getRunningEntry(db: DatabaseReader, userId: Id<"users">) {
+  return await db
+    .query("timeEntries")
+    .withIndex("by_user_end", (q) =>
+      q.eq("userId", userId).eq("end", undefined)
+    )
+    .first();
+}
+
+// The user's running timer with its task, or null
+export const getRunning = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const entry = await getRunningEntry(ctx.db, userId);
+    if (!entry) return null;
+    const task = await ctx.db.get(entry.taskId);
+    return { ...entry, taskTitle: task?.title ?? "Deleted task" };
+  },
+});
+
+// Finished time per task; the client adds the running entry's elapsed time
+export const taskTotals = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const entries = await ctx.db
+      .query("timeEntries")
+      .withIndex("by_user_start", (q) => q.eq("userId", userId))
+      .collect();
+    const totals = new Map<Id<"tasks">, number>();
+    for (const entry of entries) {
+      if (entry.end === undefined) continue;
+      totals.set(
+        entry.taskId,
+        (totals.get(entry.taskId) ?? 0) + entry.end - entry.start
+      );
+    }
+    return [...totals].map(([taskId, totalMs]) => ({ taskId, totalMs }));
+  },
+});
+
+/**
+ * Entries overlapping [from, to) for the time report, plus estimated vs
+ * tracked time for the tasks among them that have an estimate. Entries are
+ * looked up by when they end, so ones started before `from` are included.
+ */
+export const report = query({
+  args: {
+    from: v.number(),
+    to: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const endedInRange = await ctx.db
+      .query("timeEntries")
+      .withIndex("by_user_end", (q) =>
+        q.eq("userId", userId).gt("end", args.from).lte("end", args.to)
+      )
+      .collect();
+    // Timers never overlap, so only the first entry ending after the range
+    // can have started inside it
+    const endedAfter = await ctx.db
+      .query("timeEntries")
+      .withIndex("by_user_end", (q) =>
+        q.eq("userId", userId).gt("end", args.to)
+      )
+      .first();
+    const running = await getRunningEntry(ctx.db, userId);
+    const inRange = [...endedInRange];
+    for (const entry of [endedAfter, running]) {
+      if (entry && entry.start < args.to) inRange.push(entry);
+    }
+    inRange.sort((a, b) => a.start - b.start);
+
+    const tasks = new Map<Id<"tasks">, Doc<"tasks"> | null>();
+    for (const entry of inRange) {
+      if (tasks.has(entry.taskId)) continue;
+      tasks.set(entry.taskId, await ctx.db.get(entry.taskId));
+    }
+
+    const estimates = [];
+    for (const task of tasks.values()) {
+      if (!task || task.estimateMinutes === undefined || task.deletedAt) {
+        continue;
+      }
+      const taskEntries = await ctx.db
+        .query("timeEntries")
+        .withIndex("by_task", (q) => q.eq("taskId", task._id))
+        .collect();
+      estimates.push({
+        taskId: task._id,
+        title: task.title,
+        completed: task.completed,
+        estimateMinutes: task.estimateMinutes,
+        trackedMs: taskEntries.reduce(
+          (total, entry) =>
+            entry.end === undefined ? total : total + entry.end - entry.start,
+          0
+        ),
+      });
+    }
+
+    return {
+      entries: inRange.map((entry) => ({
+        ...entry,
+        taskTitle: tasks.get(entry.taskId)?.title ?? "Deleted task",
+      })),
+      estimates,
+    };
+  },
+});
+
+export const start = mutation({
+  args: {
+    taskId: v.id("tasks"),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const task = await ctx.db.get(args.taskId);
+    if (!task || task.userId !== userId || task.deletedAt) {
+      throw new Error("Task not found");
+    }
+
+    // Only one timer runs at a time, so starting one stops the other
+    const now = Date.now();
+    const running = await getRunningEntry(ctx.db, userId);
+    if (running) await ctx.db.patch(running._id, { end: now });
+
+    return await ctx.db.insert("timeEntries", {
+      userId,
+      taskId: task._id,
+      projectId: task.projectId,
+      start: now,
+      note: args.note,
+    });
+  },
+});
+
+export const stop = mutation({
+  args: {
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const running = await getRunningEntry(ctx.db, userId);
+    if (!running) throw new Error("No timer is running");
+
+    await ctx.db.patch(running._id, {
+      end: Date.now(),
+      note: args.note ?? running.note,
+    });
+  },
+});
+
+export const remove = mutation({
+  args: {
+    id: v.id("timeEntries"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const entry = await ctx.db.get(args.id);
+    if (!entry || entry.userId !== userId) {
+      throw new Error("Time entry not found");
+    }
+    await ctx.db.delete(args.id);
+  },
+});
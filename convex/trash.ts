@@ -0,0 +1,249 @@
+import {
+  internalMutation,
+  mutation,
+  query,
+  DatabaseReader,
+  MutationCtx,
+} from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { scheduleReminder } from "./notifications";
+import { purgeTasks, restoreTask } from "./tasks";
+import { undoableMutation } from "./undo";
+import { purgeComments } from "./comments";
+import { purgeAttachments } from "./attachments";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Items are purged for good this long after being trashed
+const RETENTION_MS = 30 * DAY_MS;
+const PURGE_BATCH_SIZE = 100;
+
+const TRASH_TABLES = [
+  "tasks",
+  "projects",
+  "notes",
+  "bookmarks",
+  "events",
+] as const;
+
+type TrashTable = (typeof TRASH_TABLES)[number];
+type TrashedItem = { [T in TrashTable]: { table: T; doc: Doc<T> } }[TrashTable];
+
+const trashItemId = v.union(
+  v.id("tasks"),
+  v.id("projects"),
+  v.id("notes"),
+  v.id("bookmarks"),
+  v.id("events")
+);
+
+async function getTrashedItem(
+  db: DatabaseReader,
+  userId: Id<"users">,
+  id: string
+): Promise<TrashedItem> {
+  for (const table of TRASH_TABLES) {
+    const itemId = db.normalizeId(table, id);
+    const doc = itemId && (await db.get(itemId));
+    if (doc && doc.userId === userId && doc.deletedAt) {
+      return { table, doc } as TrashedItem;
+    }
+  }
+  throw new Error("Item not found in trash");
+}
+
+// Everything the user has trashed, whatever the table
+async function getTrash(db: DatabaseReader, userId: Id<"users">) {
+  const items: TrashedItem[] = [];
+  for (const table of TRASH_TABLES) {
+    const docs = await db
+      .query(table)
+      .withIndex("by_user_deleted", (q) =>
+        q.eq("userId", userId).gt("deletedAt", 0)
+      )
+      .collect();
+    items.push(...docs.map((doc) => ({ table, doc }) as TrashedItem));
+  }
+  return items;
+}
+
+async function restoreItem(ctx: MutationCtx, item: TrashedItem) {
+  switch (item.table) {
+    case "tasks":
+      await restoreTask(ctx, item.doc);
+      break;
+    case "events":
+      await ctx.db.patch(item.doc._id, {
+        deletedAt: undefined,
+        reminderJobId: await scheduleReminder(
+          ctx,
+          undefined,
+          item.doc.reminderTime,
+          { eventId: item.doc._id }
+        ),
+      });
+      break;
+    default:
+      await ctx.db.patch(item.doc._id, { deletedAt: undefined });
+  }
+}
+
+// Detach everything filed under a project before it's deleted for good
+async function purgeProject(ctx: MutationCtx, project: Doc<"projects">) {
+  const { userId, _id: projectId } = project;
+  const tasks = await ctx.db
+    .query("tasks")
+    .withIndex("by_user_project", (q) =>
+      q.eq("userId", userId).eq("projectId", projectId)
+    )
+    .collect();
+  for (const task of tasks) {
+    await ctx.db.patch(task._id, {
+      projectId: undefined,
+      milestoneId: undefined,
+    });
+  }
+  const milestones = await ctx.db
+    .query("milestones")
+    .withIndex("by_project", (q) => q.eq("projectId", projectId))
+    .collect();
+  for (const milestone of milestones) await ctx.db.delete(milestone._id);
+  for (const table of ["notes", "bookmarks", "taskTemplates"] as const) {
+    const docs = await ctx.db
+      .query(table)
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .filter((q) => q.eq(q.field("projectId"), projectId))
+      .collect();
+    for (const doc of docs) {
+      await ctx.db.patch(doc._id, { projectId: undefined });
+    }
+  }
+  const timeEntries = await ctx.db
+    .query("timeEntries")
+    .withIndex("by_user_start", (q) => q.eq("userId", userId))
+    .filter((q) => q.eq(q.field("projectId"), projectId))
+    .collect();
+  for (const entry of timeEntries) {
+    await ctx.db.patch(entry._id, { projectId: undefined });
+  }
+  await purgeComments(ctx, { projectId });
+  await purgeAttachments(ctx, { projectId });
+  const workflow = await ctx.db
+    .query("workflows")
+    .withIndex("by_user_project", (q) =>
+      q.eq("userId", userId).eq("projectId", projectId)
+    )
+    .unique();
+  if (workflow) await ctx.db.delete(workflow._id);
+  await ctx.db.delete(projectId);
+}
+
+async function purgeItems(ctx: MutationCtx, items: TrashedItem[]) {
+  const tasks: Doc<"tasks">[] = [];
+  for (const item of items) {
+    switch (item.table) {
+      case "tasks":
+        tasks.push(item.doc);
+        break;
+      case "projects":
+        await purgeProject(ctx, item.doc);
+        break;
+      default:
+        await ctx.db.delete(item.doc._id);
+    }
+  }
+  await purgeTasks(ctx, tasks);
+}
+
+/**
+ * The user's trash, most recently deleted first. Subtasks trashed together
+ * with their parent are left out, since they come back with it.
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const items = [];
+    for (const { table, doc } of await getTrash(ctx.db, userId)) {
+      if (table === "tasks" && doc.parentTaskId) {
+        const parent = await ctx.db.get(doc.parentTaskId);
+        if (parent?.deletedAt === doc.deletedAt) continue;
+      }
+      const deletedAt = doc.deletedAt!;
+      items.push({
+        _id: doc._id,
+        table,
+        title: doc.title,
+        deletedAt,
+        purgeAt: deletedAt + RETENTION_MS,
+      });
+    }
+    return items.sort((a, b) => b.deletedAt - a.deletedAt);
+  },
+});
+
+export const restore = undoableMutation("Restore from trash", {
+  args: {
+    id: trashItemId,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    await restoreItem(ctx, await getTrashedItem(ctx.db, userId, args.id));
+  },
+});
+
+// Delete a trashed item for good, along with whatever belongs to it. Not
+// undoable: comments, attachments and their files go with it.
+export const remove = mutation({
+  args: {
+    id: trashItemId,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    await purgeItems(ctx, [await getTrashedItem(ctx.db, userId, args.id)]);
+  },
+});
+
+export const empty = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    await purgeItems(ctx, await getTrash(ctx.db, userId));
+  },
+});
+
+// Run daily by convex/crons.ts. Works in batches, rescheduling itself until
+// nothing past the retention period is left.
+export const purgeExpired = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - RETENTION_MS;
+    let hasMore = false;
+    for (const table of TRASH_TABLES) {
+      const docs = await ctx.db
+        .query(table)
+        .withIndex("by_deleted", (q) =>
+          q.gt("deletedAt", 0).lt("deletedAt", cutoff)
+        )
+        .take(PURGE_BATCH_SIZE);
+      await purgeItems(
+        ctx,
+        docs.map((doc) => ({ table, doc }) as TrashedItem)
+      );
+      hasMore ||= docs.length === PURGE_BATCH_SIZE;
+    }
+    if (hasMore) {
+      await ctx.scheduler.runAfter(0, internal.trash.purgeExpired, {});
+    }
+  },
+});
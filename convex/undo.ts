@@ -0,0 +1,404 @@
+import {
+  mutation,
+  DatabaseReader,
+  DatabaseWriter,
+  MutationCtx,
+} from "./_generated/server";
+import { GenericId, ObjectType, PropertyValidators, v } from "convex/values";
+import { RegisteredMutation } from "convex/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { scheduleReminder } from "./notifications";
+import {
+  ActivitySource,
+  clientActivitySource,
+  recordActivity,
+} from "./activity";
+import { syncProjectProgress } from "./projectProgress";
+
+// How long after a change it can still be undone or redone
+const UNDO_WINDOW_MS = 10 * 60 * 1000;
+// Entries are single documents, which Convex caps at 1 MB and 8192 array
+// elements; changes bigger than this aren't recorded
+const MAX_ENTRY_CHANGES = 1000;
+const MAX_ENTRY_BYTES = 512 * 1024;
+
+// Tables whose writes are recorded; anything else a mutation touches, like
+// notifications or saved views, isn't rolled back
+const TRACKED_TABLES = [
+  "tasks",
+  "taskCompletions",
+  "timeEntries",
+  "focusSessions",
+  "projects",
+  "milestones",
+  "workflows",
+  "notes",
+  "bookmarks",
+  "events",
+] as const;
+
+type TrackedTable = (typeof TRACKED_TABLES)[number];
+type Snapshot = Record<string, unknown>;
+type Change = Doc<"undoEntries">["changes"][number];
+
+const trackedTable = (db: DatabaseReader, id: string) =>
+  TRACKED_TABLES.find((table) => db.normalizeId(table, id) !== null);
+
+// A document without its system fields, as stored in an undo entry
+function toSnapshot(doc: Snapshot | null): Snapshot | undefined {
+  if (!doc) return undefined;
+  const { _id, _creationTime, ...fields } = doc;
+  return fields;
+}
+
+// Serialize a snapshot for comparison, with keys in a fixed order and
+// without the reminder job id, which restoring a document reschedules
+function snapshotKey(snapshot: Snapshot | undefined) {
+  if (!snapshot) return "";
+  const { reminderJobId: _reminderJobId, ...fields } = snapshot;
+  return JSON.stringify(fields, (_key, value: unknown) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => (a < b ? -1 : 1))
+        )
+      : value
+  );
+}
+
+// Rewrite ids of re-inserted documents wherever they appear in a value
+function remapIds(value: unknown, idMap: Map<string, string>): unknown {
+  if (typeof value === "string") return idMap.get(value) ?? value;
+  if (Array.isArray(value)) return value.map((item) => remapIds(item, idMap));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, remapIds(item, idMap)])
+    );
+  }
+  return value;
+}
+
+const sourceArg = { source: v.optional(clientActivitySource) };
+
+export type UndoableResult<Result> = {
+  result: Result;
+  undoEntryId: Id<"undoEntries"> | null;
+};
+
+/**
+ * A public mutation whose writes to tracked tables are recorded, before and
+ * after, as one undo entry labelled `label`, and logged to the activity
+ * feed. The handler runs against a database that records on first write, so
+ * helpers it calls are covered without changes. Projects whose tasks changed
+ * get their progress brought up to date as part of the same entry. Callers
+ * can pass an extra `source` argument, "ui" or "quickCapture", to say where
+ * the change came from.
+ * Returns the handler's result with the id of the recorded entry, which is
+ * null if nothing was recorded, for undoing this change in particular.
+ */
+export function undoableMutation<Args extends PropertyValidators, Result>(
+  label: string,
+  {
+    args,
+    handler,
+  }: {
+    args: Args;
+    handler: (ctx: MutationCtx, args: ObjectType<Args>) => Promise<Result>;
+  }
+): RegisteredMutation<
+  "public",
+  ObjectType<Args & typeof sourceArg>,
+  Promise<UndoableResult<Result>>
+> {
+  return mutation({
+    args: { ...args, ...sourceArg },
+    handler: async (
+      ctx: MutationCtx,
+      argsWithSource: ObjectType<Args & typeof sourceArg>
+    ) => {
+      const { source, ...rest } = argsWithSource as ObjectType<Args> & {
+        source?: ActivitySource;
+      };
+      const args = rest as ObjectType<Args>;
+      const userId = await getAuthUserId(ctx);
+      if (!userId) {
+        return { result: await handler(ctx, args), undoEntryId: null };
+      }
+
+      const before = new Map<string, { table: TrackedTable; doc?: Snapshot }>();
+      const track = async (id: string, inserted = false) => {
+        if (before.has(id)) return;
+        const table = trackedTable(ctx.db, id);
+        if (!table) return;
+        const doc = inserted ? null : await ctx.db.get(id as Id<TrackedTable>);
+        before.set(id, { table, doc: toSnapshot(doc) });
+      };
+
+      const db: DatabaseWriter = {
+        get: (id) => ctx.db.get(id),
+        query: (table) => ctx.db.query(table),
+        normalizeId: (table, id) => ctx.db.normalizeId(table, id),
+        system: ctx.db.system,
+        insert: async (table, value) => {
+          const id = await ctx.db.insert(table, value);
+          await track(id, true);
+          return id;
+        },
+        patch: async (id, value) => {
+          await track(id);
+          await ctx.db.patch(id, value);
+        },
+        replace: async (id, value) => {
+          await track(id);
+          await ctx.db.replace(id, value);
+        },
+        delete: async (id) => {
+          await track(id);
+          await ctx.db.delete(id);
+        },
+      };
+      const result = await handler({ ...ctx, db }, args);
+      const projectIds: (Id<"projects"> | undefined)[] = [];
+      for (const [id, { table, doc }] of [...before]) {
+        if (table !== "tasks") continue;
+        const task = await ctx.db.get(id as Id<"tasks">);
+        projectIds.push(
+          doc?.projectId as Id<"projects"> | undefined,
+          task?.projectId
+        );
+      }
+      await syncProjectProgress({ ...ctx, db }, projectIds);
+
+      const changes: Change[] = [];
+      for (const [id, { table, doc }] of before) {
+        const after = toSnapshot(await ctx.db.get(id as Id<TrackedTable>));
+        if (JSON.stringify(doc) === JSON.stringify(after)) continue;
+        changes.push({ table, id, before: doc, after });
+        await recordActivity(ctx, {
+          userId,
+          actorId: userId,
+          source: source ?? "ui",
+          table,
+          entityId: id,
+          before: doc,
+          after,
+        });
+      }
+      const undoEntryId =
+        changes.length > 0
+          ? await recordEntry(ctx, userId, label, changes)
+          : null;
+      return { result, undoEntryId };
+    },
+  });
+}
+
+async function recordEntry(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  label: string,
+  changes: Change[]
+) {
+  // A new change replaces whatever could have been redone, and expired
+  // entries are cleaned up as we go. A change too big to record clears the
+  // whole history, so undo can't skip over it to an older change.
+  const now = Date.now();
+  const tooBig =
+    changes.length > MAX_ENTRY_CHANGES ||
+    JSON.stringify(changes).length > MAX_ENTRY_BYTES;
+  const entries = await ctx.db
+    .query("undoEntries")
+    .withIndex("by_user_created", (q) => q.eq("userId", userId))
+    .collect();
+  for (const entry of entries) {
+    if (tooBig || entry.undone || entry.createdAt <= now - UNDO_WINDOW_MS) {
+      await ctx.db.delete(entry._id);
+    }
+  }
+  if (tooBig) return null;
+  return await ctx.db.insert("undoEntries", {
+    userId,
+    label,
+    changes,
+    undone: false,
+    createdAt: now,
+  });
+}
+
+// Reschedule the reminder of a restored task or event, cancelling its
+// current one
+async function restoreReminder(
+  ctx: MutationCtx,
+  table: TrackedTable,
+  id: string,
+  pendingJobId: Id<"_scheduled_functions"> | undefined
+) {
+  if (table === "tasks") {
+    const taskId = id as Id<"tasks">;
+    const task = await ctx.db.get(taskId);
+    if (!task) return;
+    await ctx.db.patch(taskId, {
+      reminderJobId: await scheduleReminder(
+        ctx,
+        pendingJobId,
+        task.completed ? undefined : task.reminderDate,
+        { taskId }
+      ),
+    });
+  } else if (table === "events") {
+    const eventId = id as Id<"events">;
+    const event = await ctx.db.get(eventId);
+    if (!event) return;
+    await ctx.db.patch(eventId, {
+      reminderJobId: await scheduleReminder(
+        ctx,
+        pendingJobId,
+        event.reminderTime,
+        { eventId }
+      ),
+    });
+  }
+}
+
+/**
+ * Put every document of an entry back to one side of its changes. Deleted
+ * documents come back under new ids, so references to them are rewritten
+ * here and in the user's other entries. Nothing is written, and false is
+ * returned, if any document no longer matches the other side: something
+ * outside the undo history changed it since, and reverting would lose that.
+ */
+async function applySide(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  changes: Change[],
+  side: "before" | "after"
+) {
+  const opposite = side === "before" ? "after" : "before";
+  const current = new Map<string, Snapshot | null>();
+  for (const change of changes) {
+    const id = ctx.db.normalizeId(change.table as TrackedTable, change.id);
+    const doc = id ? await ctx.db.get(id) : null;
+    const expected = change[opposite] as Snapshot | undefined;
+    if (snapshotKey(toSnapshot(doc)) !== snapshotKey(expected)) return false;
+    current.set(change.id, doc);
+  }
+
+  const idMap = new Map<string, string>();
+  for (const change of changes) {
+    if (current.get(change.id) || change[side] === undefined) continue;
+    // Insert first so documents restored together can point at each other
+    const newId = await ctx.db.insert(
+      change.table as TrackedTable,
+      change[side] as never
+    );
+    idMap.set(change.id, newId);
+  }
+
+  for (const change of changes) {
+    const table = change.table as TrackedTable;
+    const id = (idMap.get(change.id) ?? change.id) as GenericId<TrackedTable>;
+    const pendingJobId = current.get(change.id)?.reminderJobId as
+      Id<"_scheduled_functions"> | undefined;
+    const target = change[side] as Snapshot | undefined;
+    const doc = current.get(change.id);
+    if (target === undefined) {
+      if (!doc) continue;
+      if (pendingJobId) await ctx.scheduler.cancel(pendingJobId);
+      await ctx.db.delete(id);
+    } else {
+      await ctx.db.replace(id, remapIds(target, idMap) as never);
+      await restoreReminder(ctx, table, id, pendingJobId);
+    }
+    await recordActivity(ctx, {
+      userId,
+      actorId: userId,
+      source: "ui",
+      table,
+      entityId: id,
+      before: toSnapshot(doc ?? null),
+      after: toSnapshot(await ctx.db.get(id)),
+    });
+  }
+
+  if (idMap.size === 0) return true;
+  // Keep the history of re-inserted documents attached to them
+  for (const [oldId, newId] of idMap) {
+    const activity = await ctx.db
+      .query("activity")
+      .withIndex("by_entity", (q) => q.eq("entityId", oldId))
+      .collect();
+    for (const entry of activity) {
+      await ctx.db.patch(entry._id, { entityId: newId });
+    }
+  }
+  const entries = await ctx.db
+    .query("undoEntries")
+    .withIndex("by_user_created", (q) => q.eq("userId", userId))
+    .collect();
+  for (const entry of entries) {
+    await ctx.db.patch(entry._id, {
+      changes: remapIds(entry.changes, idMap) as Change[],
+    });
+  }
+  return true;
+}
+
+// Entries still inside the undo window, oldest first
+async function getEntries(db: DatabaseReader, userId: Id<"users">) {
+  return await db
+    .query("undoEntries")
+    .withIndex("by_user_created", (q) =>
+      q.eq("userId", userId).gt("createdAt", Date.now() - UNDO_WINDOW_MS)
+    )
+    .collect();
+}
+
+// Revert the most recent change, or the change recorded as `entryId` if it's
+// still the most recent one. Returns its label and whether it was reverted,
+// or null if there's nothing left to undo. A change that was edited since is
+// dropped from the history instead, and one that later changes were made on
+// top of is left as it is.
+export const undo = mutation({
+  args: { entryId: v.optional(v.id("undoEntries")) },
+  handler: async (ctx, { entryId }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const entries = (await getEntries(ctx.db, userId)).filter((e) => !e.undone);
+    const entry = entries[entries.length - 1];
+    if (!entry) return null;
+    if (entryId && entry._id !== entryId) {
+      const requested = entries.find((e) => e._id === entryId);
+      if (!requested) return null;
+      return { label: requested.label, outcome: "superseded" as const };
+    }
+    if (!(await applySide(ctx, userId, entry.changes, "before"))) {
+      await ctx.db.delete(entry._id);
+      return { label: entry.label, outcome: "changed" as const };
+    }
+    await ctx.db.patch(entry._id, { undone: true });
+    return { label: entry.label, outcome: "applied" as const };
+  },
+});
+
+// Reapply the most recently undone change. Returns its label and whether it
+// was reapplied, or null if there's nothing to redo. If it was edited since,
+// the whole redo stack is dropped, as the changes on it build on each other.
+export const redo = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    // Undone entries sit at the end of the stack, latest undone first
+    const entries = (await getEntries(ctx.db, userId)).filter((e) => e.undone);
+    const entry = entries[0];
+    if (!entry) return null;
+    if (!(await applySide(ctx, userId, entry.changes, "after"))) {
+      for (const e of entries) await ctx.db.delete(e._id);
+      return { label: entry.label, outcome: "changed" as const };
+    }
+    await ctx.db.patch(entry._id, { undone: false });
+    return { label: entry.label, outcome: "applied" as const };
+  },
+});
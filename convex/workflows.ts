@@ -0,0 +1,375 @@
+import {
+  mutation,
+  query,
+  DatabaseReader,
+  MutationCtx,
+} from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { syncProjectProgress } from "./projectProgress";
+
+export type WorkflowColumn = Doc<"workflows">["columns"][number];
+
+// Used until the user customises their workflow
+export const DEFAULT_COLUMNS: WorkflowColumn[] = [
+  { status: "todo", name: "Todo", color: "slate" },
+  { status: "in_progress", name: "In Progress", color: "amber" },
+  { status: "done", name: "Done", color: "emerald", completed: true },
+];
+
+async function findWorkflow(
+  db: DatabaseReader,
+  userId: Id<"users">,
+  projectId?: Id<"projects">
+) {
+  return await db
+    .query("workflows")
+    .withIndex("by_user_project", (q) =>
+      q.eq("userId", userId).eq("projectId", projectId)
+    )
+    .unique();
+}
+
+/**
+ * Columns that apply to tasks in the given project: the project's own
+ * workflow, else the user's default workflow, else the built-in columns.
+ */
+export async function getWorkflowColumns(
+  db: DatabaseReader,
+  userId: Id<"users">,
+  projectId?: Id<"projects">
+): Promise<WorkflowColumn[]> {
+  if (projectId) {
+    const projectWorkflow = await findWorkflow(db, userId, projectId);
+    if (projectWorkflow) return projectWorkflow.columns;
+  }
+  const workflow = await findWorkflow(db, userId);
+  return workflow?.columns ?? DEFAULT_COLUMNS;
+}
+
+export function getCompletedColumn(columns: WorkflowColumn[]) {
+  return columns.find((column) => column.completed) ?? columns[0];
+}
+
+// The column new and reopened tasks go into
+export function getOpenColumn(columns: WorkflowColumn[]) {
+  return columns.find((column) => !column.completed) ?? columns[0];
+}
+
+export function resolveColumn(columns: WorkflowColumn[], status: string) {
+  const column = columns.find((c) => c.status === status);
+  if (!column) throw new Error(`Unknown status "${status}"`);
+  return column;
+}
+
+/**
+ * The column a task currently belongs in. Completed tasks always sit in the
+ * completed column; tasks with a missing or unknown status in the first
+ * open column.
+ */
+export function placeTask(
+  columns: WorkflowColumn[],
+  task: Pick<Doc<"tasks">, "status" | "completed">
+): WorkflowColumn {
+  if (task.completed) return getCompletedColumn(columns);
+  const column = columns.find((c) => c.status === task.status);
+  return column && !column.completed ? column : getOpenColumn(columns);
+}
+
+// Stable status value for a column name, e.g. "In Review" -> "in_review"
+function toStatus(name: string, columns: WorkflowColumn[]) {
+  const base =
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "column";
+  let status = base;
+  for (let n = 2; columns.some((c) => c.status === status); n++) {
+    status = `${base}_${n}`;
+  }
+  return status;
+}
+
+function validateName(name: string) {
+  if (!name.trim()) throw new Error("Column name is required");
+  return name.trim();
+}
+
+// The stored workflow for a scope, created from the inherited columns on
+// first edit
+async function ensureWorkflow(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  projectId?: Id<"projects">
+): Promise<Pick<Doc<"workflows">, "_id" | "columns">> {
+  if (projectId) {
+    const project = await ctx.db.get(projectId);
+    if (!project || project.userId !== userId) {
+      throw new Error("Project not found");
+    }
+  }
+  const existing = await findWorkflow(ctx.db, userId, projectId);
+  if (existing) return existing;
+
+  const columns = await getWorkflowColumns(ctx.db, userId, projectId);
+  const workflowId = await ctx.db.insert("workflows", {
+    userId,
+    projectId,
+    columns,
+  });
+  return { _id: workflowId, columns };
+}
+
+// Tasks whose columns come from the given workflow. The default workflow
+// covers every task outside a project with a workflow of its own.
+async function getWorkflowTasks(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  projectId?: Id<"projects">
+) {
+  const tasks = await ctx.db
+    .query("tasks")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  if (projectId) return tasks.filter((task) => task.projectId === projectId);
+
+  const workflows = await ctx.db
+    .query("workflows")
+    .withIndex("by_user_project", (q) => q.eq("userId", userId))
+    .collect();
+  const customised = new Set(workflows.map((w) => w.projectId));
+  return tasks.filter(
+    (task) => !task.projectId || !customised.has(task.projectId)
+  );
+}
+
+// Move tasks into a column, keeping their completion flags, and the progress
+// of their projects, in line with it.
+// Recurring series are not advanced by these bulk moves.
+async function moveTasksToColumn(
+  ctx: MutationCtx,
+  tasks: Doc<"tasks">[],
+  column: WorkflowColumn
+) {
+  const now = Date.now();
+  for (const task of tasks) {
+    await ctx.db.patch(task._id, {
+      status: column.status,
+      completed: !!column.completed,
+      completedAt: column.completed ? (task.completedAt ?? now) : undefined,
+    });
+  }
+  await syncProjectProgress(
+    ctx,
+    tasks.map((task) => task.projectId)
+  );
+}
+
+export const get = query({
+  args: {
+    projectId: v.optional(v.id("projects")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const workflow = await findWorkflow(ctx.db, userId, args.projectId);
+    return {
+      columns: await getWorkflowColumns(ctx.db, userId, args.projectId),
+      // True while the scope uses the default (or built-in) columns
+      inherited: workflow === null,
+    };
+  },
+});
+
+// Projects with a workflow of their own, whose tasks don't use the default
+// workflow's columns
+export const listCustomProjectIds = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const workflows = await ctx.db
+      .query("workflows")
+      .withIndex("by_user_project", (q) => q.eq("userId", userId))
+      .collect();
+    return workflows.flatMap((w) => (w.projectId ? [w.projectId] : []));
+  },
+});
+
+export const addColumn = mutation({
+  args: {
+    projectId: v.optional(v.id("projects")),
+    name: v.string(),
+    color: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const workflow = await ensureWorkflow(ctx, userId, args.projectId);
+    const name = validateName(args.name);
+    const status = toStatus(name, workflow.columns);
+    // New columns go before the completed column
+    const columns = [...workflow.columns];
+    const completedIndex = columns.findIndex((c) => c.completed);
+    columns.splice(completedIndex === -1 ? columns.length : completedIndex, 0, {
+      status,
+      name,
+      color: args.color,
+    });
+    await ctx.db.patch(workflow._id, { columns });
+    return status;
+  },
+});
+
+export const updateColumn = mutation({
+  args: {
+    projectId: v.optional(v.id("projects")),
+    status: v.string(),
+    name: v.optional(v.string()),
+    color: v.optional(v.string()),
+    // Make this the workflow's completed column
+    completed: v.optional(v.literal(true)),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const workflow = await ensureWorkflow(ctx, userId, args.projectId);
+    const column = resolveColumn(workflow.columns, args.status);
+    const previousCompleted = getCompletedColumn(workflow.columns);
+    const tasks = await getWorkflowTasks(ctx, userId, args.projectId);
+
+    const updated: WorkflowColumn = { ...column };
+    if (args.color !== undefined) updated.color = args.color;
+    if (args.name !== undefined) {
+      updated.name = validateName(args.name);
+      updated.status = toStatus(
+        updated.name,
+        workflow.columns.filter((c) => c.status !== column.status)
+      );
+    }
+
+    const completedChanged = !!args.completed && !column.completed;
+    if (completedChanged) {
+      if (workflow.columns.length < 2) {
+        throw new Error("A workflow needs an open column");
+      }
+      updated.completed = true;
+    }
+    const reopened: WorkflowColumn = { ...previousCompleted };
+    delete reopened.completed;
+
+    const columns = workflow.columns.map((c) => {
+      if (c.status === column.status) return updated;
+      return completedChanged && c.status === reopened.status ? reopened : c;
+    });
+    await ctx.db.patch(workflow._id, { columns });
+
+    // Renamed columns get a new status value, so move their tasks along; when
+    // the completed column changes, tasks in both columns flip completion
+    const tasksIn = (status: string) =>
+      tasks.filter(
+        (task) => placeTask(workflow.columns, task).status === status
+      );
+    if (updated.status !== column.status || completedChanged) {
+      await moveTasksToColumn(ctx, tasksIn(column.status), updated);
+    }
+    if (completedChanged) {
+      await moveTasksToColumn(ctx, tasksIn(reopened.status), reopened);
+    }
+    return updated.status;
+  },
+});
+
+export const reorderColumns = mutation({
+  args: {
+    projectId: v.optional(v.id("projects")),
+    statuses: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const workflow = await ensureWorkflow(ctx, userId, args.projectId);
+    if (
+      args.statuses.length !== workflow.columns.length ||
+      new Set(args.statuses).size !== args.statuses.length
+    ) {
+      throw new Error("Every column must appear exactly once");
+    }
+    await ctx.db.patch(workflow._id, {
+      columns: args.statuses.map((status) =>
+        resolveColumn(workflow.columns, status)
+      ),
+    });
+  },
+});
+
+export const removeColumn = mutation({
+  args: {
+    projectId: v.optional(v.id("projects")),
+    status: v.string(),
+    // Column that receives the removed column's tasks
+    moveTo: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const workflow = await ensureWorkflow(ctx, userId, args.projectId);
+    const column = resolveColumn(workflow.columns, args.status);
+    const target = resolveColumn(workflow.columns, args.moveTo);
+    if (column.completed) {
+      throw new Error("Choose another completed column first");
+    }
+    if (target.status === column.status) {
+      throw new Error("Tasks must move to a different column");
+    }
+    if (!workflow.columns.some((c) => !c.completed && c !== column)) {
+      throw new Error("A workflow needs an open column");
+    }
+
+    const tasks = await getWorkflowTasks(ctx, userId, args.projectId);
+    await moveTasksToColumn(
+      ctx,
+      tasks.filter(
+        (task) => placeTask(workflow.columns, task).status === column.status
+      ),
+      target
+    );
+    await ctx.db.patch(workflow._id, {
+      columns: workflow.columns.filter((c) => c.status !== column.status),
+    });
+  },
+});
+
+// Drop a project's own workflow so its tasks follow the default one again
+export const resetProjectWorkflow = mutation({
+  args: {
+    projectId: v.id("projects"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const workflow = await findWorkflow(ctx.db, userId, args.projectId);
+    if (!workflow) return;
+    await ctx.db.delete(workflow._id);
+
+    // Tasks in columns the default workflow lacks land in its open or
+    // completed column
+    const columns = await getWorkflowColumns(ctx.db, userId);
+    const tasks = await getWorkflowTasks(ctx, userId, args.projectId);
+    for (const task of tasks) {
+      const column = placeTask(columns, task);
+      if (column.status !== task.status) {
+        await ctx.db.patch(task._id, { status: column.status });
+      }
+    }
+  },
+});
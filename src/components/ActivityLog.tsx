@@ -0,0 +1,204 @@
+import { useQuery, usePaginatedQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc } from "../../convex/_generated/dataModel";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Separator } from "./ui/separator";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { HistoryIcon } from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+const ACTION_LABELS: Record<Doc<"activity">["action"], string> = {
+  create: "Created",
+  update: "Edited",
+  status: "Changed status of",
+  trash: "Trashed",
+  restore: "Restored",
+  delete: "Permanently deleted",
+};
+
+const TABLE_LABELS: Record<string, string> = {
+  tasks: "task",
+  projects: "project",
+  notes: "note",
+  bookmarks: "bookmark",
+  events: "event",
+  googleCalendarEvents: "calendar event",
+};
+
+const SOURCE_LABELS: Record<Doc<"activity">["source"], string | null> = {
+  ui: null,
+  quickCapture: "via Quick Capture",
+  googleSync: "via Google Calendar sync",
+};
+
+// References to other documents, whose raw ids mean nothing to the user
+const ID_FIELDS = new Set([
+  "projectId",
+  "milestoneId",
+  "parentTaskId",
+  "seriesId",
+  "blockedBy",
+]);
+
+// "dueDate" -> "due date"
+const fieldLabel = (field: string) =>
+  field.replace(/([A-Z])/g, " $1").toLowerCase();
+
+function formatValue(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === "") return "none";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  if (typeof value === "number" && /(Date|At|Time)$/.test(field)) {
+    return format(value, "MMM d, yyyy p");
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(String).join(", ") : "none";
+  }
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function ActivityChanges({ entry }: { entry: Doc<"activity"> }) {
+  if (entry.changes.length === 0) return null;
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+      {entry.changes.map(({ field, before, after }) => (
+        <li key={field}>
+          <span className="font-medium">{fieldLabel(field)}</span>
+          {ID_FIELDS.has(field)
+            ? " changed"
+            : `: ${formatValue(field, before)} → ${formatValue(field, after)}`}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function ActivityItem({
+  entry,
+  showTitle,
+}: {
+  entry: Doc<"activity">;
+  showTitle: boolean;
+}) {
+  const source = SOURCE_LABELS[entry.source];
+  return (
+    <li className="py-2">
+      <p className="text-sm">
+        {ACTION_LABELS[entry.action]}{" "}
+        {showTitle ? (
+          <>
+            {TABLE_LABELS[entry.table] ?? "item"}{" "}
+            <span className="font-medium">{entry.title}</span>
+          </>
+        ) : (
+          `this ${TABLE_LABELS[entry.table] ?? "item"}`
+        )}
+        {source && <span className="text-muted-foreground"> {source}</span>}
+      </p>
+      <p
+        className="text-xs text-muted-foreground"
+        title={format(entry.createdAt, "PPpp")}
+      >
+        {formatDistanceToNow(entry.createdAt, { addSuffix: true })}
+      </p>
+      <ActivityChanges entry={entry} />
+    </li>
+  );
+}
+
+// Everything that happened to one item, newest first
+export function ActivityHistory({ entityId }: { entityId: string }) {
+  const entries = useQuery(api.activity.listForEntity, { entityId });
+
+  if (entries === undefined) return null;
+  if (entries.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">
+        No history yet
+      </p>
+    );
+  }
+  return (
+    <ul className="divide-y">
+      {entries.map((entry) => (
+        <ActivityItem key={entry._id} entry={entry} showTitle={false} />
+      ))}
+    </ul>
+  );
+}
+
+// History behind a button, for items without a detail view of their own
+export function ActivityHistoryButton({
+  entityId,
+  title,
+}: {
+  entityId: string;
+  title: string;
+}) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 text-muted-foreground"
+          aria-label={`History of ${title}`}
+        >
+          <HistoryIcon className="h-3.5 w-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="max-h-80 w-80 overflow-y-auto">
+        <h4 className="mb-1 text-sm font-medium">History</h4>
+        <ActivityHistory entityId={entityId} />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * Recent changes across all of the user's items, including ones made by
+ * Quick Capture and Google Calendar sync.
+ */
+export function ActivityFeed() {
+  const {
+    results: entries,
+    status,
+    loadMore,
+  } = usePaginatedQuery(api.activity.list, {}, { initialNumItems: PAGE_SIZE });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-xl font-heading">Activity</CardTitle>
+      </CardHeader>
+      <Separator />
+      <CardContent className="pt-4">
+        {entries.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No activity yet
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {entries.map((entry) => (
+              <ActivityItem key={entry._id} entry={entry} showTitle />
+            ))}
+          </ul>
+        )}
+        {(status === "CanLoadMore" || status === "LoadingMore") && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full text-muted-foreground"
+            disabled={status === "LoadingMore"}
+            onClick={() => loadMore(PAGE_SIZE)}
+          >
+            {status === "LoadingMore" ? "Loading..." : "Show more activity"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,322 @@
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import {
+  addDays,
+  addWeeks,
+  format,
+  isSameDay,
+  set,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Separator } from "./ui/separator";
+import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
+import { SnoozeMenu } from "./SnoozeMenu";
+import { EventReminderMenu } from "./EventReminderMenu";
+import { MapPinIcon } from "lucide-react";
+
+// Local events and synced Google Calendar events, shown alike
+interface AgendaEvent {
+  _id: string;
+  title: string;
+  startDate: number;
+  endDate: number;
+  isAllDay: boolean;
+  location?: string;
+  color?: string;
+  reminderTime?: number;
+  fromGoogle: boolean;
+}
+
+type AgendaItem =
+  | { kind: "task"; time: number; allDay: boolean; task: Doc<"tasks"> }
+  | { kind: "event"; time: number; allDay: boolean; event: AgendaEvent };
+
+const getPriorityColor = (priority: string | undefined) => {
+  switch (priority) {
+    case "high":
+      return "bg-destructive/20 text-destructive";
+    case "low":
+      return "bg-emerald-100 text-emerald-600";
+    default:
+      return "bg-amber-100 text-amber-600";
+  }
+};
+
+// Tasks due at midnight were given a date but no time
+const isDateOnly = (timestamp: number) =>
+  startOfDay(timestamp).getTime() === timestamp;
+
+// Move a due date to another day, keeping its time of day
+const rollTo = (dueDate: number, day: Date) => {
+  const due = new Date(dueDate);
+  return set(day, {
+    hours: due.getHours(),
+    minutes: due.getMinutes(),
+    seconds: 0,
+    milliseconds: 0,
+  }).getTime();
+};
+
+function getDayItems(
+  day: Date,
+  tasks: Doc<"tasks">[],
+  events: AgendaEvent[]
+): AgendaItem[] {
+  const dayStart = day.getTime();
+  const dayEnd = addDays(day, 1).getTime();
+  const items: AgendaItem[] = [
+    ...tasks
+      .filter((task) => task.dueDate && isSameDay(task.dueDate, day))
+      .map((task) => ({
+        kind: "task" as const,
+        time: task.dueDate!,
+        allDay: isDateOnly(task.dueDate!),
+        task,
+      })),
+    ...events
+      .filter((event) => event.startDate < dayEnd && event.endDate > dayStart)
+      .map((event) => ({
+        kind: "event" as const,
+        // Events running over from an earlier day sort to the top
+        time: Math.max(event.startDate, dayStart),
+        allDay: event.isAllDay,
+        event,
+      })),
+  ];
+  // All-day items first, then by time
+  return items.sort(
+    (a, b) => Number(b.allDay) - Number(a.allDay) || a.time - b.time
+  );
+}
+
+interface AgendaWidgetProps {
+  title: string;
+  // First day shown, in days from today
+  startOffset: number;
+  days: number;
+  // List open tasks due before today, with actions to reschedule them
+  showOverdue?: boolean;
+}
+
+/**
+ * Tasks due and events happening over a run of days, one section per day.
+ * Google Calendar events appear next to the user's own.
+ */
+export function AgendaWidget({
+  title,
+  startOffset,
+  days,
+  showOverdue = false,
+}: AgendaWidgetProps) {
+  const { toast } = useToast();
+  const { undoAction } = useUndo();
+  const today = startOfDay(new Date());
+  const from = addDays(today, startOffset);
+  const to = addDays(from, days);
+
+  const tasks =
+    useQuery(api.tasks.listDue, {
+      from: from.getTime(),
+      to: to.getTime(),
+    }) || [];
+  const overdue =
+    useQuery(
+      api.tasks.listDue,
+      showOverdue ? { to: today.getTime() } : "skip"
+    ) || [];
+  const localEvents =
+    useQuery(api.events.list, { from: from.getTime(), to: to.getTime() }) || [];
+  const googleEvents =
+    useQuery(api.googleCalendarEvents.getGoogleEvents, {
+      startDate: from.getTime(),
+      endDate: to.getTime(),
+    }) || [];
+  const toggleTask = useMutation(api.tasks.toggle);
+  const updateTask = useMutation(api.tasks.update);
+
+  const events: AgendaEvent[] = [
+    ...localEvents.map((event) => ({ ...event, fromGoogle: false })),
+    ...googleEvents.map((event) => ({ ...event, fromGoogle: true })),
+  ];
+  const dayList = Array.from({ length: days }, (_, i) => addDays(from, i));
+
+  const showError = (action: string, err: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${err instanceof Error ? err.message : "Unknown error"}`,
+      variant: "destructive",
+    });
+  };
+
+  const handleToggle = async (task: Doc<"tasks">) => {
+    try {
+      const { undoEntryId } = await toggleTask({ id: task._id });
+      toast({
+        title: "Task completed",
+        description: `"${task.title}"`,
+        action: undoAction(undoEntryId),
+      });
+    } catch (err) {
+      showError("complete task", err);
+    }
+  };
+
+  const handleRoll = async (task: Doc<"tasks">, day: Date, label: string) => {
+    try {
+      const { undoEntryId } = await updateTask({
+        id: task._id,
+        dueDate: rollTo(task.dueDate!, day),
+      });
+      toast({
+        title: "Task rescheduled",
+        description: `"${task.title}" is now due ${label}`,
+        action: undoAction(undoEntryId),
+      });
+    } catch (err) {
+      showError("reschedule task", err);
+    }
+  };
+
+  const rollTargets = [
+    { label: "Today", day: today },
+    { label: "Tomorrow", day: addDays(today, 1) },
+    {
+      label: "Next week",
+      day: startOfWeek(addWeeks(today, 1), { weekStartsOn: 1 }),
+    },
+  ];
+
+  const TaskRow = ({ task }: { task: Doc<"tasks"> }) => (
+    <div className="flex items-center gap-3">
+      <Checkbox
+        checked={false}
+        onCheckedChange={() => void handleToggle(task)}
+        aria-label={`Complete ${task.title}`}
+      />
+      <span className="flex-1 truncate">{task.title}</span>
+      <Badge className={getPriorityColor(task.priority)}>
+        {task.priority || "medium"}
+      </Badge>
+      <SnoozeMenu task={task} />
+    </div>
+  );
+
+  const EventRow = ({ event }: { event: AgendaEvent }) => (
+    <div
+      className="flex items-center gap-3 border-l-4 pl-2"
+      style={{ borderLeftColor: event.color || "#3b82f6" }}
+    >
+      <span className="flex-1 truncate">{event.title}</span>
+      {event.location && (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <MapPinIcon className="h-3 w-3" />
+          {event.location}
+        </span>
+      )}
+      {event.fromGoogle ? (
+        <Badge className="bg-secondary text-secondary-foreground">Google</Badge>
+      ) : (
+        <EventReminderMenu
+          event={{ ...event, _id: event._id as Id<"events"> }}
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-xl font-heading">{title}</CardTitle>
+      </CardHeader>
+      <Separator />
+      <CardContent className="space-y-6 pt-6">
+        {showOverdue && overdue.length > 0 && (
+          <section>
+            <h3 className="mb-2 text-sm font-medium text-destructive">
+              Overdue ({overdue.length})
+            </h3>
+            <ul className="divide-y rounded-md border">
+              {overdue.map((task) => (
+                <li
+                  key={task._id}
+                  className="flex flex-wrap items-center gap-2 p-2"
+                >
+                  <div className="min-w-0 flex-1">
+                    <TaskRow task={task} />
+                  </div>
+                  <span className="text-xs text-destructive">
+                    {format(task.dueDate!, "MMM d")}
+                  </span>
+                  <div className="flex gap-1">
+                    {rollTargets.map(({ label, day }) => (
+                      <Button
+                        key={label}
+                        variant="outline"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() =>
+                          void handleRoll(task, day, label.toLowerCase())
+                        }
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {dayList.map((day) => {
+          const items = getDayItems(day, tasks, events);
+          return (
+            <section key={day.getTime()}>
+              <h3 className="mb-2 text-sm font-medium">
+                {isSameDay(day, today)
+                  ? "Today"
+                  : isSameDay(day, addDays(today, 1))
+                    ? "Tomorrow"
+                    : format(day, "EEEE, MMM d")}
+              </h3>
+              {items.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Nothing scheduled
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {items.map((item) => (
+                    <li
+                      key={
+                        item.kind === "task" ? item.task._id : item.event._id
+                      }
+                      className="flex items-center gap-3"
+                    >
+                      <span className="w-16 shrink-0 text-xs text-muted-foreground">
+                        {item.allDay ? "All day" : format(item.time, "p")}
+                      </span>
+                      <div className="min-w-0 flex-1">
+                        {item.kind === "task" ? (
+                          <TaskRow task={item.task} />
+                        ) : (
+                          <EventRow event={item.event} />
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,6 +11,9 @@ import {
   SidebarGroup,
   SidebarGroupLabel,
   SidebarRail,
+  SidebarMenuSub,
+  SidebarMenuSubItem,
+  SidebarMenuSubButton,
   useSidebar,
 } from "./ui/sidebar";
 import {
@@ -24,6 +27,11 @@ import {
   LogOut,
   Inbox,
   MoreVertical,
+  Timer,
+  Target,
+  Trash2,
+  CalendarCheck,
+  CalendarRange,
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
 import { useQuery } from "convex/react";
@@ -37,6 +45,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "./ui/dropdown-menu";
+import { startOfDay } from "date-fns";
 
 // Helper component for the sidebar header to properly handle collapsing
 function CollapsibleHeader() {
@@ -149,6 +158,53 @@ function CollapsibleFooter() {
   );
 }
 
+// Saved task views listed under Tasks, with how many tasks each matches
+function SavedViews({
+  activeItem,
+  onNavigate,
+}: {
+  activeItem: string;
+  onNavigate: (item: { id: string; path: string }) => void;
+}) {
+  const views =
+    useQuery(api.taskViews.list, {
+      today: startOfDay(new Date()).getTime(),
+    }) || [];
+
+  if (views.length === 0) return null;
+
+  return (
+    <SidebarMenuSub className="mt-1">
+      {views.map((view) => (
+        <SidebarMenuSubItem key={view._id}>
+          <SidebarMenuSubButton
+            isActive={activeItem === `view:${view._id}`}
+            onClick={() =>
+              onNavigate({
+                id: `view:${view._id}`,
+                path: `/tasks?view=${view._id}`,
+              })
+            }
+            className="cursor-pointer"
+          >
+            <span className="flex-1 truncate">{view.name}</span>
+            <span className="text-xs text-muted-foreground">{view.count}</span>
+          </SidebarMenuSubButton>
+        </SidebarMenuSubItem>
+      ))}
+    </SidebarMenuSub>
+  );
+}
+
+interface NavItem {
+  id: string;
+  label: string;
+  icon: React.ReactNode;
+  path: string;
+  // Count shown next to the label, e.g. overdue tasks
+  badge?: number;
+}
+
 // Navigation component that uses sidebar context
 function NavItems({
   activeItem,
@@ -156,12 +212,7 @@ function NavItems({
   onNavigate,
 }: {
   activeItem: string;
-  navItems: Array<{
-    id: string;
-    label: string;
-    icon: React.ReactNode;
-    path: string;
-  }>;
+  navItems: NavItem[];
   onNavigate: (item: { id: string; path: string }) => void;
 }) {
   const { state } = useSidebar();
@@ -194,7 +245,15 @@ function NavItems({
               {!isCollapsed && (
                 <span className="ml-3 text-sm font-medium">{item.label}</span>
               )}
+              {!isCollapsed && !!item.badge && (
+                <span className="ml-auto rounded-full bg-destructive px-2 text-xs font-medium text-destructive-foreground">
+                  {item.badge}
+                </span>
+              )}
             </SidebarMenuButton>
+            {item.id === "tasks" && !isCollapsed && (
+              <SavedViews activeItem={activeItem} onNavigate={onNavigate} />
+            )}
           </SidebarMenuItem>
         );
       })}
@@ -209,14 +268,32 @@ export function AppSidebar({
   activeItem: string;
   onNavigate: (item: { id: string; path: string }) => void;
 }) {
+  const overdueCount =
+    useQuery(api.tasks.countOverdue, {
+      today: startOfDay(new Date()).getTime(),
+    }) ?? 0;
+
   // Navigation items for the sidebar
-  const navItems = [
+  const navItems: NavItem[] = [
     {
       id: "inbox",
       label: "Inbox",
       icon: <Inbox className="h-4 w-4" />,
       path: "/",
     },
+    {
+      id: "today",
+      label: "Today",
+      icon: <CalendarCheck className="h-4 w-4" />,
+      path: "/today",
+      badge: overdueCount,
+    },
+    {
+      id: "upcoming",
+      label: "Upcoming",
+      icon: <CalendarRange className="h-4 w-4" />,
+      path: "/upcoming",
+    },
     {
       id: "tasks",
       label: "Tasks",
@@ -247,6 +324,24 @@ export function AppSidebar({
       icon: <Bookmark className="h-4 w-4" />,
       path: "/bookmarks",
     },
+    {
+      id: "time",
+      label: "Time",
+      icon: <Timer className="h-4 w-4" />,
+      path: "/time",
+    },
+    {
+      id: "focus",
+      label: "Focus",
+      icon: <Target className="h-4 w-4" />,
+      path: "/focus",
+    },
+    {
+      id: "trash",
+      label: "Trash",
+      icon: <Trash2 className="h-4 w-4" />,
+      path: "/trash",
+    },
   ];
 
   return (
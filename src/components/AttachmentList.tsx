@@ -0,0 +1,223 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { format } from "date-fns";
+import { Button } from "./ui/button";
+import { useToast } from "../hooks/use-toast";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  formatFileSize,
+  isImage,
+  isPdf,
+  validateAttachment,
+} from "../utils/attachments";
+import {
+  EyeIcon,
+  EyeOffIcon,
+  FileIcon,
+  PaperclipIcon,
+  Trash2Icon,
+} from "lucide-react";
+
+type Attachment = FunctionReturnType<typeof api.attachments.list>[number];
+
+function AttachmentPreview({ attachment }: { attachment: Attachment }) {
+  if (!attachment.url) return null;
+  if (isImage(attachment.contentType)) {
+    return (
+      <img
+        src={attachment.url}
+        alt={attachment.name}
+        className="max-h-64 rounded-md border object-contain"
+      />
+    );
+  }
+  if (isPdf(attachment.contentType)) {
+    return (
+      <iframe
+        src={attachment.url}
+        title={attachment.name}
+        className="h-80 w-full rounded-md border"
+      />
+    );
+  }
+  return null;
+}
+
+/**
+ * Files attached to a task or a project. Images and PDFs can be previewed
+ * in place; everything else opens in a new tab.
+ */
+export function AttachmentList({
+  itemId,
+}: {
+  itemId: Id<"tasks"> | Id<"projects">;
+}) {
+  const { toast } = useToast();
+  const attachments = useQuery(api.attachments.list, { itemId });
+  const generateUploadUrl = useMutation(api.attachments.generateUploadUrl);
+  const createAttachment = useMutation(api.attachments.create);
+  const removeAttachment = useMutation(api.attachments.remove);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [previewId, setPreviewId] = useState<Id<"attachments"> | null>(null);
+
+  const showError = (action: string, err: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${err instanceof Error ? err.message : "Unknown error"}`,
+      variant: "destructive",
+    });
+  };
+
+  const upload = async (file: File) => {
+    const invalid = validateAttachment(file);
+    if (invalid) {
+      toast({
+        title: "Can't attach file",
+        description: invalid,
+        variant: "destructive",
+      });
+      return;
+    }
+    const { uploadId, uploadUrl } = await generateUploadUrl();
+    const response = await fetch(uploadUrl, {
+      method: "POST",
+      headers: { "Content-Type": file.type },
+      body: file,
+    });
+    if (!response.ok) throw new Error(`Upload failed (${response.status})`);
+    const { storageId } = (await response.json()) as {
+      storageId: Id<"_storage">;
+    };
+    const result = await createAttachment({
+      itemId,
+      uploadId,
+      storageId,
+      name: file.name,
+    });
+    if ("error" in result) throw new Error(result.error);
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setUploading(true);
+    try {
+      for (const file of Array.from(files)) {
+        await upload(file);
+      }
+    } catch (err) {
+      showError("attach file", err);
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const handleRemove = async (attachment: Attachment) => {
+    try {
+      await removeAttachment({ id: attachment._id });
+      toast({
+        title: "Attachment deleted",
+        description: `"${attachment.name}"`,
+      });
+    } catch (err) {
+      showError("delete attachment", err);
+    }
+  };
+
+  if (attachments === undefined) return null;
+
+  return (
+    <div className="space-y-3">
+      {attachments.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          No files attached
+        </p>
+      ) : (
+        <ul className="divide-y">
+          {attachments.map((attachment) => {
+            const canPreview =
+              isImage(attachment.contentType) || isPdf(attachment.contentType);
+            const showPreview = previewId === attachment._id;
+            return (
+              <li key={attachment._id} className="space-y-2 py-2">
+                <div className="flex items-center gap-2">
+                  <FileIcon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <a
+                      href={attachment.url ?? undefined}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="block truncate text-sm font-medium hover:underline"
+                    >
+                      {attachment.name}
+                    </a>
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(attachment.size)} ·{" "}
+                      {format(attachment.createdAt, "MMM d, yyyy")}
+                    </p>
+                  </div>
+                  {canPreview && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-muted-foreground"
+                      aria-label={
+                        showPreview
+                          ? `Hide preview of ${attachment.name}`
+                          : `Preview ${attachment.name}`
+                      }
+                      onClick={() =>
+                        setPreviewId(showPreview ? null : attachment._id)
+                      }
+                    >
+                      {showPreview ? (
+                        <EyeOffIcon className="h-4 w-4" />
+                      ) : (
+                        <EyeIcon className="h-4 w-4" />
+                      )}
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    aria-label={`Delete ${attachment.name}`}
+                    onClick={() => void handleRemove(attachment)}
+                  >
+                    <Trash2Icon className="h-4 w-4" />
+                  </Button>
+                </div>
+                {showPreview && <AttachmentPreview attachment={attachment} />}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <input
+        ref={fileInput}
+        type="file"
+        multiple
+        accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+        className="hidden"
+        onChange={(e) => void handleFiles(e.target.files)}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={uploading}
+        onClick={() => fileInput.current?.click()}
+      >
+        <PaperclipIcon className="mr-2 h-4 w-4" />
+        {uploading ? "Uploading..." : "Attach files"}
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Images, PDFs and text files up to 10 MB
+      </p>
+    </div>
+  );
+}
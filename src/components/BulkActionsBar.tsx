@@ -0,0 +1,313 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { FunctionArgs } from "convex/server";
+import type { UndoableResult } from "../../convex/undo";
+import { parse } from "date-fns";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
+import { WorkflowColumn } from "../utils/workflow";
+import { CalendarIcon, TagIcon, Trash2Icon, XIcon } from "lucide-react";
+
+const NO_PROJECT = "none";
+
+type BulkUpdateArgs = Omit<FunctionArgs<typeof api.tasks.bulkUpdate>, "ids">;
+
+interface BulkFailure {
+  id: Id<"tasks">;
+  title?: string;
+  error: string;
+}
+
+interface BulkActionsBarProps {
+  taskIds: Id<"tasks">[];
+  columns: WorkflowColumn[];
+  projects: Doc<"projects">[];
+  onSelectionChange: (taskIds: Id<"tasks">[]) => void;
+}
+
+/**
+ * Actions applied to every selected task in one batched mutation. Tasks the
+ * server couldn't change stay selected so the user can retry or fix them.
+ */
+export function BulkActionsBar({
+  taskIds,
+  columns,
+  projects,
+  onSelectionChange,
+}: BulkActionsBarProps) {
+  const { toast } = useToast();
+  const { undoAction } = useUndo();
+  const bulkUpdate = useMutation(api.tasks.bulkUpdate);
+  const bulkRemove = useMutation(api.tasks.bulkRemove);
+  const [tag, setTag] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isPending, setIsPending] = useState(false);
+
+  const count = taskIds.length;
+  const plural = (n: number) => `${n} ${n === 1 ? "task" : "tasks"}`;
+
+  const report = (
+    action: string,
+    {
+      result: { succeeded, failed },
+      undoEntryId,
+    }: UndoableResult<{ succeeded: Id<"tasks">[]; failed: BulkFailure[] }>
+  ) => {
+    onSelectionChange(failed.map((f) => f.id));
+    if (failed.length === 0) {
+      toast({
+        title: `${action} ${plural(succeeded.length)}`,
+        action: undoAction(undoEntryId),
+      });
+      return;
+    }
+    toast({
+      title: `${action} ${succeeded.length} of ${plural(
+        succeeded.length + failed.length
+      )}`,
+      description: failed
+        .map((f) => `${f.title ?? "Unknown task"}: ${f.error}`)
+        .join("\n"),
+      variant: "destructive",
+      // The batch is one undo entry, failures or not, and none if nothing
+      // succeeded
+      action: undoAction(undoEntryId),
+    });
+  };
+
+  const showError = (err: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to update tasks: ${err instanceof Error ? err.message : "Unknown error"}`,
+      variant: "destructive",
+    });
+  };
+
+  const runUpdate = async (changes: BulkUpdateArgs) => {
+    setIsPending(true);
+    try {
+      const updated = await bulkUpdate({ ids: taskIds, ...changes });
+      report("Updated", updated);
+      const { unblockedTasks } = updated.result;
+      if (unblockedTasks.length > 0) {
+        toast({
+          title: "Tasks unblocked",
+          description: unblockedTasks.map((t) => t.title).join(", "),
+        });
+      }
+    } catch (err) {
+      showError(err);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const runRemove = async () => {
+    setIsPending(true);
+    try {
+      report("Moved to trash", await bulkRemove({ ids: taskIds }));
+    } catch (err) {
+      showError(err);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleTag = (action: "addTags" | "removeTags") => {
+    const value = tag.trim().replace(/^#/, "");
+    if (!value) return;
+    setTag("");
+    void runUpdate({ [action]: [value] });
+  };
+
+  const handleDueDate = (value: string | null) => {
+    setDueDate("");
+    void runUpdate({
+      dueDate: value ? parse(value, "yyyy-MM-dd", new Date()).getTime() : null,
+    });
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 p-2">
+      <span className="px-2 text-sm font-medium">{count} selected</span>
+      <Select
+        value=""
+        onValueChange={(status) => void runUpdate({ status })}
+        disabled={isPending}
+      >
+        <SelectTrigger className="h-8 w-[130px]">
+          <SelectValue placeholder="Status" />
+        </SelectTrigger>
+        <SelectContent>
+          {columns.map((column) => (
+            <SelectItem key={column.status} value={column.status}>
+              {column.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value=""
+        onValueChange={(priority) => void runUpdate({ priority })}
+        disabled={isPending}
+      >
+        <SelectTrigger className="h-8 w-[110px]">
+          <SelectValue placeholder="Priority" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="low">Low</SelectItem>
+          <SelectItem value="medium">Medium</SelectItem>
+          <SelectItem value="high">High</SelectItem>
+        </SelectContent>
+      </Select>
+      <Select
+        value=""
+        onValueChange={(value) =>
+          void runUpdate({
+            projectId: value === NO_PROJECT ? null : (value as Id<"projects">),
+          })
+        }
+        disabled={isPending}
+      >
+        <SelectTrigger className="h-8 w-[140px]">
+          <SelectValue placeholder="Move to..." />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_PROJECT}>No project</SelectItem>
+          {projects.map((project) => (
+            <SelectItem key={project._id} value={project._id}>
+              {project.title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isPending}>
+            <TagIcon className="mr-1 h-4 w-4" />
+            Tags
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-2">
+          <Input
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            placeholder="Tag name"
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="flex-1"
+              disabled={!tag.trim()}
+              onClick={() => handleTag("addTags")}
+            >
+              Add
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1"
+              disabled={!tag.trim()}
+              onClick={() => handleTag("removeTags")}
+            >
+              Remove
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isPending}>
+            <CalendarIcon className="mr-1 h-4 w-4" />
+            Due date
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-2">
+          <Input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="flex-1"
+              disabled={!dueDate}
+              onClick={() => handleDueDate(dueDate)}
+            >
+              Set
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1"
+              onClick={() => handleDueDate(null)}
+            >
+              Clear
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-destructive"
+        disabled={isPending}
+        onClick={() => setConfirmDelete(true)}
+      >
+        <Trash2Icon className="mr-1 h-4 w-4" />
+        Delete
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="ml-auto h-8 w-8"
+        onClick={() => onSelectionChange([])}
+        aria-label="Clear selection"
+      >
+        <XIcon className="h-4 w-4" />
+      </Button>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {plural(count)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They move to the trash along with their subtasks, and can be
+              restored from there for 30 days.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => void runRemove()}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
-import { ChevronRight, ChevronLeft, X, RefreshCw } from "lucide-react";
+import { ChevronRight, ChevronLeft, X, RefreshCw, Target } from "lucide-react";
 import { useState, useEffect, useRef, useMemo } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
 import { useGoogleCalendar } from "../hooks/useGoogleCalendar";
 import { GoogleCalendarEvent } from "../services/GoogleCalendarService";
 import { Badge } from "./ui/badge";
@@ -183,6 +185,13 @@ export function CalendarTimeline({ onClose }: { onClose: () => void }) {
     isDebouncing,
   } = useGoogleCalendar();
 
+  // Pomodoro sessions logged on the selected day
+  const focusSessions =
+    useQuery(api.focusSessions.list, {
+      from: startOfDay(selectedDate).getTime(),
+      to: endOfDay(selectedDate).getTime() + 1,
+    }) || [];
+
   // Navigate to previous/next day
   const goToPrevious = () => {
     setSelectedDate((prev) => subDays(prev, 1));
@@ -580,6 +589,29 @@ export function CalendarTimeline({ onClose }: { onClose: () => void }) {
                   </div>
                 );
               })}
+
+              {/* Focus sessions, in a narrow lane over the events */}
+              {focusSessions.map((session) => (
+                <div
+                  key={session._id}
+                  className="absolute right-0 w-28 rounded overflow-hidden shadow-sm pointer-events-auto bg-primary/10 border-l-[3px] border-primary"
+                  style={{
+                    top: `${getEventPosition(session.start)}px`,
+                    height: `${getEventHeight(session.start, session.end)}px`,
+                  }}
+                  title={`Focus: ${session.taskTitle}`}
+                >
+                  <div className="px-2 py-1">
+                    <div className="font-medium text-xs truncate flex items-center gap-1 text-primary">
+                      <Target className="h-3 w-3 flex-shrink-0" />
+                      {session.taskTitle}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatTime(new Date(session.start))}
+                    </div>
+                  </div>
+                </div>
+              ))}
             </div>
           </div>
         )}
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { format, formatDistanceToNow } from "date-fns";
+import { Button } from "./ui/button";
+import { Textarea } from "./ui/textarea";
+import { useToast } from "../hooks/use-toast";
+
+type ItemId = Id<"tasks"> | Id<"projects">;
+
+function CommentForm({
+  itemId,
+  parentCommentId,
+  placeholder,
+  onDone,
+}: {
+  itemId: ItemId;
+  parentCommentId?: Id<"comments">;
+  placeholder: string;
+  onDone?: () => void;
+}) {
+  const { toast } = useToast();
+  const addComment = useMutation(api.comments.add);
+  const [body, setBody] = useState("");
+
+  const handleSubmit = async () => {
+    try {
+      await addComment({ itemId, body, parentCommentId });
+      setBody("");
+      onDone?.();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: `Failed to add comment: ${err instanceof Error ? err.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        void handleSubmit();
+      }}
+      className="space-y-2"
+    >
+      <Textarea
+        placeholder={placeholder}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={2}
+        autoFocus={parentCommentId !== undefined}
+      />
+      <div className="flex justify-end gap-2">
+        {onDone && (
+          <Button type="button" variant="ghost" size="sm" onClick={onDone}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={!body.trim()}>
+          {parentCommentId ? "Reply" : "Comment"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function CommentItem({
+  comment,
+  replies,
+  itemId,
+}: {
+  comment: Doc<"comments">;
+  replies: Map<string, Doc<"comments">[]>;
+  itemId: ItemId;
+}) {
+  const { toast } = useToast();
+  const removeComment = useMutation(api.comments.remove);
+  const [replying, setReplying] = useState(false);
+  const children = replies.get(comment._id) ?? [];
+
+  const handleRemove = async () => {
+    try {
+      await removeComment({ id: comment._id });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: `Failed to delete comment: ${err instanceof Error ? err.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <li className="space-y-2">
+      <div>
+        <p className="whitespace-pre-wrap text-sm">{comment.body}</p>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span title={format(comment.createdAt, "PPpp")}>
+            {formatDistanceToNow(comment.createdAt, { addSuffix: true })}
+          </span>
+          <button
+            type="button"
+            className="hover:text-foreground"
+            onClick={() => setReplying(true)}
+          >
+            Reply
+          </button>
+          <button
+            type="button"
+            className="hover:text-destructive"
+            onClick={() => void handleRemove()}
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+      {(children.length > 0 || replying) && (
+        <ul className="space-y-3 border-l pl-4">
+          {children.map((reply) => (
+            <CommentItem
+              key={reply._id}
+              comment={reply}
+              replies={replies}
+              itemId={itemId}
+            />
+          ))}
+          {replying && (
+            <li>
+              <CommentForm
+                itemId={itemId}
+                parentCommentId={comment._id}
+                placeholder="Write a reply..."
+                onDone={() => setReplying(false)}
+              />
+            </li>
+          )}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+// Comments on a task or a project, with replies nested under what they answer
+export function CommentThread({ itemId }: { itemId: ItemId }) {
+  const comments = useQuery(api.comments.list, { itemId });
+
+  if (comments === undefined) return null;
+
+  const topLevel: Doc<"comments">[] = [];
+  const replies = new Map<string, Doc<"comments">[]>();
+  for (const comment of comments) {
+    if (comment.parentCommentId) {
+      const siblings = replies.get(comment.parentCommentId) ?? [];
+      replies.set(comment.parentCommentId, [...siblings, comment]);
+    } else {
+      topLevel.push(comment);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {topLevel.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          No comments yet
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {topLevel.map((comment) => (
+            <CommentItem
+              key={comment._id}
+              comment={comment}
+              replies={replies}
+              itemId={itemId}
+            />
+          ))}
+        </ul>
+      )}
+      <CommentForm itemId={itemId} placeholder="Add a comment..." />
+    </div>
+  );
+}
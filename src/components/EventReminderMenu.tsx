@@ -0,0 +1,108 @@
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
+import { BellIcon, BellRingIcon } from "lucide-react";
+
+const NO_REMINDER = "none";
+const REMINDER_OPTIONS = [
+  { label: "At start", minutes: 0 },
+  { label: "5 minutes before", minutes: 5 },
+  { label: "15 minutes before", minutes: 15 },
+  { label: "1 hour before", minutes: 60 },
+  { label: "1 day before", minutes: 24 * 60 },
+];
+
+interface EventReminderMenuProps {
+  event: {
+    _id: Id<"events">;
+    title: string;
+    startDate: number;
+    reminderTime?: number;
+  };
+}
+
+// Set or clear the reminder of an event, relative to when it starts
+export function EventReminderMenu({ event }: EventReminderMenuProps) {
+  const { toast } = useToast();
+  const { undoAction } = useUndo();
+  const updateReminder = useMutation(api.events.updateReminder);
+
+  const current =
+    event.reminderTime === undefined
+      ? NO_REMINDER
+      : String((event.startDate - event.reminderTime) / 60000);
+
+  const handleChange = async (value: string) => {
+    const option = REMINDER_OPTIONS.find((o) => String(o.minutes) === value);
+    try {
+      const { undoEntryId } = await updateReminder({
+        id: event._id,
+        reminderTime: option ? event.startDate - option.minutes * 60000 : null,
+      });
+      toast({
+        title: option ? "Reminder set" : "Reminder removed",
+        description: option
+          ? `"${event.title}": ${option.label.toLowerCase()}`
+          : `"${event.title}"`,
+        action: undoAction(undoEntryId),
+      });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: `Failed to update reminder: ${err instanceof Error ? err.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 text-muted-foreground"
+          aria-label={`Reminder for ${event.title}`}
+        >
+          {event.reminderTime === undefined ? (
+            <BellIcon className="h-3.5 w-3.5" />
+          ) : (
+            <BellRingIcon className="h-3.5 w-3.5 text-primary" />
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Remind me</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={current}
+          onValueChange={(value) => void handleChange(value)}
+        >
+          <DropdownMenuRadioItem value={NO_REMINDER}>
+            No reminder
+          </DropdownMenuRadioItem>
+          {REMINDER_OPTIONS.map(({ label, minutes }) => (
+            <DropdownMenuRadioItem
+              key={minutes}
+              value={String(minutes)}
+              // Reminders already in the past would go off straight away
+              disabled={event.startDate - minutes * 60000 <= Date.now()}
+            >
+              {label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
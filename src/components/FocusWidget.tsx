@@ -0,0 +1,364 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { endOfDay, startOfDay } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Progress } from "./ui/progress";
+import { Separator } from "./ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { useToast } from "../hooks/use-toast";
+import { useNow } from "../hooks/useNow";
+import { formatDuration, formatElapsed } from "../utils/duration";
+import {
+  PHASE_LABELS,
+  PomodoroPhase,
+  PomodoroSettings,
+  getNextPhase,
+  getPhaseMs,
+  loadPomodoroSettings,
+  savePomodoroSettings,
+} from "../utils/pomodoro";
+import {
+  CheckIcon,
+  PauseIcon,
+  PlayIcon,
+  PlusIcon,
+  RotateCcwIcon,
+  SettingsIcon,
+  SkipForwardIcon,
+} from "lucide-react";
+
+const SETTING_FIELDS: { key: keyof PomodoroSettings; label: string }[] = [
+  { key: "focusMinutes", label: "Focus (minutes)" },
+  { key: "shortBreakMinutes", label: "Short break (minutes)" },
+  { key: "longBreakMinutes", label: "Long break (minutes)" },
+  { key: "sessionsPerCycle", label: "Sessions per cycle" },
+];
+
+/**
+ * Pomodoro timer run against a task. Finished focus sessions are logged to
+ * Convex, after which the task can be completed or given a follow-up.
+ */
+export function FocusWidget() {
+  const { toast } = useToast();
+  const openTasks = useQuery(api.tasks.list, { completed: false }) || [];
+  const todayStart = startOfDay(new Date()).getTime();
+  const todaySessions =
+    useQuery(api.focusSessions.list, {
+      from: todayStart,
+      to: endOfDay(todayStart).getTime(),
+    }) || [];
+  const logSession = useMutation(api.focusSessions.log);
+  const toggleTask = useMutation(api.tasks.toggle);
+  const createTask = useMutation(api.tasks.create);
+
+  const [taskId, setTaskId] = useState<Id<"tasks"> | null>(null);
+  const [settings, setSettings] = useState(loadPomodoroSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [phase, setPhase] = useState<PomodoroPhase>("focus");
+  const [completedInCycle, setCompletedInCycle] = useState(0);
+  // Set while running; when paused, remainingMs holds what's left instead
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const [focusStartedAt, setFocusStartedAt] = useState<number | null>(null);
+  // Task of the focus session that just finished, until the user moves on
+  const [reviewTaskId, setReviewTaskId] = useState<Id<"tasks"> | null>(null);
+  const [followUpTitle, setFollowUpTitle] = useState("");
+
+  const now = useNow(1000, endsAt !== null);
+  const phaseMs = getPhaseMs(phase, settings);
+  const leftMs =
+    endsAt !== null ? Math.max(0, endsAt - now) : (remainingMs ?? phaseMs);
+  const reviewTask = openTasks.find((t) => t._id === reviewTaskId);
+  const focusedMs = todaySessions.reduce(
+    (total, session) => total + session.end - session.start,
+    0
+  );
+
+  const showError = (action: string, err: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${err instanceof Error ? err.message : "Unknown error"}`,
+      variant: "destructive",
+    });
+  };
+
+  const goToPhase = (next: PomodoroPhase) => {
+    if (phase === "longBreak") setCompletedInCycle(0);
+    setPhase(next);
+    setEndsAt(null);
+    setRemainingMs(null);
+    setFocusStartedAt(null);
+  };
+
+  const finishPhase = async (end: number) => {
+    if (phase !== "focus") {
+      goToPhase("focus");
+      toast({ title: "Break over", description: "Ready for the next one?" });
+      return;
+    }
+
+    const completed = completedInCycle + 1;
+    setCompletedInCycle(completed);
+    goToPhase(getNextPhase(phase, completed, settings));
+    toast({
+      title: "Focus session complete",
+      description: "Time for a break.",
+    });
+    if (!taskId) return;
+    setReviewTaskId(taskId);
+    try {
+      await logSession({ taskId, start: focusStartedAt ?? end - phaseMs, end });
+    } catch (err) {
+      showError("log focus session", err);
+    }
+  };
+
+  // The timeout always calls the latest finishPhase, which reads current state
+  const finishPhaseRef = useRef(finishPhase);
+  useEffect(() => {
+    finishPhaseRef.current = finishPhase;
+  });
+  useEffect(() => {
+    if (endsAt === null) return;
+    const timer = setTimeout(
+      () => void finishPhaseRef.current(endsAt),
+      Math.max(0, endsAt - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [endsAt]);
+
+  const handleStart = () => {
+    const start = Date.now();
+    setEndsAt(start + leftMs);
+    setRemainingMs(null);
+    if (phase === "focus" && focusStartedAt === null) setFocusStartedAt(start);
+    if (phase === "focus") setReviewTaskId(null);
+  };
+
+  const handlePause = () => {
+    setRemainingMs(leftMs);
+    setEndsAt(null);
+  };
+
+  // Skipping never logs a session or counts towards the cycle
+  const handleSkip = () => {
+    goToPhase(getNextPhase(phase, completedInCycle, settings));
+  };
+
+  const handleReset = () => {
+    goToPhase("focus");
+    setCompletedInCycle(0);
+  };
+
+  const handleSettingChange = (key: keyof PomodoroSettings, value: string) => {
+    const number = Math.floor(Number(value));
+    if (!Number.isFinite(number) || number < 1) return;
+    const next = { ...settings, [key]: number };
+    setSettings(next);
+    savePomodoroSettings(next);
+  };
+
+  const handleMarkDone = async () => {
+    if (!reviewTask) return;
+    try {
+      await toggleTask({ id: reviewTask._id });
+      if (taskId === reviewTask._id) setTaskId(null);
+      setReviewTaskId(null);
+    } catch (err) {
+      showError("complete task", err);
+    }
+  };
+
+  const handleAddFollowUp = async () => {
+    if (!reviewTask || !followUpTitle.trim()) return;
+    try {
+      const { result: followUpId } = await createTask({
+        title: followUpTitle.trim(),
+        priority: reviewTask.priority ?? "medium",
+        tags: reviewTask.tags ?? [],
+        projectId: reviewTask.projectId,
+      });
+      setFollowUpTitle("");
+      // Focus on the follow-up next
+      setTaskId(followUpId);
+      toast({
+        title: "Follow-up added",
+        description: `"${followUpTitle.trim()}" is selected for the next session.`,
+      });
+    } catch (err) {
+      showError("add follow-up", err);
+    }
+  };
+
+  const isRunning = endsAt !== null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl font-heading">Focus</CardTitle>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowSettings(!showSettings)}
+            className={showSettings ? "bg-muted" : ""}
+            aria-label="Pomodoro settings"
+          >
+            <SettingsIcon className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <Separator />
+      <CardContent className="pt-6 space-y-6">
+        {showSettings && (
+          <div className="grid grid-cols-2 gap-4 rounded-md border p-4 sm:grid-cols-4">
+            {SETTING_FIELDS.map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`pomodoro-${key}`}>{label}</Label>
+                <Input
+                  id={`pomodoro-${key}`}
+                  type="number"
+                  min={1}
+                  value={settings[key]}
+                  disabled={isRunning}
+                  onChange={(e) => handleSettingChange(key, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="focus-task">Task</Label>
+          <Select
+            value={taskId ?? undefined}
+            onValueChange={(value) => setTaskId(value as Id<"tasks">)}
+            disabled={isRunning}
+          >
+            <SelectTrigger id="focus-task">
+              <SelectValue placeholder="What are you working on?" />
+            </SelectTrigger>
+            <SelectContent>
+              {openTasks.map((task) => (
+                <SelectItem key={task._id} value={task._id}>
+                  {task.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-col items-center gap-4 py-4">
+          <span className="text-sm font-medium text-muted-foreground">
+            {PHASE_LABELS[phase]}
+          </span>
+          <span className="font-mono text-6xl tabular-nums">
+            {formatElapsed(Math.ceil(leftMs / 1000) * 1000)}
+          </span>
+          <Progress
+            value={((phaseMs - leftMs) / phaseMs) * 100}
+            className="h-2 w-full max-w-sm"
+          />
+          <div className="flex gap-1" aria-label="Sessions this cycle">
+            {Array.from({ length: settings.sessionsPerCycle }, (_, i) => (
+              <span
+                key={i}
+                className={`h-2 w-2 rounded-full ${
+                  i < completedInCycle ? "bg-primary" : "bg-muted"
+                }`}
+              />
+            ))}
+          </div>
+          <div className="flex gap-2">
+            {isRunning ? (
+              <Button onClick={handlePause}>
+                <PauseIcon className="mr-2 h-4 w-4" />
+                Pause
+              </Button>
+            ) : (
+              <Button
+                onClick={handleStart}
+                disabled={phase === "focus" && !taskId}
+              >
+                <PlayIcon className="mr-2 h-4 w-4" />
+                {phase === "focus" ? "Start focus" : "Start break"}
+              </Button>
+            )}
+            <Button variant="outline" onClick={handleSkip}>
+              <SkipForwardIcon className="mr-2 h-4 w-4" />
+              Skip
+            </Button>
+            <Button variant="ghost" size="icon" onClick={handleReset}>
+              <RotateCcwIcon className="h-4 w-4" />
+              <span className="sr-only">Reset cycle</span>
+            </Button>
+          </div>
+        </div>
+
+        {reviewTask && (
+          <div className="rounded-md border p-4 space-y-3">
+            <p className="text-sm">
+              Session finished on{" "}
+              <span className="font-medium">{reviewTask.title}</span>. How did
+              it go?
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  void handleMarkDone();
+                }}
+              >
+                <CheckIcon className="mr-2 h-4 w-4" />
+                Mark task done
+              </Button>
+              <Button variant="ghost" onClick={() => setReviewTaskId(null)}>
+                Keep going
+              </Button>
+            </div>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                void handleAddFollowUp();
+              }}
+              className="flex gap-2"
+            >
+              <Input
+                placeholder="Add a follow-up task..."
+                value={followUpTitle}
+                onChange={(e) => setFollowUpTitle(e.target.value)}
+              />
+              <Button
+                type="submit"
+                variant="outline"
+                size="icon"
+                disabled={!followUpTitle.trim()}
+              >
+                <PlusIcon className="h-4 w-4" />
+              </Button>
+            </form>
+          </div>
+        )}
+
+        <p className="text-center text-sm text-muted-foreground">
+          {todaySessions.length === 0
+            ? "No focus sessions yet today"
+            : `${todaySessions.length} ${
+                todaySessions.length === 1 ? "session" : "sessions"
+              } today · ${formatDuration(focusedMs)} focused`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,36 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { MessageSquareIcon, PaperclipIcon } from "lucide-react";
+
+// Comment and attachment counts for a task or project card; shows nothing
+// when there are neither
+export function ItemCounts({ itemId }: { itemId: string }) {
+  const commentCounts = useQuery(api.comments.counts) ?? {};
+  const attachmentCounts = useQuery(api.attachments.counts) ?? {};
+  const comments = commentCounts[itemId] ?? 0;
+  const attachments = attachmentCounts[itemId] ?? 0;
+
+  if (comments === 0 && attachments === 0) return null;
+  return (
+    <span className="flex items-center gap-2 text-xs text-muted-foreground">
+      {comments > 0 && (
+        <span
+          className="flex items-center gap-1"
+          title={`${comments} comment${comments === 1 ? "" : "s"}`}
+        >
+          <MessageSquareIcon className="h-3 w-3" />
+          {comments}
+        </span>
+      )}
+      {attachments > 0 && (
+        <span
+          className="flex items-center gap-1"
+          title={`${attachments} attachment${attachments === 1 ? "" : "s"}`}
+        >
+          <PaperclipIcon className="h-3 w-3" />
+          {attachments}
+        </span>
+      )}
+    </span>
+  );
+}
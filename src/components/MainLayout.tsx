@@ -17,7 +17,10 @@ import { CalendarTimeline } from "./CalendarTimeline";
 import { Button } from "./ui/button";
 import { useGoogleCalendar } from "../hooks/useGoogleCalendar";
 import { useToast } from "../hooks/use-toast";
+import { useReminderNotifications } from "../hooks/useReminderNotifications";
+import { useUndoShortcuts } from "../hooks/useUndo";
 import { AppSidebar } from "./AppSidebar";
+import { RunningTimer } from "./RunningTimer";
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -41,6 +44,8 @@ function ResponsiveContent({ children }: { children: React.ReactNode }) {
   });
 
   const { toast } = useToast();
+  useReminderNotifications();
+  useUndoShortcuts();
   const {
     isLoading,
     isAuthorized,
@@ -158,6 +163,7 @@ function ResponsiveContent({ children }: { children: React.ReactNode }) {
         </div>
 
         <div className="flex items-center gap-2">
+          <RunningTimer />
           <Button
             variant={isAuthorized ? "default" : "outline"}
             size="sm"
@@ -232,13 +238,20 @@ export function MainLayout({ children }: MainLayoutProps) {
     // Set active item based on current route
     const path = location.pathname;
     if (path === "/") setActiveItem("inbox");
-    else if (path.includes("/tasks")) setActiveItem("tasks");
-    else if (path.includes("/projects")) setActiveItem("projects");
+    else if (path.includes("/today")) setActiveItem("today");
+    else if (path.includes("/upcoming")) setActiveItem("upcoming");
+    else if (path.includes("/tasks")) {
+      const viewId = new URLSearchParams(location.search).get("view");
+      setActiveItem(viewId ? `view:${viewId}` : "tasks");
+    } else if (path.includes("/projects")) setActiveItem("projects");
     else if (path.includes("/calendar")) setActiveItem("calendar");
     else if (path.includes("/notes")) setActiveItem("notes");
     else if (path.includes("/bookmarks")) setActiveItem("bookmarks");
+    else if (path.includes("/time")) setActiveItem("time");
+    else if (path.includes("/focus")) setActiveItem("focus");
+    else if (path.includes("/trash")) setActiveItem("trash");
     else setActiveItem("tasks");
-  }, [location.pathname]);
+  }, [location.pathname, location.search]);
 
   const handleNavigation = (item: { id: string; path: string }) => {
     setActiveItem(item.id);
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { format, parse, startOfDay } from "date-fns";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { FunctionReturnType } from "convex/server";
+import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Progress } from "./ui/progress";
+import { CheckIcon, PencilIcon, Trash2Icon, XIcon } from "lucide-react";
+import {
+  MILESTONE_STATUS_LABELS,
+  formatMilestoneDue,
+  getMilestoneStatusColor,
+} from "../utils/milestones";
+
+type Milestone = FunctionReturnType<typeof api.milestones.list>[number];
+
+const toDateInput = (timestamp: number) => format(timestamp, "yyyy-MM-dd");
+const fromDateInput = (value: string) =>
+  parse(value, "yyyy-MM-dd", new Date()).getTime();
+
+// A project's milestones, each rolled up from the tasks assigned to it
+export function MilestoneList({ projectId }: { projectId: Id<"projects"> }) {
+  const { toast } = useToast();
+  const { undoAction } = useUndo();
+  const milestones =
+    useQuery(api.milestones.list, {
+      projectId,
+      today: startOfDay(new Date()).getTime(),
+    }) || [];
+  const createMilestone = useMutation(api.milestones.create);
+  const updateMilestone = useMutation(api.milestones.update);
+  const removeMilestone = useMutation(api.milestones.remove);
+  // Bumped to clear the add form once a milestone is created
+  const [addFormKey, setAddFormKey] = useState(0);
+  const [editingId, setEditingId] = useState<Id<"milestones"> | null>(null);
+
+  const showError = (action: string, err: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${err instanceof Error ? err.message : "Unknown error"}`,
+      variant: "destructive",
+    });
+  };
+
+  const handleCreate = async (fields: { title: string; dueDate: string }) => {
+    try {
+      await createMilestone({
+        projectId,
+        title: fields.title,
+        dueDate: fromDateInput(fields.dueDate),
+      });
+      setAddFormKey((key) => key + 1);
+    } catch (err) {
+      showError("create milestone", err);
+    }
+  };
+
+  const handleUpdate = async (
+    id: Id<"milestones">,
+    fields: { title: string; dueDate: string }
+  ) => {
+    try {
+      await updateMilestone({
+        id,
+        title: fields.title,
+        dueDate: fromDateInput(fields.dueDate),
+      });
+      setEditingId(null);
+    } catch (err) {
+      showError("update milestone", err);
+    }
+  };
+
+  const handleRemove = async (milestone: Milestone) => {
+    try {
+      const { undoEntryId } = await removeMilestone({ id: milestone._id });
+      toast({
+        title: "Milestone deleted",
+        description: `"${milestone.title}"`,
+        action: undoAction(undoEntryId),
+      });
+    } catch (err) {
+      showError("delete milestone", err);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {milestones.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No milestones yet. Assign tasks to a milestone from their details.
+        </p>
+      )}
+      <ul className="space-y-3">
+        {milestones.map((milestone) =>
+          milestone._id === editingId ? (
+            <li key={milestone._id}>
+              <MilestoneForm
+                initialTitle={milestone.title}
+                initialDueDate={toDateInput(milestone.dueDate)}
+                onSubmit={(fields) => void handleUpdate(milestone._id, fields)}
+                onCancel={() => setEditingId(null)}
+              />
+            </li>
+          ) : (
+            <li key={milestone._id} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-sm font-medium truncate">
+                    {milestone.title}
+                  </span>
+                  <Badge className={getMilestoneStatusColor(milestone.status)}>
+                    {MILESTONE_STATUS_LABELS[milestone.status]}
+                  </Badge>
+                </div>
+                <div className="flex items-center">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setEditingId(milestone._id)}
+                    aria-label="Edit milestone"
+                  >
+                    <PencilIcon className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    onClick={() => void handleRemove(milestone)}
+                    aria-label="Delete milestone"
+                  >
+                    <Trash2Icon className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>
+                  {milestone.status === "done"
+                    ? `Due ${format(milestone.dueDate, "MMM d")}`
+                    : formatMilestoneDue(milestone.dueDate, milestone.daysLeft)}
+                </span>
+                <span>
+                  {milestone.completedTaskCount} of {milestone.taskCount} tasks
+                </span>
+              </div>
+              <Progress value={milestone.progress} className="h-1.5" />
+            </li>
+          )
+        )}
+      </ul>
+      <MilestoneForm
+        key={addFormKey}
+        initialTitle=""
+        initialDueDate=""
+        onSubmit={(fields) => void handleCreate(fields)}
+        submitLabel="Add milestone"
+      />
+    </div>
+  );
+}
+
+function MilestoneForm({
+  initialTitle,
+  initialDueDate,
+  onSubmit,
+  onCancel,
+  submitLabel,
+}: {
+  initialTitle: string;
+  initialDueDate: string;
+  onSubmit: (fields: { title: string; dueDate: string }) => void;
+  onCancel?: () => void;
+  submitLabel?: string;
+}) {
+  const [title, setTitle] = useState(initialTitle);
+  const [dueDate, setDueDate] = useState(initialDueDate);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit({ title, dueDate });
+      }}
+      className="flex flex-wrap items-center gap-2"
+    >
+      <Input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Milestone"
+        className="flex-1 min-w-[10rem]"
+      />
+      <Input
+        type="date"
+        value={dueDate}
+        onChange={(e) => setDueDate(e.target.value)}
+        className="w-[10rem]"
+      />
+      {submitLabel ? (
+        <Button type="submit" disabled={!title.trim() || !dueDate}>
+          {submitLabel}
+        </Button>
+      ) : (
+        <>
+          <Button
+            type="submit"
+            size="icon"
+            disabled={!title.trim() || !dueDate}
+            aria-label="Save milestone"
+          >
+            <CheckIcon className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={onCancel}
+            aria-label="Cancel"
+          >
+            <XIcon className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+    </form>
+  );
+}
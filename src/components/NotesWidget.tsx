@@ -1,8 +1,40 @@
-import { useQuery } from "convex/react";
+import { useMutation, usePaginatedQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import { Doc } from "../../convex/_generated/dataModel";
+import { Button } from "./ui/button";
+import { ActivityHistoryButton } from "./ActivityLog";
+import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
+import { Trash2Icon } from "lucide-react";
+
+const PAGE_SIZE = 10;
 
 export function NotesWidget() {
-  const notes = useQuery(api.notes.list) || [];
+  const {
+    results: notes,
+    status,
+    loadMore,
+  } = usePaginatedQuery(api.notes.list, {}, { initialNumItems: PAGE_SIZE });
+  const removeNote = useMutation(api.notes.remove);
+  const { toast } = useToast();
+  const { undoAction } = useUndo();
+
+  const handleDelete = async (note: Doc<"notes">) => {
+    try {
+      const { undoEntryId } = await removeNote({ id: note._id });
+      toast({
+        title: "Moved to trash",
+        description: `"${note.title}" can be restored from the trash`,
+        action: undoAction(undoEntryId),
+      });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: `Failed to delete note: ${err instanceof Error ? err.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  };
 
   return (
     <div className="bg-card rounded-lg border shadow-sm p-6">
@@ -29,9 +61,24 @@ export function NotesWidget() {
                   <h3 className="font-medium">{note.title}</h3>
                   {note.isPinned && <span className="text-amber-500">📌</span>}
                 </div>
-                <span className="text-xs px-2 py-0.5 rounded-full bg-secondary">
-                  {note.category || "other"}
-                </span>
+                <div className="flex items-center gap-1">
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-secondary">
+                    {note.category || "other"}
+                  </span>
+                  <ActivityHistoryButton
+                    entityId={note._id}
+                    title={note.title}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-muted-foreground hover:text-destructive"
+                    onClick={() => void handleDelete(note)}
+                    aria-label={`Delete ${note.title}`}
+                  >
+                    <Trash2Icon className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
               </div>
               <p className="text-sm text-muted-foreground mt-2">
                 {note.content}
@@ -57,6 +104,17 @@ export function NotesWidget() {
             </div>
           ))
         )}
+        {(status === "CanLoadMore" || status === "LoadingMore") && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full text-muted-foreground"
+            disabled={status === "LoadingMore"}
+            onClick={() => loadMore(PAGE_SIZE)}
+          >
+            {status === "LoadingMore" ? "Loading..." : "Show more notes"}
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,81 @@
+import { Link } from "react-router-dom";
+import { Doc } from "../../convex/_generated/dataModel";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { ActivityHistory } from "./ActivityLog";
+import { CommentThread } from "./CommentThread";
+import { AttachmentList } from "./AttachmentList";
+import { ProjectProgressSettings } from "./ProjectProgressSettings";
+import { ExternalLinkIcon } from "lucide-react";
+
+interface ProjectDetailDialogProps {
+  project: Doc<"projects"> | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Discussion, files, progress and history of a project
+export function ProjectDetailTabs({ project }: { project: Doc<"projects"> }) {
+  return (
+    <Tabs key={project._id} defaultValue="comments">
+      <TabsList>
+        <TabsTrigger value="comments">Comments</TabsTrigger>
+        <TabsTrigger value="files">Files</TabsTrigger>
+        <TabsTrigger value="progress">Progress</TabsTrigger>
+        <TabsTrigger value="history">History</TabsTrigger>
+      </TabsList>
+      <TabsContent value="comments" className="max-h-[60vh] overflow-y-auto">
+        <CommentThread itemId={project._id} />
+      </TabsContent>
+      <TabsContent value="files" className="max-h-[60vh] overflow-y-auto">
+        <AttachmentList itemId={project._id} />
+      </TabsContent>
+      <TabsContent value="progress">
+        <ProjectProgressSettings project={project} />
+      </TabsContent>
+      <TabsContent value="history" className="max-h-[60vh] overflow-y-auto">
+        <ActivityHistory entityId={project._id} />
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+export function ProjectDetailDialog({
+  project,
+  onOpenChange,
+}: ProjectDetailDialogProps) {
+  return (
+    <Dialog open={project !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="font-heading">{project?.title}</DialogTitle>
+          <DialogDescription>
+            {project?.description || "Comments and files for this project"}
+          </DialogDescription>
+        </DialogHeader>
+        {project && (
+          <>
+            <ProjectDetailTabs project={project} />
+            <Button
+              variant="outline"
+              size="sm"
+              className="justify-self-start"
+              asChild
+            >
+              <Link to={`/projects/${project._id}`}>
+                <ExternalLinkIcon className="mr-2 h-4 w-4" />
+                Open project page
+              </Link>
+            </Button>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc } from "../../convex/_generated/dataModel";
+import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Progress } from "./ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+type ProgressMode = NonNullable<Doc<"projects">["progressMode"]>;
+type ProgressWeighting = NonNullable<Doc<"projects">["progressWeighting"]>;
+
+const WEIGHTING_HINTS: Record<ProgressWeighting, string> = {
+  count: "Every task counts the same.",
+  estimate:
+    "Tasks count by their estimate. Tasks without one count as the average.",
+  priority: "High priority tasks count three times as much as low ones.",
+};
+
+// Choose whether a project's progress follows its tasks or is set by hand
+export function ProjectProgressSettings({
+  project,
+}: {
+  project: Doc<"projects">;
+}) {
+  const { toast } = useToast();
+  const { undoAction } = useUndo();
+  const updateProgress = useMutation(api.projects.updateProgress);
+  const mode: ProgressMode = project.progressMode ?? "manual";
+  const weighting: ProgressWeighting = project.progressWeighting ?? "count";
+  const [manualProgress, setManualProgress] = useState(
+    String(project.progress ?? 0)
+  );
+
+  const save = async (args: {
+    progressMode?: ProgressMode;
+    progressWeighting?: ProgressWeighting;
+    progress?: number;
+  }) => {
+    try {
+      const { undoEntryId } = await updateProgress({
+        id: project._id,
+        ...args,
+      });
+      toast({
+        title: "Progress updated",
+        description: `"${project.title}"`,
+        action: undoAction(undoEntryId),
+      });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: `Failed to update progress: ${err instanceof Error ? err.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="grid gap-4">
+      <div>
+        <div className="mb-1 flex justify-between text-xs text-muted-foreground">
+          <span>
+            {project.taskCount
+              ? `${project.completedTaskCount ?? 0} of ${project.taskCount} tasks done`
+              : "No tasks in this project yet"}
+          </span>
+          <span>{project.progress ?? 0}%</span>
+        </div>
+        <Progress value={project.progress ?? 0} className="h-1.5" />
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="progress-mode">Progress</Label>
+        <Select
+          value={mode}
+          onValueChange={(value) =>
+            void save({ progressMode: value as ProgressMode })
+          }
+        >
+          <SelectTrigger id="progress-mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="auto">From completed tasks</SelectItem>
+            <SelectItem value="manual">Set manually</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {mode === "auto" ? (
+        <div className="grid gap-2">
+          <Label htmlFor="progress-weighting">Weight tasks by</Label>
+          <Select
+            value={weighting}
+            onValueChange={(value) =>
+              void save({ progressWeighting: value as ProgressWeighting })
+            }
+          >
+            <SelectTrigger id="progress-weighting">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="count">Number of tasks</SelectItem>
+              <SelectItem value="estimate">Estimate</SelectItem>
+              <SelectItem value="priority">Priority</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {WEIGHTING_HINTS[weighting]}
+          </p>
+        </div>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            void save({ progress: Number(manualProgress) });
+          }}
+          className="grid gap-2"
+        >
+          <Label htmlFor="progress-value">Progress (%)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="progress-value"
+              type="number"
+              min={0}
+              max={100}
+              value={manualProgress}
+              onChange={(e) => setManualProgress(e.target.value)}
+            />
+            <Button type="submit" disabled={manualProgress === ""}>
+              Save
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,410 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import { addDays, differenceInCalendarDays, startOfDay } from "date-fns";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
+import { Button } from "./ui/button";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import { ChevronDownIcon, ChevronRightIcon } from "lucide-react";
+import { getProjectStatusColor } from "../utils/projects";
+import {
+  DAY_WIDTH,
+  DateSpan,
+  DragMode,
+  TimelineZoom,
+  dragSpan,
+  getTimelineRange,
+  getTimelineTicks,
+} from "../utils/timeline";
+
+type TimelineProject = FunctionReturnType<
+  typeof api.projects.listTimeline
+>[number];
+
+const LABEL_WIDTH = 200;
+const ROW_HEIGHT = 36;
+// New projects scheduled from the timeline get this many days
+const DEFAULT_PROJECT_DAYS = 14;
+
+// What's being dragged, and by how many whole days so far
+interface DragState {
+  kind: "project" | "milestone" | "task";
+  id: string;
+  mode: DragMode;
+  originX: number;
+  days: number;
+}
+
+// A project's dates as a bar; a project with one date is a one-day bar
+function getProjectSpan(project: TimelineProject): DateSpan | null {
+  const start = project.startDate ?? project.dueDate;
+  const end = project.dueDate ?? project.startDate;
+  if (start === undefined || end === undefined) return null;
+  return { start, end };
+}
+
+/**
+ * Projects as bars between their start and due dates, with their
+ * milestones and dated tasks. Bars can be dragged to move them or by their
+ * ends to change one date; milestones and tasks drag to a new due date.
+ */
+export function ProjectTimeline({
+  onOpenProject,
+}: {
+  onOpenProject: (id: Id<"projects">) => void;
+}) {
+  const { toast } = useToast();
+  const { undoAction } = useUndo();
+  const projects = useQuery(api.projects.listTimeline) || [];
+  const reschedule = useMutation(api.projects.reschedule);
+  const updateMilestone = useMutation(api.milestones.update);
+  const updateTask = useMutation(api.tasks.update);
+  const [zoom, setZoom] = useState<TimelineZoom>("month");
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const today = startOfDay(new Date());
+  const scheduled = projects.filter((project) => getProjectSpan(project));
+  const unscheduled = projects.filter((project) => !getProjectSpan(project));
+  const { start, days } = getTimelineRange(
+    scheduled.flatMap((project) => {
+      const span = getProjectSpan(project);
+      return [
+        ...(span ? [span.start, span.end] : []),
+        ...project.milestones.map((milestone) => milestone.dueDate),
+        ...project.tasks.map((task) => task.dueDate ?? today.getTime()),
+      ];
+    }),
+    today
+  );
+  const dayWidth = DAY_WIDTH[zoom];
+  const offset = (time: number) =>
+    differenceInCalendarDays(time, start) * dayWidth;
+  const todayOffset = offset(today.getTime());
+
+  // Keep today in view as the zoom changes
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    container.scrollLeft = Math.max(0, todayOffset - container.clientWidth / 3);
+  }, [todayOffset]);
+
+  // The drag in progress on this item, if any
+  const activeDrag = (kind: DragState["kind"], id: string) =>
+    drag && drag.kind === kind && drag.id === id ? drag : null;
+
+  const showError = (action: string, err: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${err instanceof Error ? err.message : "Unknown error"}`,
+      variant: "destructive",
+    });
+  };
+
+  const commitDrag = async (finished: DragState) => {
+    try {
+      if (finished.kind === "project") {
+        const project = projects.find((p) => p._id === finished.id);
+        const span = project && getProjectSpan(project);
+        if (!project || !span) return;
+        const next = dragSpan(span, finished.mode, finished.days);
+        const { undoEntryId } = await reschedule({
+          id: project._id,
+          startDate: next.start,
+          dueDate: next.end,
+        });
+        toast({
+          title: "Project rescheduled",
+          description: `"${project.title}"`,
+          action: undoAction(undoEntryId),
+        });
+      } else if (finished.kind === "milestone") {
+        const milestone = projects
+          .flatMap((p) => p.milestones)
+          .find((m) => m._id === finished.id);
+        if (!milestone) return;
+        const { undoEntryId } = await updateMilestone({
+          id: milestone._id,
+          dueDate: addDays(milestone.dueDate, finished.days).getTime(),
+        });
+        toast({
+          title: "Milestone moved",
+          description: `"${milestone.title}"`,
+          action: undoAction(undoEntryId),
+        });
+      } else {
+        const task = projects
+          .flatMap((p) => p.tasks)
+          .find((t) => t._id === finished.id);
+        if (!task?.dueDate) return;
+        const { undoEntryId } = await updateTask({
+          id: task._id,
+          dueDate: addDays(task.dueDate, finished.days).getTime(),
+        });
+        toast({
+          title: "Task rescheduled",
+          description: `"${task.title}"`,
+          action: undoAction(undoEntryId),
+        });
+      }
+    } catch (err) {
+      showError(`reschedule ${finished.kind}`, err);
+    }
+  };
+
+  // Pointer handlers for a draggable bar, bar end or marker. The pointer is
+  // captured so the drag carries on outside the element.
+  const dragHandlers = (
+    kind: DragState["kind"],
+    id: string,
+    mode: DragMode = "move"
+  ) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      if (e.button !== 0) return;
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDrag({ kind, id, mode, originX: e.clientX, days: 0 });
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      if (!drag) return;
+      const moved = Math.round((e.clientX - drag.originX) / dayWidth);
+      if (moved !== drag.days) setDrag({ ...drag, days: moved });
+    },
+    onPointerUp: (e: React.PointerEvent) => {
+      e.stopPropagation();
+      if (!drag) return;
+      setDrag(null);
+      if (drag.days !== 0) void commitDrag(drag);
+      // A bar that didn't move was clicked
+      else if (kind === "project" && mode === "move") {
+        onOpenProject(id as Id<"projects">);
+      }
+    },
+    onPointerCancel: () => setDrag(null),
+  });
+
+  const handleSchedule = async (project: TimelineProject) => {
+    try {
+      await reschedule({
+        id: project._id,
+        startDate: today.getTime(),
+        dueDate: addDays(today, DEFAULT_PROJECT_DAYS).getTime(),
+      });
+    } catch (err) {
+      showError("schedule project", err);
+    }
+  };
+
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expandedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExpandedIds(next);
+  };
+
+  const renderProjectRow = (project: TimelineProject) => {
+    const saved = getProjectSpan(project);
+    if (!saved) return null;
+    const dragged = activeDrag("project", project._id);
+    const span = dragged ? dragSpan(saved, dragged.mode, dragged.days) : saved;
+    const left = offset(span.start);
+    const width = offset(span.end) - left + dayWidth;
+    const expanded = expandedIds.has(project._id);
+
+    return (
+      <div key={project._id}>
+        <div className="flex border-t" style={{ height: ROW_HEIGHT }}>
+          <div
+            className="sticky left-0 z-10 flex items-center gap-1 border-r bg-background px-2"
+            style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+          >
+            <button
+              type="button"
+              onClick={() => toggleExpanded(project._id)}
+              className={`text-muted-foreground hover:text-foreground ${
+                project.tasks.length === 0 ? "invisible" : ""
+              }`}
+              aria-label={expanded ? "Hide tasks" : "Show tasks"}
+            >
+              {expanded ? (
+                <ChevronDownIcon className="h-4 w-4" />
+              ) : (
+                <ChevronRightIcon className="h-4 w-4" />
+              )}
+            </button>
+            <button
+              type="button"
+              onClick={() => onOpenProject(project._id)}
+              className="truncate text-left text-sm font-medium hover:underline"
+            >
+              {project.title}
+            </button>
+          </div>
+          <div className="relative flex-1">
+            <div
+              {...dragHandlers("project", project._id)}
+              className={`absolute top-2 bottom-2 cursor-grab touch-none select-none overflow-hidden rounded ${getProjectStatusColor(
+                project.status
+              )} ${dragged ? "cursor-grabbing shadow-md" : ""}`}
+              style={{ left, width }}
+              title={project.title}
+            >
+              <div
+                className="h-full bg-current opacity-20"
+                style={{ width: `${project.progress ?? 0}%` }}
+              />
+              <div
+                {...dragHandlers("project", project._id, "start")}
+                className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize"
+              />
+              <div
+                {...dragHandlers("project", project._id, "end")}
+                className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize"
+              />
+            </div>
+            {project.milestones.map((milestone) => {
+              const moved = activeDrag("milestone", milestone._id);
+              const dueDate = addDays(
+                milestone.dueDate,
+                moved?.days ?? 0
+              ).getTime();
+              return (
+                <div
+                  key={milestone._id}
+                  {...dragHandlers("milestone", milestone._id)}
+                  className="absolute top-1/2 z-[1] h-3 w-3 -translate-y-1/2 rotate-45 cursor-grab touch-none border border-background bg-foreground"
+                  style={{ left: offset(dueDate) + dayWidth / 2 - 6 }}
+                  title={`${milestone.title} (milestone)`}
+                />
+              );
+            })}
+          </div>
+        </div>
+        {expanded &&
+          project.tasks.map((task) => {
+            if (task.dueDate === undefined) return null;
+            const moved = activeDrag("task", task._id);
+            const dueDate = addDays(task.dueDate, moved?.days ?? 0).getTime();
+            return (
+              <div
+                key={task._id}
+                className="flex border-t border-dashed"
+                style={{ height: ROW_HEIGHT - 8 }}
+              >
+                <div
+                  className="sticky left-0 z-10 flex items-center border-r bg-background pl-8 pr-2"
+                  style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+                >
+                  <span
+                    className={`truncate text-xs ${
+                      task.completed ? "text-muted-foreground line-through" : ""
+                    }`}
+                  >
+                    {task.title}
+                  </span>
+                </div>
+                <div className="relative flex-1">
+                  <div
+                    {...dragHandlers("task", task._id)}
+                    className={`absolute top-1/2 h-2.5 w-2.5 -translate-y-1/2 cursor-grab touch-none rounded-full ${
+                      task.completed ? "bg-muted-foreground" : "bg-primary"
+                    }`}
+                    style={{ left: offset(dueDate) + dayWidth / 2 - 5 }}
+                    title={task.title}
+                  />
+                </div>
+              </div>
+            );
+          })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          Drag a bar to move a project, or its ends to change its dates.
+        </p>
+        <Tabs value={zoom} onValueChange={(v) => setZoom(v as TimelineZoom)}>
+          <TabsList>
+            <TabsTrigger value="week">Week</TabsTrigger>
+            <TabsTrigger value="month">Month</TabsTrigger>
+            <TabsTrigger value="quarter">Quarter</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+      <div ref={scrollRef} className="overflow-x-auto rounded-md border">
+        <div
+          className="relative"
+          style={{ width: LABEL_WIDTH + days * dayWidth }}
+        >
+          <div className="flex" style={{ height: ROW_HEIGHT - 8 }}>
+            <div
+              className="sticky left-0 z-10 flex items-center border-r bg-background px-2 text-xs font-medium text-muted-foreground"
+              style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+            >
+              Project
+            </div>
+            <div className="relative flex-1">
+              {getTimelineTicks(start, days, zoom).map((tick) => (
+                <span
+                  key={tick.index}
+                  className="absolute top-1.5 whitespace-nowrap border-l pl-1 text-[10px] text-muted-foreground"
+                  style={{ left: tick.index * dayWidth }}
+                >
+                  {tick.label}
+                </span>
+              ))}
+            </div>
+          </div>
+          {scheduled.map(renderProjectRow)}
+          {scheduled.length === 0 && (
+            <div className="border-t py-6 text-center text-sm text-muted-foreground">
+              No projects with dates yet
+            </div>
+          )}
+          <div
+            className="pointer-events-none absolute inset-y-0 w-px bg-destructive"
+            style={{ left: LABEL_WIDTH + todayOffset + dayWidth / 2 }}
+            aria-hidden
+          />
+        </div>
+      </div>
+      {unscheduled.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">
+            Without dates
+          </p>
+          <ul className="space-y-1">
+            {unscheduled.map((project) => (
+              <li
+                key={project._id}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <button
+                  type="button"
+                  onClick={() => onOpenProject(project._id)}
+                  className="truncate text-left hover:underline"
+                >
+                  {project.title}
+                </button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => void handleSchedule(project)}
+                >
+                  Schedule from today
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,48 +1,56 @@
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { useState } from "react";
+import { startOfDay } from "date-fns";
 import { Doc, Id } from "../../convex/_generated/dataModel";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
 import { Separator } from "./ui/separator";
 import { Progress } from "./ui/progress";
-import { ListIcon, KanbanIcon } from "lucide-react";
+import { Button } from "./ui/button";
+import { ProjectDetailDialog } from "./ProjectDetailDialog";
+import { ProjectTimeline } from "./ProjectTimeline";
+import { ItemCounts } from "./ItemCounts";
+import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
+import {
+  ListIcon,
+  KanbanIcon,
+  FlagIcon,
+  GanttChartIcon,
+  Trash2Icon,
+} from "lucide-react";
+import { getDropNeighbours, isOverUpperHalf } from "../utils/ordering";
+import {
+  getProgressLabel,
+  getProjectPriorityColor,
+  getProjectStatusColor,
+} from "../utils/projects";
+import {
+  MILESTONE_STATUS_LABELS,
+  formatMilestoneDue,
+  getMilestoneStatusColor,
+} from "../utils/milestones";
 
-type ViewType = "kanban" | "list";
+type ViewType = "kanban" | "list" | "timeline";
 
 export function ProjectsWidget() {
   const [view, setView] = useState<ViewType>("kanban");
   const projects = useQuery(api.projects.list) || [];
-  const updateProjectStatus = useMutation(api.projects.updateStatus);
-
-  const getStatusColor = (status: string | undefined) => {
-    switch (status) {
-      case "planning":
-        return "bg-blue-100 text-blue-600";
-      case "in_progress":
-        return "bg-amber-100 text-amber-600";
-      case "review":
-        return "bg-purple-100 text-purple-600";
-      case "completed":
-        return "bg-emerald-100 text-emerald-600";
-      default:
-        return "bg-muted text-muted-foreground";
-    }
-  };
-
-  const getPriorityColor = (priority: string | undefined) => {
-    switch (priority) {
-      case "high":
-        return "bg-destructive/20 text-destructive";
-      case "medium":
-        return "bg-amber-100 text-amber-600";
-      case "low":
-        return "bg-emerald-100 text-emerald-600";
-      default:
-        return "bg-muted text-muted-foreground";
-    }
-  };
+  const nextMilestones =
+    useQuery(api.milestones.listNext, {
+      today: startOfDay(new Date()).getTime(),
+    }) ?? {};
+  const reorderProject = useMutation(api.projects.reorder);
+  const removeProject = useMutation(api.projects.remove);
+  const [openProjectId, setOpenProjectId] = useState<Id<"projects"> | null>(
+    null
+  );
+  // Looked up in the live list so the dialog closes if the project goes away
+  const openProject = projects.find((p) => p._id === openProjectId) ?? null;
+  const { toast } = useToast();
+  const { undoAction } = useUndo();
 
   const handleDragStart = (e: React.DragEvent, projectId: Id<"projects">) => {
     e.dataTransfer.setData("projectId", projectId);
@@ -52,10 +60,84 @@ export function ProjectsWidget() {
     e.preventDefault();
   };
 
-  const handleDrop = async (e: React.DragEvent, status: string) => {
+  // Dropping on a card places the project above or below it; dropping on the
+  // column background moves it to the end of the column
+  const handleDrop = async (
+    e: React.DragEvent,
+    status: string,
+    columnProjects: Doc<"projects">[],
+    overProjectId?: Id<"projects">
+  ) => {
     e.preventDefault();
     const projectId = e.dataTransfer.getData("projectId") as Id<"projects">;
-    void updateProjectStatus({ id: projectId, status });
+    if (!projectId || projectId === overProjectId) return;
+    const neighbours = getDropNeighbours(
+      columnProjects.map((p) => p._id),
+      projectId,
+      overProjectId,
+      overProjectId !== undefined && isOverUpperHalf(e)
+    );
+    try {
+      await reorderProject({ id: projectId, status, ...neighbours });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: `Failed to move project: ${err instanceof Error ? err.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (project: Doc<"projects">) => {
+    try {
+      const { undoEntryId } = await removeProject({ id: project._id });
+      toast({
+        title: "Moved to trash",
+        description: `"${project.title}" can be restored from the trash`,
+        action: undoAction(undoEntryId),
+      });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: `Failed to delete project: ${err instanceof Error ? err.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const DeleteButton = ({ project }: { project: Doc<"projects"> }) => (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-6 w-6 text-muted-foreground hover:text-destructive"
+      onClick={(e) => {
+        e.stopPropagation();
+        void handleDelete(project);
+      }}
+      aria-label={`Delete ${project.title}`}
+    >
+      <Trash2Icon className="h-3.5 w-3.5" />
+    </Button>
+  );
+
+  // The next milestone of a project, flagged when it's at risk or overdue
+  const renderNextMilestone = (projectId: Id<"projects">) => {
+    const milestone = nextMilestones[projectId];
+    if (!milestone) return null;
+    return (
+      <div className="mt-2 flex items-center gap-1.5 text-xs text-muted-foreground">
+        <FlagIcon className="h-3 w-3 shrink-0" />
+        <span className="truncate">
+          <span className="font-medium text-foreground">{milestone.title}</span>
+          {` · ${formatMilestoneDue(milestone.dueDate, milestone.daysLeft)} · ${milestone.progress}%`}
+        </span>
+        {(milestone.status === "at_risk" || milestone.status === "overdue") && (
+          <Badge className={getMilestoneStatusColor(milestone.status)}>
+            {MILESTONE_STATUS_LABELS[milestone.status]}
+          </Badge>
+        )}
+      </div>
+    );
   };
 
   const calculateProgress = (progress?: number): string => {
@@ -68,20 +150,31 @@ export function ProjectsWidget() {
     return Math.min(100, Math.max(0, progress));
   };
 
-  const ProjectCard = ({ project }: { project: Doc<"projects"> }) => (
+  const ProjectCard = ({
+    project,
+    onDrop,
+  }: {
+    project: Doc<"projects">;
+    onDrop?: (e: React.DragEvent) => void;
+  }) => (
     <Card
       key={project._id}
       draggable
       onDragStart={(e) => handleDragStart(e, project._id)}
+      onDrop={onDrop}
+      onClick={() => setOpenProjectId(project._id)}
       className="cursor-move hover:shadow-md transition-shadow"
     >
       <CardContent className="p-4">
         <div className="mb-2">
           <div className="flex justify-between items-start">
             <h3 className="font-medium text-foreground">{project.title}</h3>
-            <Badge className={getPriorityColor(project.priority)}>
-              {project.priority || "medium"}
-            </Badge>
+            <div className="flex items-center gap-1">
+              <Badge className={getProjectPriorityColor(project.priority)}>
+                {project.priority || "medium"}
+              </Badge>
+              <DeleteButton project={project} />
+            </div>
           </div>
           {project.description && (
             <p className="text-sm text-muted-foreground mt-1">
@@ -92,16 +185,18 @@ export function ProjectsWidget() {
 
         <div className="mt-3">
           <div className="flex justify-between text-xs text-muted-foreground mb-1">
-            <span>Progress</span>
+            <span>{getProgressLabel(project)}</span>
             <span>{calculateProgress(project.progress)}</span>
           </div>
           <Progress
             value={getProgressValue(project.progress)}
             className="h-1.5"
           />
+          {renderNextMilestone(project._id)}
         </div>
 
-        <div className="mt-3 flex flex-wrap gap-2">
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <ItemCounts itemId={project._id} />
           {project.startDate && (
             <span className="text-xs text-muted-foreground">
               Start: {new Date(project.startDate).toLocaleDateString()}
@@ -146,7 +241,7 @@ export function ProjectsWidget() {
             className="bg-muted/50 p-4 rounded-lg"
             onDragOver={handleDragOver}
             onDrop={(e) => {
-              void handleDrop(e, status);
+              void handleDrop(e, status, columnProjects);
             }}
           >
             <h3 className="text-sm font-medium mb-4 capitalize flex items-center">
@@ -155,7 +250,14 @@ export function ProjectsWidget() {
             </h3>
             <div className="space-y-3">
               {columnProjects.map((project) => (
-                <ProjectCard key={project._id} project={project} />
+                <ProjectCard
+                  key={project._id}
+                  project={project}
+                  onDrop={(e) => {
+                    e.stopPropagation();
+                    void handleDrop(e, status, columnProjects, project._id);
+                  }}
+                />
               ))}
               {columnProjects.length === 0 && (
                 <div className="text-center py-6 text-muted-foreground text-sm">
@@ -177,17 +279,22 @@ export function ProjectsWidget() {
         </div>
       ) : (
         projects.map((project) => (
-          <Card key={project._id} className="transition-colors">
+          <Card
+            key={project._id}
+            onClick={() => setOpenProjectId(project._id)}
+            className="cursor-pointer hover:shadow-md transition-shadow"
+          >
             <CardContent className="p-4">
               <div className="flex justify-between items-start">
                 <h3 className="font-medium text-foreground">{project.title}</h3>
                 <div className="flex items-center gap-2">
-                  <Badge className={getStatusColor(project.status)}>
+                  <Badge className={getProjectStatusColor(project.status)}>
                     {project.status || "planning"}
                   </Badge>
-                  <Badge className={getPriorityColor(project.priority)}>
+                  <Badge className={getProjectPriorityColor(project.priority)}>
                     {project.priority || "medium"}
                   </Badge>
+                  <DeleteButton project={project} />
                 </div>
               </div>
 
@@ -199,16 +306,18 @@ export function ProjectsWidget() {
 
               <div className="mt-3">
                 <div className="flex justify-between text-xs text-muted-foreground mb-1">
-                  <span>Progress</span>
+                  <span>{getProgressLabel(project)}</span>
                   <span>{calculateProgress(project.progress)}</span>
                 </div>
                 <Progress
                   value={getProgressValue(project.progress)}
                   className="h-1.5"
                 />
+                {renderNextMilestone(project._id)}
               </div>
 
-              <div className="mt-3 flex flex-wrap gap-2">
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <ItemCounts itemId={project._id} />
                 {project.startDate && (
                   <span className="text-xs text-muted-foreground">
                     Start: {new Date(project.startDate).toLocaleDateString()}
@@ -248,7 +357,7 @@ export function ProjectsWidget() {
           <Tabs
             value={view}
             onValueChange={(v) => setView(v as ViewType)}
-            className="w-[200px]"
+            className="w-[300px]"
           >
             <TabsList>
               <TabsTrigger value="kanban" className="flex items-center gap-1">
@@ -259,14 +368,30 @@ export function ProjectsWidget() {
                 <ListIcon className="h-4 w-4" />
                 <span>List</span>
               </TabsTrigger>
+              <TabsTrigger value="timeline" className="flex items-center gap-1">
+                <GanttChartIcon className="h-4 w-4" />
+                <span>Timeline</span>
+              </TabsTrigger>
             </TabsList>
           </Tabs>
         </div>
       </CardHeader>
       <Separator />
       <CardContent className="pt-6">
-        {view === "kanban" ? <KanbanView /> : <ListView />}
+        {view === "kanban" ? (
+          <KanbanView />
+        ) : view === "list" ? (
+          <ListView />
+        ) : (
+          <ProjectTimeline onOpenProject={setOpenProjectId} />
+        )}
       </CardContent>
+      <ProjectDetailDialog
+        project={openProject}
+        onOpenChange={(open) => {
+          if (!open) setOpenProjectId(null);
+        }}
+      />
     </Card>
   );
 }
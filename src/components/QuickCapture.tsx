@@ -1,7 +1,10 @@
 import { useState } from "react";
-import { useMutation } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { format } from "date-fns";
 import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
 import {
   Card,
   CardContent,
@@ -22,13 +25,28 @@ import {
 } from "../components/ui/select";
 import { Label } from "../components/ui/label";
 import { Checkbox } from "../components/ui/checkbox";
+import { Badge } from "../components/ui/badge";
+import { RecurrenceFields } from "../components/RecurrenceFields";
+import { TemplateMenu } from "../components/TemplateMenu";
+import {
+  DEFAULT_RECURRENCE,
+  localTimeZone,
+  toRecurrenceRule,
+} from "../utils/recurrence";
+import {
+  ParsedCapture,
+  normalizeProjectName,
+  parseQuickCapture,
+} from "../utils/quickCaptureParser";
 import {
   CalendarIcon,
   ClipboardIcon,
   CalendarDaysIcon,
   BookmarkIcon,
   FileTextIcon,
+  FolderIcon,
   LucideIcon,
+  MapPinIcon,
 } from "lucide-react";
 
 type CaptureType = "task" | "project" | "event" | "note" | "bookmark";
@@ -61,8 +79,70 @@ const typeConfig: Record<CaptureType, CaptureTypeConfig> = {
   },
 };
 
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function ParsedPreview({
+  parsed,
+  project,
+}: {
+  parsed: ParsedCapture;
+  project?: Doc<"projects">;
+}) {
+  const hasDetails =
+    parsed.start ||
+    parsed.priority ||
+    parsed.tags.length > 0 ||
+    parsed.project ||
+    parsed.location;
+  if (!hasDetails) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      <span>{parsed.type === "event" ? "Event" : "Task"}:</span>
+      <span className="font-medium text-foreground">
+        {parsed.title || "Untitled"}
+      </span>
+      {parsed.start && (
+        <Badge variant="outline" className="flex items-center gap-1">
+          <CalendarIcon className="h-3 w-3" />
+          {format(
+            parsed.start,
+            parsed.hasTime ? "EEE, MMM d, p" : "EEE, MMM d"
+          )}
+          {parsed.end && ` – ${format(parsed.end, "p")}`}
+        </Badge>
+      )}
+      {parsed.priority && (
+        <Badge variant="outline">{parsed.priority} priority</Badge>
+      )}
+      {parsed.tags.map((tag) => (
+        <Badge key={tag} variant="secondary">
+          #{tag}
+        </Badge>
+      ))}
+      {parsed.project && (
+        <Badge
+          variant="outline"
+          className={`flex items-center gap-1 ${project ? "" : "text-destructive"}`}
+        >
+          <FolderIcon className="h-3 w-3" />
+          {project ? project.title : `${parsed.project} (no such project)`}
+        </Badge>
+      )}
+      {parsed.location && (
+        <Badge variant="outline" className="flex items-center gap-1">
+          <MapPinIcon className="h-3 w-3" />
+          {parsed.location}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
 export function QuickCapture() {
   const { toast } = useToast();
+  const { undoAction } = useUndo();
   const [type, setType] = useState<CaptureType>("task");
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
@@ -75,6 +155,25 @@ export function QuickCapture() {
   const [location, setLocation] = useState("");
   const [isAllDay, setIsAllDay] = useState(false);
   const [color, setColor] = useState("#007AFF");
+  const [recurrence, setRecurrence] = useState(DEFAULT_RECURRENCE);
+  // Set when typing event phrasing switched the type from task to event
+  const [autoSwitched, setAutoSwitched] = useState(false);
+  const projects = useQuery(api.projects.list) || [];
+  const projectNames = projects.map((p) => p.title);
+
+  // Dates, priority, tags and project typed into the title of tasks and
+  // events override the separate fields
+  const parsed =
+    type === "task" || type === "event"
+      ? parseQuickCapture(title, new Date(), projectNames)
+      : null;
+  const parsedProject = parsed?.project
+    ? projects.find(
+        (p) =>
+          normalizeProjectName(p.title) ===
+          normalizeProjectName(parsed.project ?? "")
+      )
+    : undefined;
 
   const createTask = useMutation(api.tasks.create);
   const createProject = useMutation(api.projects.create);
@@ -82,27 +181,55 @@ export function QuickCapture() {
   const createNote = useMutation(api.notes.create);
   const createBookmark = useMutation(api.bookmarks.create);
 
+  const handleTitleChange = (value: string) => {
+    setTitle(value);
+    // Follow the phrasing between task and event until a type is picked
+    const detected = parseQuickCapture(value, new Date(), projectNames).type;
+    if (type === "task" && detected === "event") {
+      setType("event");
+      setAutoSwitched(true);
+    } else if (type === "event" && autoSwitched && detected === "task") {
+      setType("task");
+      setAutoSwitched(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      const tagArray = tags
-        .split(",")
-        .map((tag) => tag.trim())
-        .filter(Boolean);
+      const tagArray = [
+        ...new Set([
+          ...tags
+            .split(",")
+            .map((tag) => tag.trim())
+            .filter(Boolean),
+          ...(parsed?.tags ?? []),
+        ]),
+      ];
+      const parsedTitle = parsed?.title || title;
 
+      let undoEntryId: Id<"undoEntries"> | null = null;
       switch (type) {
-        case "task":
-          await createTask({
-            title,
+        case "task": {
+          const dueDate =
+            parsed?.start?.getTime() ??
+            (startDate ? new Date(startDate).getTime() : undefined);
+          ({ undoEntryId } = await createTask({
+            source: "quickCapture",
+            title: parsedTitle,
             description,
-            priority,
-            status: "todo",
+            priority: parsed?.priority ?? priority,
             tags: tagArray,
-            dueDate: startDate ? new Date(startDate).getTime() : undefined,
-          });
+            dueDate,
+            projectId: parsedProject?._id,
+            recurrenceRule: toRecurrenceRule(recurrence, dueDate) ?? undefined,
+            timeZone: localTimeZone,
+          }));
           break;
+        }
         case "project":
-          await createProject({
+          ({ undoEntryId } = await createProject({
+            source: "quickCapture",
             title,
             description,
             priority,
@@ -112,41 +239,54 @@ export function QuickCapture() {
             progress: 0,
             startDate: startDate ? new Date(startDate).getTime() : undefined,
             dueDate: endDate ? new Date(endDate).getTime() : undefined,
-          });
+          }));
           break;
-        case "event":
-          await createEvent({
-            title,
+        case "event": {
+          const start =
+            parsed?.start?.getTime() ?? new Date(startDate).getTime();
+          const allDay = isAllDay || (!!parsed?.start && !parsed.hasTime);
+          // Typed events without an end last an hour, or the whole day
+          const end =
+            parsed?.end?.getTime() ??
+            (parsed?.start
+              ? start + (allDay ? DAY_MS : HOUR_MS)
+              : new Date(endDate).getTime());
+          ({ undoEntryId } = await createEvent({
+            source: "quickCapture",
+            title: parsedTitle,
             description,
-            startDate: new Date(startDate).getTime(),
-            endDate: new Date(endDate).getTime(),
-            location,
+            startDate: start,
+            endDate: end,
+            location: parsed?.location ?? location,
             category,
-            isAllDay,
+            isAllDay: allDay,
             isRecurring: false,
             tags: tagArray,
             color,
-          });
+          }));
           break;
+        }
         case "note":
-          await createNote({
+          ({ undoEntryId } = await createNote({
+            source: "quickCapture",
             title,
             content: description,
             category,
             tags: tagArray,
             isPinned: false,
             color,
-          });
+          }));
           break;
         case "bookmark":
-          await createBookmark({
+          ({ undoEntryId } = await createBookmark({
+            source: "quickCapture",
             title,
             url,
             description,
             category,
             tags: tagArray,
             isArchived: false,
-          });
+          }));
           break;
       }
 
@@ -162,10 +302,13 @@ export function QuickCapture() {
       setCategory("personal");
       setIsAllDay(false);
       setColor("#007AFF");
+      setRecurrence(DEFAULT_RECURRENCE);
+      setAutoSwitched(false);
 
       toast({
         title: "Success",
         description: "Item created successfully!",
+        action: undoAction(undoEntryId),
       });
     } catch (err) {
       console.error("Failed to create item:", err);
@@ -179,11 +322,17 @@ export function QuickCapture() {
 
   return (
     <Card className="w-full">
-      <CardHeader>
-        <CardTitle className="text-xl font-heading">Quick Capture</CardTitle>
-        <CardDescription>
-          Capture your thoughts, tasks, and ideas quickly
-        </CardDescription>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-xl font-heading">Quick Capture</CardTitle>
+          <CardDescription>
+            Capture your thoughts, tasks, and ideas quickly
+          </CardDescription>
+        </div>
+        {/* Outside the form, whose submit its dialog's form would trigger */}
+        {type === "task" && (
+          <TemplateMenu projectId={parsedProject?._id} source="quickCapture" />
+        )}
       </CardHeader>
       <CardContent>
         <form
@@ -195,7 +344,10 @@ export function QuickCapture() {
         >
           <Tabs
             value={type}
-            onValueChange={(value) => setType(value as CaptureType)}
+            onValueChange={(value) => {
+              setType(value as CaptureType);
+              setAutoSwitched(false);
+            }}
             className="w-full"
           >
             <TabsList className="grid grid-cols-5 w-full h-12 bg-muted">
@@ -223,11 +375,18 @@ export function QuickCapture() {
               <Input
                 id="title"
                 type="text"
-                placeholder="Title"
+                placeholder={
+                  parsed
+                    ? "e.g. Call dentist tomorrow 3pm !high #health @Personal"
+                    : "Title"
+                }
                 value={title}
-                onChange={(e) => setTitle(e.target.value)}
+                onChange={(e) => handleTitleChange(e.target.value)}
                 required
               />
+              {parsed && (
+                <ParsedPreview parsed={parsed} project={parsedProject} />
+              )}
             </div>
 
             {type !== "bookmark" && (
@@ -301,11 +460,19 @@ export function QuickCapture() {
                   type="datetime-local"
                   value={startDate}
                   onChange={(e) => setStartDate(e.target.value)}
-                  required={type === "event"}
+                  required={type === "event" && !parsed?.start}
                 />
               </div>
             )}
 
+            {type === "task" && (
+              <RecurrenceFields
+                id="recurrence"
+                value={recurrence}
+                onChange={setRecurrence}
+              />
+            )}
+
             {(type === "project" || type === "event") && (
               <div className="grid gap-2">
                 <Label htmlFor="endDate">End Date</Label>
@@ -314,7 +481,7 @@ export function QuickCapture() {
                   type="datetime-local"
                   value={endDate}
                   onChange={(e) => setEndDate(e.target.value)}
-                  required={type === "event"}
+                  required={type === "event" && !parsed?.start}
                 />
               </div>
             )}
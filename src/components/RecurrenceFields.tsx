@@ -0,0 +1,75 @@
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { RecurrencePreset, RecurrenceSettings } from "../utils/recurrence";
+
+interface RecurrenceFieldsProps {
+  id: string;
+  value: RecurrenceSettings;
+  onChange: (value: RecurrenceSettings) => void;
+}
+
+export function RecurrenceFields({
+  id,
+  value,
+  onChange,
+}: RecurrenceFieldsProps) {
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={id}>Repeat</Label>
+      <Select
+        value={value.preset}
+        onValueChange={(preset) =>
+          onChange({ ...value, preset: preset as RecurrencePreset })
+        }
+      >
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Does not repeat" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value="daily">Every day</SelectItem>
+          <SelectItem value="weekdays">Every weekday</SelectItem>
+          <SelectItem value="weekly">Every N weeks</SelectItem>
+          <SelectItem value="monthly_weekday">
+            Monthly on the same weekday
+          </SelectItem>
+          <SelectItem value="custom">Custom (RRULE)</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value.preset === "weekly" && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>Every</span>
+          <Input
+            type="number"
+            min={1}
+            value={value.interval}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                interval: Math.max(1, Number(e.target.value) || 1),
+              })
+            }
+            className="w-20"
+          />
+          <span>week(s)</span>
+        </div>
+      )}
+
+      {value.preset === "custom" && (
+        <Input
+          placeholder="FREQ=MONTHLY;BYMONTHDAY=1"
+          value={value.customRule}
+          onChange={(e) => onChange({ ...value, customRule: e.target.value })}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { useToast } from "../hooks/use-toast";
+import { useNow } from "../hooks/useNow";
+import { formatElapsed } from "../utils/duration";
+import { Button } from "./ui/button";
+import { SquareIcon, TimerIcon } from "lucide-react";
+
+// Header control showing the running time entry, if any, with a stop button
+export function RunningTimer() {
+  const { toast } = useToast();
+  const running = useQuery(api.timeEntries.getRunning);
+  const stopTimer = useMutation(api.timeEntries.stop);
+  const now = useNow(1000, !!running);
+
+  if (!running) return null;
+
+  const handleStop = async () => {
+    try {
+      await stopTimer({});
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: `Failed to stop timer: ${err instanceof Error ? err.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm">
+      <TimerIcon className="h-4 w-4 text-primary" />
+      <span className="max-w-[160px] truncate">{running.taskTitle}</span>
+      <span className="font-mono tabular-nums">
+        {formatElapsed(now - running.start)}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={() => {
+          void handleStop();
+        }}
+        aria-label="Stop timer"
+      >
+        <SquareIcon className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
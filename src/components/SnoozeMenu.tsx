@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { addDays, format, set } from "date-fns";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
+import { getSnoozeOptions } from "../utils/snooze";
+import { AlarmClockIcon } from "lucide-react";
+
+const DATETIME_LOCAL = "yyyy-MM-dd'T'HH:mm";
+
+interface SnoozeMenuProps {
+  task: { _id: Id<"tasks">; title: string };
+}
+
+/**
+ * Snooze a task out of the task lists and agendas until a picked time, with
+ * the option of a notification when it comes back.
+ */
+export function SnoozeMenu({ task }: SnoozeMenuProps) {
+  const { toast } = useToast();
+  const { undoAction } = useUndo();
+  const snoozeTask = useMutation(api.tasks.snooze);
+  const [notify, setNotify] = useState(false);
+  const [customOpen, setCustomOpen] = useState(false);
+  const [customUntil, setCustomUntil] = useState("");
+
+  const handleSnooze = async (until: Date) => {
+    try {
+      const { undoEntryId } = await snoozeTask({
+        id: task._id,
+        until: until.getTime(),
+        notify,
+      });
+      toast({
+        title: "Task snoozed",
+        description: `"${task.title}" is hidden until ${format(until, "EEE, MMM d p")}`,
+        action: undoAction(undoEntryId),
+      });
+      setCustomOpen(false);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: `Failed to snooze task: ${err instanceof Error ? err.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openCustom = () => {
+    setCustomUntil(
+      format(
+        set(addDays(new Date(), 1), { hours: 9, minutes: 0 }),
+        DATETIME_LOCAL
+      )
+    );
+    setCustomOpen(true);
+  };
+
+  return (
+    // Kept from reaching the card, where clicks select or open the task
+    <span onClick={(e) => e.stopPropagation()}>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-muted-foreground"
+            aria-label={`Snooze ${task.title}`}
+          >
+            <AlarmClockIcon className="h-3.5 w-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Snooze until</DropdownMenuLabel>
+          {getSnoozeOptions(new Date()).map(({ label, until }) => (
+            <DropdownMenuItem
+              key={label}
+              onSelect={() => void handleSnooze(until)}
+            >
+              <span className="flex-1">{label}</span>
+              <span className="ml-4 text-xs text-muted-foreground">
+                {format(until, "EEE p")}
+              </span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuItem onSelect={openCustom}>
+            Pick a time...
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuCheckboxItem
+            checked={notify}
+            onCheckedChange={(checked) => setNotify(checked)}
+            // Stay open so a time can be picked next
+            onSelect={(e) => e.preventDefault()}
+          >
+            Notify me when it's back
+          </DropdownMenuCheckboxItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={customOpen} onOpenChange={setCustomOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="font-heading">Snooze task</DialogTitle>
+            <DialogDescription>
+              "{task.title}" stays hidden until this time
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            id="snooze-custom"
+            className="grid gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (customUntil) void handleSnooze(new Date(customUntil));
+            }}
+          >
+            <Label htmlFor="snooze-until">Hide until</Label>
+            <Input
+              id="snooze-until"
+              type="datetime-local"
+              value={customUntil}
+              min={format(new Date(), DATETIME_LOCAL)}
+              onChange={(e) => setCustomUntil(e.target.value)}
+            />
+          </form>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setCustomOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" form="snooze-custom" disabled={!customUntil}>
+              Snooze
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </span>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc } from "../../convex/_generated/dataModel";
+import { format } from "date-fns";
+import { Button } from "./ui/button";
+import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
+import {
+  AlarmClockIcon,
+  BellIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+} from "lucide-react";
+
+// Snoozed tasks, collapsed by default, with a way to bring each back early
+export function SnoozedTasks() {
+  const { toast } = useToast();
+  const { undoAction } = useUndo();
+  const snoozed = useQuery(api.tasks.listSnoozed) || [];
+  const updateTask = useMutation(api.tasks.update);
+  const [expanded, setExpanded] = useState(false);
+
+  const handleWake = async (task: Doc<"tasks">) => {
+    try {
+      const { undoEntryId } = await updateTask({
+        id: task._id,
+        startDate: null,
+      });
+      toast({
+        title: "Task unsnoozed",
+        description: `"${task.title}" is back on your list`,
+        action: undoAction(undoEntryId),
+      });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: `Failed to unsnooze task: ${err instanceof Error ? err.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (snoozed.length === 0) return null;
+
+  return (
+    <div className="mt-6">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1 text-sm font-medium text-muted-foreground hover:text-foreground"
+      >
+        {expanded ? (
+          <ChevronDownIcon className="h-4 w-4" />
+        ) : (
+          <ChevronRightIcon className="h-4 w-4" />
+        )}
+        <AlarmClockIcon className="h-4 w-4" />
+        <span>Snoozed ({snoozed.length})</span>
+      </button>
+      {expanded && (
+        <ul className="mt-2 divide-y rounded-md border">
+          {snoozed.map((task) => (
+            <li key={task._id} className="flex items-center gap-3 p-2 text-sm">
+              <span className="min-w-0 flex-1 truncate">{task.title}</span>
+              {task.notifyOnStart && (
+                <BellIcon
+                  className="h-3.5 w-3.5 text-muted-foreground"
+                  aria-label="Notifies when back"
+                />
+              )}
+              <span className="text-xs text-muted-foreground">
+                until {format(task.startDate!, "EEE, MMM d p")}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => void handleWake(task)}
+              >
+                Unsnooze
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
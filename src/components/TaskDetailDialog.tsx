@@ -0,0 +1,588 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { startOfDay } from "date-fns";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Label } from "./ui/label";
+import { Checkbox } from "./ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Badge } from "./ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { LayoutTemplateIcon, PlusIcon, Trash2Icon, XIcon } from "lucide-react";
+import { RecurrenceFields } from "./RecurrenceFields";
+import { ActivityHistory } from "./ActivityLog";
+import { CommentThread } from "./CommentThread";
+import { AttachmentList } from "./AttachmentList";
+import {
+  fromRecurrenceRule,
+  localTimeZone,
+  toRecurrenceRule,
+} from "../utils/recurrence";
+import { getTaskColumn } from "../utils/workflow";
+import { getTemplateDay } from "../utils/taskTemplates";
+
+const NO_PROJECT = "none";
+const NO_MILESTONE = "none";
+
+// Format a timestamp for a datetime-local input (local time, minute precision)
+const toDateTimeLocal = (timestamp?: number) => {
+  if (timestamp === undefined) return "";
+  const date = new Date(timestamp);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(timestamp - offset).toISOString().slice(0, 16);
+};
+
+const fromDateTimeLocal = (value: string) =>
+  value ? new Date(value).getTime() : null;
+
+interface TaskDetailDialogProps {
+  task: Doc<"tasks"> | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TaskDetailDialog({
+  task,
+  onOpenChange,
+}: TaskDetailDialogProps) {
+  return (
+    <Dialog open={task !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="font-heading">Edit Task</DialogTitle>
+          <DialogDescription>Update the details of this task</DialogDescription>
+        </DialogHeader>
+        {/* Keyed by id so the form resets whenever a different task is opened */}
+        {task && (
+          <Tabs key={task._id} defaultValue="details">
+            <TabsList>
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="comments">Comments</TabsTrigger>
+              <TabsTrigger value="files">Files</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+            {/* Kept mounted so unsaved edits survive a look at the other tabs */}
+            <TabsContent
+              value="details"
+              forceMount
+              className="data-[state=inactive]:hidden"
+            >
+              <TaskDetailForm task={task} onClose={() => onOpenChange(false)} />
+            </TabsContent>
+            <TabsContent
+              value="comments"
+              className="max-h-[60vh] overflow-y-auto"
+            >
+              <CommentThread itemId={task._id} />
+            </TabsContent>
+            <TabsContent value="files" className="max-h-[60vh] overflow-y-auto">
+              <AttachmentList itemId={task._id} />
+            </TabsContent>
+            <TabsContent
+              value="history"
+              className="max-h-[60vh] overflow-y-auto"
+            >
+              <ActivityHistory entityId={task._id} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TaskDetailForm({
+  task,
+  onClose,
+}: {
+  task: Doc<"tasks">;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const { undoAction } = useUndo();
+  const projects = useQuery(api.projects.list) || [];
+  const openTasks = useQuery(api.tasks.list, { completed: false }) || [];
+  // Saved blockers may be completed, so they're fetched on their own
+  const savedBlockers =
+    useQuery(api.tasks.getMany, { ids: task.blockedBy || [] }) || [];
+  const updateTask = useMutation(api.tasks.update);
+  const removeTask = useMutation(api.tasks.remove);
+  const createTask = useMutation(api.tasks.create);
+  const toggleTask = useMutation(api.tasks.toggle);
+  const saveAsTemplate = useMutation(api.taskTemplates.createFromTask);
+  const subtasks =
+    useQuery(api.tasks.listSubtasks, { parentTaskId: task._id }) || [];
+  const [newSubtask, setNewSubtask] = useState("");
+  const seriesHistory = useQuery(
+    api.tasks.getSeriesHistory,
+    task.recurrenceRule || task.seriesId ? { taskId: task._id } : "skip"
+  );
+
+  const [title, setTitle] = useState(task.title);
+  const [description, setDescription] = useState(task.description || "");
+  const [dueDate, setDueDate] = useState(toDateTimeLocal(task.dueDate));
+  const [reminderDate, setReminderDate] = useState(
+    toDateTimeLocal(task.reminderDate)
+  );
+  const [startDate, setStartDate] = useState(toDateTimeLocal(task.startDate));
+  const [priority, setPriority] = useState(task.priority || "medium");
+  const [tags, setTags] = useState((task.tags || []).join(", "));
+  const [projectId, setProjectId] = useState<string>(
+    task.projectId || NO_PROJECT
+  );
+  // Statuses come from the selected project's workflow. Left unset, the
+  // server keeps the task's column (or maps it when the project changes).
+  const [status, setStatus] = useState<string | null>(null);
+  const workflow = useQuery(
+    api.workflows.get,
+    projectId === NO_PROJECT ? {} : { projectId: projectId as Id<"projects"> }
+  );
+  const columns = workflow?.columns ?? [];
+  // Milestones of the selected project; changing project drops the milestone
+  const [milestoneId, setMilestoneId] = useState<string>(
+    task.milestoneId || NO_MILESTONE
+  );
+  const milestones =
+    useQuery(
+      api.milestones.list,
+      projectId === NO_PROJECT
+        ? "skip"
+        : {
+            projectId: projectId as Id<"projects">,
+            today: startOfDay(new Date()).getTime(),
+          }
+    ) || [];
+  const currentStatus =
+    status ??
+    (projectId === (task.projectId || NO_PROJECT)
+      ? getTaskColumn(columns, task)?.status
+      : undefined);
+  const [recurrence, setRecurrence] = useState(
+    fromRecurrenceRule(task.recurrenceRule)
+  );
+  const [estimate, setEstimate] = useState(
+    task.estimateMinutes !== undefined ? String(task.estimateMinutes) : ""
+  );
+  const [blockedBy, setBlockedBy] = useState<Id<"tasks">[]>(
+    task.blockedBy || []
+  );
+  const blockerCandidates = openTasks.filter(
+    (t) => t._id !== task._id && !blockedBy.includes(t._id)
+  );
+
+  const showError = (action: string, err: unknown) => {
+    console.error(`Failed to ${action}:`, err);
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${err instanceof Error ? err.message : "Unknown error"}`,
+      variant: "destructive",
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      await updateTask({
+        id: task._id,
+        title: title.trim(),
+        description,
+        dueDate: fromDateTimeLocal(dueDate),
+        reminderDate: fromDateTimeLocal(reminderDate),
+        startDate: fromDateTimeLocal(startDate),
+        priority,
+        status: status ?? undefined,
+        tags: tags
+          .split(",")
+          .map((tag) => tag.trim())
+          .filter(Boolean),
+        projectId:
+          projectId === NO_PROJECT ? null : (projectId as Id<"projects">),
+        milestoneId:
+          milestoneId === NO_MILESTONE
+            ? null
+            : (milestoneId as Id<"milestones">),
+        recurrenceRule: toRecurrenceRule(
+          recurrence,
+          fromDateTimeLocal(dueDate) ?? undefined
+        ),
+        timeZone: localTimeZone,
+        blockedBy,
+        estimateMinutes: estimate ? Number(estimate) : null,
+      });
+      onClose();
+    } catch (err) {
+      showError("update task", err);
+    }
+  };
+
+  const handleAddSubtask = async () => {
+    if (!newSubtask.trim()) return;
+    try {
+      await createTask({
+        title: newSubtask.trim(),
+        priority: task.priority || "medium",
+        tags: [],
+        parentTaskId: task._id,
+      });
+      setNewSubtask("");
+    } catch (err) {
+      showError("create subtask", err);
+    }
+  };
+
+  // Saves the task as last saved, not any unsaved edits in the form
+  const handleSaveAsTemplate = async () => {
+    try {
+      await saveAsTemplate({
+        taskId: task._id,
+        name: task.title,
+        today: getTemplateDay().today,
+      });
+      toast({
+        title: "Template saved",
+        description: `"${task.title}" can now be reused from Templates`,
+      });
+    } catch (err) {
+      showError("save template", err);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      const { undoEntryId } = await removeTask({ id: task._id });
+      onClose();
+      toast({
+        title: "Moved to trash",
+        description: `"${task.title}" can be restored from the trash`,
+        action: undoAction(undoEntryId),
+      });
+    } catch (err) {
+      showError("delete task", err);
+    }
+  };
+
+  return (
+    <>
+      <form
+        id="task-detail-form"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void handleSave();
+        }}
+        className="space-y-4"
+      >
+        <div className="grid gap-2">
+          <Label htmlFor="task-title">Title</Label>
+          <Input
+            id="task-title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="task-description">Description</Label>
+          <Textarea
+            id="task-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="task-priority">Priority</Label>
+            <Select value={priority} onValueChange={setPriority}>
+              <SelectTrigger id="task-priority">
+                <SelectValue placeholder="Select priority" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="low">Low Priority</SelectItem>
+                <SelectItem value="medium">Medium Priority</SelectItem>
+                <SelectItem value="high">High Priority</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="task-status">Status</Label>
+            <Select value={currentStatus ?? ""} onValueChange={setStatus}>
+              <SelectTrigger id="task-status">
+                <SelectValue placeholder="Select status" />
+              </SelectTrigger>
+              <SelectContent>
+                {columns.map((column) => (
+                  <SelectItem key={column.status} value={column.status}>
+                    {column.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="task-due">Due Date</Label>
+            <Input
+              id="task-due"
+              type="datetime-local"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="task-reminder">Reminder</Label>
+            <Input
+              id="task-reminder"
+              type="datetime-local"
+              value={reminderDate}
+              onChange={(e) => setReminderDate(e.target.value)}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="task-start">Hide until</Label>
+            <Input
+              id="task-start"
+              type="datetime-local"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+
+          <div className="grid gap-2 content-start">
+            <Label htmlFor="task-project">Project</Label>
+            <Select
+              value={projectId}
+              onValueChange={(value) => {
+                setProjectId(value);
+                setStatus(null);
+                setMilestoneId(NO_MILESTONE);
+              }}
+            >
+              <SelectTrigger id="task-project">
+                <SelectValue placeholder="No project" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project._id} value={project._id}>
+                    {project.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {projectId !== NO_PROJECT && (
+            <div className="grid gap-2 content-start">
+              <Label htmlFor="task-milestone">Milestone</Label>
+              <Select value={milestoneId} onValueChange={setMilestoneId}>
+                <SelectTrigger id="task-milestone">
+                  <SelectValue placeholder="No milestone" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MILESTONE}>No milestone</SelectItem>
+                  {milestones.map((milestone) => (
+                    <SelectItem key={milestone._id} value={milestone._id}>
+                      {milestone.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid gap-2 content-start">
+            <Label htmlFor="task-estimate">Estimate (minutes)</Label>
+            <Input
+              id="task-estimate"
+              type="number"
+              min={1}
+              value={estimate}
+              onChange={(e) => setEstimate(e.target.value)}
+            />
+          </div>
+
+          <RecurrenceFields
+            id="task-recurrence"
+            value={recurrence}
+            onChange={setRecurrence}
+          />
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="task-blocked-by">Blocked by</Label>
+          {blockedBy.length > 0 && (
+            <div className="flex gap-1 flex-wrap">
+              {blockedBy.map((blockerId) => {
+                const blocker = [...savedBlockers, ...openTasks].find(
+                  (t) => t._id === blockerId
+                );
+                return (
+                  <Badge
+                    key={blockerId}
+                    variant="secondary"
+                    className="flex items-center gap-1"
+                  >
+                    <span className={blocker?.completed ? "line-through" : ""}>
+                      {blocker?.title ?? "Unknown task"}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setBlockedBy(blockedBy.filter((id) => id !== blockerId))
+                      }
+                      aria-label="Remove dependency"
+                    >
+                      <XIcon className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                );
+              })}
+            </div>
+          )}
+          <Select
+            value=""
+            onValueChange={(id) =>
+              setBlockedBy([...blockedBy, id as Id<"tasks">])
+            }
+          >
+            <SelectTrigger id="task-blocked-by">
+              <SelectValue placeholder="Add a blocking task" />
+            </SelectTrigger>
+            <SelectContent>
+              {blockerCandidates.map((candidate) => (
+                <SelectItem key={candidate._id} value={candidate._id}>
+                  {candidate.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {seriesHistory && seriesHistory.totalCompleted > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Completed {seriesHistory.totalCompleted} times · current streak{" "}
+            {seriesHistory.currentStreak} · best {seriesHistory.longestStreak}
+          </p>
+        )}
+
+        <div className="grid gap-2">
+          <Label htmlFor="task-tags">Tags (comma separated)</Label>
+          <Input
+            id="task-tags"
+            placeholder="tag1, tag2, tag3"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+          />
+        </div>
+      </form>
+
+      <div className="grid gap-2">
+        <Label htmlFor="task-new-subtask">
+          Subtasks ({subtasks.filter((s) => s.completed).length}/
+          {subtasks.length})
+        </Label>
+        {subtasks.length > 0 && (
+          <ul className="space-y-1">
+            {subtasks.map((subtask) => (
+              <li key={subtask._id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={subtask.completed}
+                  onCheckedChange={() => {
+                    toggleTask({ id: subtask._id }).catch((err) =>
+                      showError("update subtask", err)
+                    );
+                  }}
+                />
+                <span
+                  className={
+                    subtask.completed
+                      ? "line-through text-muted-foreground"
+                      : ""
+                  }
+                >
+                  {subtask.title}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            void handleAddSubtask();
+          }}
+          className="flex gap-2"
+        >
+          <Input
+            id="task-new-subtask"
+            placeholder="Add a subtask..."
+            value={newSubtask}
+            onChange={(e) => setNewSubtask(e.target.value)}
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            size="icon"
+            disabled={!newSubtask.trim()}
+          >
+            <PlusIcon className="h-4 w-4" />
+          </Button>
+        </form>
+      </div>
+
+      <DialogFooter className="sm:justify-between gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          className="text-destructive hover:text-destructive"
+          onClick={() => {
+            void handleDelete();
+          }}
+        >
+          <Trash2Icon className="h-4 w-4 mr-1" />
+          Delete
+        </Button>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => {
+              void handleSaveAsTemplate();
+            }}
+          >
+            <LayoutTemplateIcon className="h-4 w-4 mr-1" />
+            Save as template
+          </Button>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" form="task-detail-form">
+            Save
+          </Button>
+        </div>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { useToast } from "../hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { PlusIcon, Trash2Icon } from "lucide-react";
+import {
+  TEMPLATE_PLACEHOLDERS,
+  formatChecklist,
+  parseChecklist,
+} from "../utils/taskTemplates";
+
+const NO_PROJECT = "none";
+const NEW_TEMPLATE = "new";
+
+interface TaskTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Create, edit and delete the user's task templates
+export function TaskTemplatesDialog({
+  open,
+  onOpenChange,
+}: TaskTemplatesDialogProps) {
+  const templates = useQuery(api.taskTemplates.list) || [];
+  const [selectedId, setSelectedId] = useState<string>(NEW_TEMPLATE);
+  const selected = templates.find((t) => t._id === selectedId) ?? null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="font-heading">Task templates</DialogTitle>
+          <DialogDescription>
+            Reusable tasks with a checklist of subtasks.{" "}
+            {TEMPLATE_PLACEHOLDERS.join(" and ")} are filled in when a task is
+            created from a template.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 sm:grid-cols-[12rem_1fr]">
+          <ul className="space-y-1">
+            {templates.map((template) => (
+              <li key={template._id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(template._id)}
+                  className={`w-full truncate rounded-md px-2 py-1 text-left text-sm hover:bg-muted ${
+                    template._id === selectedId ? "bg-muted font-medium" : ""
+                  }`}
+                >
+                  {template.name}
+                </button>
+              </li>
+            ))}
+            <li>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start"
+                onClick={() => setSelectedId(NEW_TEMPLATE)}
+              >
+                <PlusIcon className="mr-2 h-4 w-4" />
+                New template
+              </Button>
+            </li>
+          </ul>
+          {/* Keyed so the form resets when another template is picked */}
+          <TemplateForm
+            key={selected?._id ?? NEW_TEMPLATE}
+            template={selected}
+            onSaved={(id) => setSelectedId(id)}
+            onRemoved={() => setSelectedId(NEW_TEMPLATE)}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TemplateForm({
+  template,
+  onSaved,
+  onRemoved,
+}: {
+  template: Doc<"taskTemplates"> | null;
+  onSaved: (id: Id<"taskTemplates">) => void;
+  onRemoved: () => void;
+}) {
+  const { toast } = useToast();
+  const projects = useQuery(api.projects.list) || [];
+  const createTemplate = useMutation(api.taskTemplates.create);
+  const updateTemplate = useMutation(api.taskTemplates.update);
+  const removeTemplate = useMutation(api.taskTemplates.remove);
+
+  const [name, setName] = useState(template?.name ?? "");
+  const [title, setTitle] = useState(template?.title ?? "");
+  const [description, setDescription] = useState(template?.description ?? "");
+  const [priority, setPriority] = useState(template?.priority ?? "medium");
+  const [tags, setTags] = useState((template?.tags ?? []).join(", "));
+  const [projectId, setProjectId] = useState<string>(
+    template?.projectId ?? NO_PROJECT
+  );
+  const [dueOffset, setDueOffset] = useState(
+    template?.dueOffsetDays !== undefined ? String(template.dueOffsetDays) : ""
+  );
+  const [estimate, setEstimate] = useState(
+    template?.estimateMinutes !== undefined
+      ? String(template.estimateMinutes)
+      : ""
+  );
+  const [checklist, setChecklist] = useState(
+    formatChecklist(template?.checklist ?? [])
+  );
+
+  const showError = (action: string, err: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${err instanceof Error ? err.message : "Unknown error"}`,
+      variant: "destructive",
+    });
+  };
+
+  const handleSave = async () => {
+    const fields = {
+      name,
+      title,
+      description,
+      priority,
+      tags: tags
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      checklist: parseChecklist(checklist),
+    };
+    const project =
+      projectId === NO_PROJECT ? undefined : (projectId as Id<"projects">);
+    try {
+      if (template) {
+        await updateTemplate({
+          ...fields,
+          id: template._id,
+          projectId: project ?? null,
+          dueOffsetDays: dueOffset ? Number(dueOffset) : null,
+          estimateMinutes: estimate ? Number(estimate) : null,
+        });
+        onSaved(template._id);
+      } else {
+        onSaved(
+          await createTemplate({
+            ...fields,
+            projectId: project,
+            dueOffsetDays: dueOffset ? Number(dueOffset) : undefined,
+            estimateMinutes: estimate ? Number(estimate) : undefined,
+          })
+        );
+      }
+      toast({ title: "Template saved", description: `"${name.trim()}"` });
+    } catch (err) {
+      showError("save template", err);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!template) return;
+    try {
+      await removeTemplate({ id: template._id });
+      onRemoved();
+      toast({ title: "Template deleted", description: `"${template.name}"` });
+    } catch (err) {
+      showError("delete template", err);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        void handleSave();
+      }}
+      className="grid gap-3"
+    >
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="grid gap-2">
+          <Label htmlFor="template-name">Template name</Label>
+          <Input
+            id="template-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Weekly report"
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="template-title">Task title</Label>
+          <Input
+            id="template-title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Weekly report for {{date}}"
+          />
+        </div>
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="template-description">Description</Label>
+        <Textarea
+          id="template-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+        />
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="grid gap-2">
+          <Label htmlFor="template-priority">Priority</Label>
+          <Select value={priority} onValueChange={setPriority}>
+            <SelectTrigger id="template-priority">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="low">Low</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="high">High</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="template-project">Project</Label>
+          <Select value={projectId} onValueChange={setProjectId}>
+            <SelectTrigger id="template-project">
+              <SelectValue placeholder="No project" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PROJECT}>No project</SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project._id} value={project._id}>
+                  {project.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="template-due">Due after (days)</Label>
+          <Input
+            id="template-due"
+            type="number"
+            min={0}
+            value={dueOffset}
+            onChange={(e) => setDueOffset(e.target.value)}
+            placeholder="No due date"
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="template-estimate">Estimate (minutes)</Label>
+          <Input
+            id="template-estimate"
+            type="number"
+            min={1}
+            value={estimate}
+            onChange={(e) => setEstimate(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="template-tags">Tags (comma separated)</Label>
+        <Input
+          id="template-tags"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+        />
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="template-checklist">Checklist</Label>
+        <Textarea
+          id="template-checklist"
+          value={checklist}
+          onChange={(e) => setChecklist(e.target.value)}
+          rows={4}
+          placeholder={"One subtask per line\nAdd +2d to make it due 2 days in"}
+        />
+      </div>
+      <div className="flex justify-between gap-2">
+        {template ? (
+          <Button
+            type="button"
+            variant="ghost"
+            className="text-destructive hover:text-destructive"
+            onClick={() => void handleRemove()}
+          >
+            <Trash2Icon className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        ) : (
+          <span />
+        )}
+        <Button type="submit" disabled={!name.trim() || !title.trim()}>
+          {template ? "Save template" : "Create template"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,80 @@
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useToast } from "../hooks/use-toast";
+import { useNow } from "../hooks/useNow";
+import { formatDuration, minutesToMs } from "../utils/duration";
+import { Button } from "./ui/button";
+import { PlayIcon, SquareIcon } from "lucide-react";
+
+interface TaskTimerProps {
+  taskId: Id<"tasks">;
+  estimateMinutes?: number;
+}
+
+/**
+ * Start/stop button with the total time tracked on a task, next to its
+ * estimate when it has one. Ticks on its own so the surrounding card doesn't
+ * re-render while the timer runs.
+ */
+export function TaskTimer({ taskId, estimateMinutes }: TaskTimerProps) {
+  const { toast } = useToast();
+  const running = useQuery(api.timeEntries.getRunning);
+  const totals = useQuery(api.timeEntries.taskTotals) || [];
+  const startTimer = useMutation(api.timeEntries.start);
+  const stopTimer = useMutation(api.timeEntries.stop);
+  const isRunning = running?.taskId === taskId;
+  const now = useNow(1000, isRunning);
+
+  const trackedMs =
+    (totals.find((t) => t.taskId === taskId)?.totalMs ?? 0) +
+    (isRunning && running ? now - running.start : 0);
+
+  const handleClick = async () => {
+    try {
+      if (isRunning) await stopTimer({});
+      else await startTimer({ taskId });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: `Failed to ${isRunning ? "stop" : "start"} timer: ${err instanceof Error ? err.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+      <Button
+        variant="ghost"
+        size="icon"
+        className={`h-6 w-6 ${isRunning ? "text-primary" : ""}`}
+        onClick={(e) => {
+          e.stopPropagation();
+          void handleClick();
+        }}
+        aria-label={isRunning ? "Stop timer" : "Start timer"}
+      >
+        {isRunning ? (
+          <SquareIcon className="h-3 w-3" />
+        ) : (
+          <PlayIcon className="h-3 w-3" />
+        )}
+      </Button>
+      {(trackedMs > 0 || estimateMinutes !== undefined) && (
+        <span
+          className={
+            estimateMinutes !== undefined &&
+            trackedMs > minutesToMs(estimateMinutes)
+              ? "text-destructive"
+              : ""
+          }
+        >
+          {formatDuration(trackedMs)}
+          {estimateMinutes !== undefined &&
+            ` / ${formatDuration(minutesToMs(estimateMinutes))}`}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -1,21 +1,199 @@
-import { useQuery, useMutation } from "convex/react";
+import { useQuery, useMutation, usePaginatedQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
-import { useState } from "react";
-import { Doc, Id } from "../../convex/_generated/dataModel";
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { startOfDay } from "date-fns";
+import { Id } from "../../convex/_generated/dataModel";
+import { FunctionReturnType } from "convex/server";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { Badge } from "./ui/badge";
 import { Checkbox } from "./ui/checkbox";
 import { Separator } from "./ui/separator";
-import { CheckIcon, ListIcon, KanbanIcon } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import {
+  CheckIcon,
+  ListIcon,
+  KanbanIcon,
+  Grid2x2Icon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  RepeatIcon,
+  LockIcon,
+  Settings2Icon,
+  SearchIcon,
+  XIcon,
+  BookmarkPlusIcon,
+  SaveIcon,
+  Trash2Icon,
+} from "lucide-react";
+import { TaskDetailDialog } from "./TaskDetailDialog";
+import { WorkflowSettingsDialog } from "./WorkflowSettingsDialog";
+import { TaskTimer } from "./TaskTimer";
+import { BulkActionsBar } from "./BulkActionsBar";
+import { ItemCounts } from "./ItemCounts";
+import { SnoozeMenu } from "./SnoozeMenu";
+import { SnoozedTasks } from "./SnoozedTasks";
+import { TemplateMenu } from "./TemplateMenu";
+import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
+import { describeRecurrence } from "../utils/recurrence";
+import { getDropNeighbours, isOverUpperHalf } from "../utils/ordering";
+import { getColumnColor, getTaskColumn } from "../utils/workflow";
+import { parseTaskQuery } from "../utils/taskQuery";
+import {
+  MatrixSettings,
+  Quadrant,
+  QUADRANTS,
+  getQuadrant,
+  getQuadrantChanges,
+  loadMatrixSettings,
+  saveMatrixSettings,
+} from "../utils/eisenhower";
 
-type ViewType = "kanban" | "list";
+type ViewType = "kanban" | "list" | "matrix";
 
-export function TasksWidget() {
+const ALL_PROJECTS = "all";
+const COMPLETED_PAGE_SIZE = 20;
+type TaskNode = FunctionReturnType<typeof api.tasks.listTree>[number];
+
+interface TasksWidgetProps {
+  // Only ever show this project's tasks, e.g. on its detail page
+  projectId?: Id<"projects">;
+}
+
+const flattenTasks = (nodes: TaskNode[]): TaskNode[] =>
+  nodes.flatMap((node) => [node, ...flattenTasks(node.subtasks)]);
+
+export function TasksWidget({ projectId: fixedProjectId }: TasksWidgetProps) {
+  const { toast } = useToast();
+  const { undoAction } = useUndo();
   const [view, setView] = useState<ViewType>("kanban");
-  const tasks = useQuery(api.tasks.list) || [];
+  const [selectedTaskId, setSelectedTaskId] = useState<Id<"tasks"> | null>(
+    null
+  );
+  const [expandedTaskIds, setExpandedTaskIds] = useState<Set<Id<"tasks">>>(
+    new Set()
+  );
+  const [pendingToggle, setPendingToggle] = useState<TaskNode | null>(null);
+  // Cards picked for bulk actions with ctrl/cmd- and shift-click; the anchor
+  // is where a shift-click range starts
+  const [checkedIds, setCheckedIds] = useState<Set<Id<"tasks">>>(new Set());
+  const [anchorId, setAnchorId] = useState<Id<"tasks"> | null>(null);
+  const [workflowSettingsOpen, setWorkflowSettingsOpen] = useState(false);
+  // Show one project's tasks in that project's workflow, or all tasks in the
+  // default workflow
+  const [projectFilter, setProjectFilter] = useState<string>(
+    fixedProjectId ?? ALL_PROJECTS
+  );
+  const projectId =
+    projectFilter === ALL_PROJECTS ? null : (projectFilter as Id<"projects">);
+  const projects = useQuery(api.projects.list) || [];
+  const workflow = useQuery(api.workflows.get, projectId ? { projectId } : {});
+  const columns = workflow?.columns ?? [];
+  // With all tasks shown, tasks of projects with their own workflow sit in
+  // the default columns but can't be moved between them
+  const customWorkflowProjectIds = new Set(
+    useQuery(api.workflows.listCustomProjectIds, projectId ? "skip" : {}) ?? []
+  );
+  // Top-level tasks, each carrying its nested subtasks
+  const openTasks =
+    useQuery(api.tasks.listTree, projectId ? { projectId } : {}) || [];
+
+  // Filter query typed by the user, applied on submit or loaded from the
+  // saved view in the URL
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const viewId = searchParams.get("view") as Id<"taskViews"> | null;
+  const [queryText, setQueryText] = useState("");
+  const [appliedQuery, setAppliedQuery] = useState("");
+  const [newViewName, setNewViewName] = useState<string | null>(null);
+  const today = startOfDay(new Date()).getTime();
+  const views = useQuery(api.taskViews.list, { today }) || [];
+  const activeView = views.find((v) => v._id === viewId);
+  const activeViewQuery = activeView?.query;
+  useEffect(() => {
+    if (activeViewQuery === undefined) return;
+    setQueryText(activeViewQuery);
+    setAppliedQuery(activeViewQuery);
+  }, [viewId, activeViewQuery]);
+  const { clauses, errors: queryErrors } = parseTaskQuery(appliedQuery);
+  const isFiltered = clauses.length > 0;
+  const filteredTasks = useQuery(
+    api.tasks.listFiltered,
+    isFiltered ? { clauses, today, ...(projectId && { projectId }) } : "skip"
+  );
+  // Completed tasks can run into the thousands, so they're paged in, most
+  // recently completed first
+  const {
+    results: completedTasks,
+    status: completedStatus,
+    loadMore: loadMoreCompleted,
+  } = usePaginatedQuery(
+    api.tasks.listCompleted,
+    isFiltered ? "skip" : projectId ? { projectId } : {},
+    { initialNumItems: COMPLETED_PAGE_SIZE }
+  );
+  const allTasks = [...openTasks, ...completedTasks];
+  const createView = useMutation(api.taskViews.create);
+  const updateView = useMutation(api.taskViews.update);
+  const removeView = useMutation(api.taskViews.remove);
+
+  const tasks = isFiltered ? (filteredTasks ?? []) : allTasks;
+  // Look the task up on every render so the dialog reflects live updates
+  const selectedTask =
+    flattenTasks([...allTasks, ...(filteredTasks ?? [])]).find(
+      (t) => t._id === selectedTaskId
+    ) ?? null;
   const toggleTask = useMutation(api.tasks.toggle);
-  const updateTaskStatus = useMutation(api.tasks.updateStatus);
+  const reorderTask = useMutation(api.tasks.reorder);
+  const updateTask = useMutation(api.tasks.update);
+
+  // The matrix sorts open tasks by urgency (due date) and importance
+  // (priority)
+  const [matrixSettings, setMatrixSettings] = useState(loadMatrixSettings);
+  const tasksByQuadrant = QUADRANTS.map((quadrant) => ({
+    quadrant,
+    quadrantTasks: tasks.filter(
+      (t) =>
+        !t.completed &&
+        getQuadrant(t, new Date(today), matrixSettings) === quadrant.id
+    ),
+  }));
+
+  // Cards in the order they're shown, for shift-click ranges
+  const visibleTasks =
+    view === "kanban"
+      ? columns.flatMap((column) =>
+          tasks.filter(
+            (t) => getTaskColumn(columns, t)?.status === column.status
+          )
+        )
+      : view === "matrix"
+        ? tasksByQuadrant.flatMap(({ quadrantTasks }) => quadrantTasks)
+        : tasks;
+  // Selected tasks that are still on screen
+  const checkedTaskIds = visibleTasks
+    .filter((t) => checkedIds.has(t._id))
+    .map((t) => t._id);
 
   const getPriorityColor = (priority: string | undefined) => {
     switch (priority) {
@@ -38,26 +216,345 @@ export function TasksWidget() {
     e.preventDefault();
   };
 
-  const handleDrop = async (e: React.DragEvent, status: string) => {
+  const showError = (err: unknown) => {
+    toast({
+      title: "Error",
+      description: err instanceof Error ? err.message : "Unknown error",
+      variant: "destructive",
+    });
+  };
+
+  // Let the user know which tasks completing a blocker has freed up
+  const notifyUnblocked = (unblockedTasks: { title: string }[]) => {
+    if (unblockedTasks.length === 0) return;
+    toast({
+      title: "Tasks unblocked",
+      description: unblockedTasks.map((t) => t.title).join(", "),
+    });
+  };
+
+  // Dropping on a card places the task above or below it; dropping on the
+  // column background moves it to the end of the column
+  const handleDrop = async (
+    e: React.DragEvent,
+    status: string,
+    columnTasks: TaskNode[],
+    overTaskId?: Id<"tasks">
+  ) => {
+    e.preventDefault();
+    const taskId = e.dataTransfer.getData("taskId") as Id<"tasks">;
+    if (!taskId || taskId === overTaskId) return;
+    const neighbours = getDropNeighbours(
+      columnTasks.map((t) => t._id),
+      taskId,
+      overTaskId,
+      overTaskId !== undefined && isOverUpperHalf(e)
+    );
+    const task = flattenTasks(tasks).find((t) => t._id === taskId);
+    if (
+      !projectId &&
+      task?.projectId &&
+      customWorkflowProjectIds.has(task.projectId)
+    ) {
+      toast({
+        title: "Task follows its project's workflow",
+        description: "Show its project's tasks to move it between columns",
+        variant: "destructive",
+      });
+      return;
+    }
+    const column = columns.find((c) => c.status === status);
+    const completing = !!column?.completed;
+    if (completing && task?.isBlocked) {
+      toast({
+        title: "Task is blocked",
+        description: "Complete the tasks blocking it first",
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      const {
+        result: { unblockedTasks },
+        undoEntryId,
+      } = await reorderTask({
+        id: taskId,
+        status,
+        ...neighbours,
+      });
+      if (task && column && getTaskColumn(columns, task) !== column) {
+        toast({
+          title: "Task moved",
+          description: `"${task.title}" moved to ${column.name}`,
+          action: undoAction(undoEntryId),
+        });
+      }
+      notifyUnblocked(unblockedTasks);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  // Dropping a task on a quadrant changes its priority and due date to match
+  const handleMatrixDrop = async (e: React.DragEvent, quadrant: Quadrant) => {
     e.preventDefault();
     const taskId = e.dataTransfer.getData("taskId") as Id<"tasks">;
-    void updateTaskStatus({ id: taskId, status });
+    const task = tasks.find((t) => t._id === taskId);
+    if (!task) return;
+    const changes = getQuadrantChanges(
+      task,
+      quadrant,
+      new Date(today),
+      matrixSettings
+    );
+    if (changes.priority === undefined && changes.dueDate === undefined) {
+      return;
+    }
+    try {
+      const { undoEntryId } = await updateTask({ id: taskId, ...changes });
+      toast({
+        title: "Task moved",
+        description: `"${task.title}" moved to ${
+          QUADRANTS.find((q) => q.id === quadrant)?.label
+        }`,
+        action: undoAction(undoEntryId),
+      });
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleUrgentDaysChange = (value: string) => {
+    const days = Math.floor(Number(value));
+    if (!Number.isFinite(days) || days < 1) return;
+    const next: MatrixSettings = { ...matrixSettings, urgentWithinDays: days };
+    setMatrixSettings(next);
+    saveMatrixSettings(next);
+  };
+
+  const runToggle = async (task: TaskNode, includeSubtasks?: boolean) => {
+    try {
+      const {
+        result: { unblockedTasks },
+        undoEntryId,
+      } = await toggleTask({
+        id: task._id,
+        includeSubtasks,
+      });
+      toast({
+        title: task.completed ? "Task reopened" : "Task completed",
+        description: `"${task.title}"`,
+        action: undoAction(undoEntryId),
+      });
+      notifyUnblocked(unblockedTasks);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const clearQuery = () => {
+    setQueryText("");
+    setAppliedQuery("");
+    if (viewId) {
+      setSearchParams((params) => {
+        params.delete("view");
+        return params;
+      });
+    }
+  };
+
+  const handleSaveView = async () => {
+    if (!newViewName?.trim()) return;
+    try {
+      const id = await createView({
+        name: newViewName,
+        query: queryText,
+        clauses: parseTaskQuery(queryText).clauses,
+      });
+      setNewViewName(null);
+      void navigate(`/tasks?view=${id}`);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleUpdateView = async () => {
+    if (!activeView) return;
+    try {
+      await updateView({
+        id: activeView._id,
+        query: queryText,
+        clauses: parseTaskQuery(queryText).clauses,
+      });
+      setAppliedQuery(queryText);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleRemoveView = async () => {
+    if (!activeView) return;
+    try {
+      await removeView({ id: activeView._id });
+      clearQuery();
+    } catch (err) {
+      showError(err);
+    }
   };
 
-  const TaskCard = ({ task }: { task: Doc<"tasks"> }) => (
+  // Ctrl/cmd-click toggles a card, shift-click selects the range from the
+  // last toggled card and a plain click opens the task
+  const handleCardClick = (e: React.MouseEvent, taskId: Id<"tasks">) => {
+    if (e.shiftKey && anchorId) {
+      const ids = visibleTasks.map((t) => t._id);
+      const from = ids.indexOf(anchorId);
+      const to = ids.indexOf(taskId);
+      if (from !== -1 && to !== -1) {
+        e.preventDefault();
+        const range = ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+        setCheckedIds((prev) => new Set([...prev, ...range]));
+        return;
+      }
+    }
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      e.preventDefault();
+      setCheckedIds((prev) => {
+        const next = new Set(prev);
+        if (next.has(taskId)) next.delete(taskId);
+        else next.add(taskId);
+        return next;
+      });
+      setAnchorId(taskId);
+      return;
+    }
+    setSelectedTaskId(taskId);
+  };
+
+  const selectionClass = (taskId: Id<"tasks">) =>
+    checkedIds.has(taskId) ? "ring-2 ring-primary" : "";
+
+  const toggleExpanded = (taskId: Id<"tasks">) => {
+    setExpandedTaskIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId);
+      else next.add(taskId);
+      return next;
+    });
+  };
+
+  // Completing a parent with open subtasks asks whether to complete them too
+  const handleToggle = (task: TaskNode) => {
+    if (!task.completed && task.completedSubtaskCount < task.subtaskCount) {
+      setPendingToggle(task);
+      return;
+    }
+    void runToggle(task);
+  };
+
+  const StatusBadge = ({ task }: { task: TaskNode }) => {
+    const column = getTaskColumn(columns, task);
+    return column ? (
+      <Badge className={getColumnColor(column.color).badge}>
+        {column.name}
+      </Badge>
+    ) : null;
+  };
+
+  const BlockedBadge = ({ task }: { task: TaskNode }) =>
+    task.isBlocked && !task.completed ? (
+      <Badge
+        variant="outline"
+        className="flex items-center gap-1 text-xs text-muted-foreground"
+      >
+        <LockIcon className="h-3 w-3" />
+        blocked
+      </Badge>
+    ) : null;
+
+  const SubtaskToggle = ({ task }: { task: TaskNode }) => {
+    if (task.subtaskCount === 0) return null;
+    const isExpanded = expandedTaskIds.has(task._id);
+    return (
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          toggleExpanded(task._id);
+        }}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+      >
+        {isExpanded ? (
+          <ChevronDownIcon className="h-3 w-3" />
+        ) : (
+          <ChevronRightIcon className="h-3 w-3" />
+        )}
+        <span>
+          {task.completedSubtaskCount}/{task.subtaskCount} done
+        </span>
+      </button>
+    );
+  };
+
+  const SubtaskList = ({ subtasks }: { subtasks: TaskNode[] }) => (
+    <ul className="mt-2 space-y-1 border-l pl-3">
+      {subtasks.map((subtask) => (
+        <li key={subtask._id}>
+          <div
+            className="flex items-center gap-2 text-sm cursor-pointer"
+            onClick={(e) => {
+              e.stopPropagation();
+              setSelectedTaskId(subtask._id);
+            }}
+          >
+            <Checkbox
+              checked={subtask.completed}
+              disabled={subtask.isBlocked && !subtask.completed}
+              onCheckedChange={() => handleToggle(subtask)}
+              onClick={(e) => e.stopPropagation()}
+            />
+            <span
+              className={
+                subtask.completed ? "line-through text-muted-foreground" : ""
+              }
+            >
+              {subtask.title}
+            </span>
+            <BlockedBadge task={subtask} />
+            {subtask.subtaskCount > 0 && (
+              <span className="text-xs text-muted-foreground">
+                {subtask.completedSubtaskCount}/{subtask.subtaskCount}
+              </span>
+            )}
+          </div>
+          {subtask.subtasks.length > 0 && (
+            <SubtaskList subtasks={subtask.subtasks} />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
+  const TaskCard = ({
+    task,
+    onDrop,
+  }: {
+    task: TaskNode;
+    onDrop?: (e: React.DragEvent) => void;
+  }) => (
     <Card
       key={task._id}
       draggable
       onDragStart={(e) => handleDragStart(e, task._id)}
-      className="cursor-move hover:shadow-md transition-shadow"
+      onDrop={onDrop}
+      onClick={(e) => handleCardClick(e, task._id)}
+      className={`cursor-move hover:shadow-md transition-shadow select-none ${selectionClass(task._id)}`}
     >
       <CardContent className="p-3">
         <div className="flex items-center gap-2 mb-2">
           <Checkbox
             checked={task.completed}
-            onCheckedChange={() => {
-              void toggleTask({ id: task._id });
-            }}
+            disabled={task.isBlocked && !task.completed}
+            onCheckedChange={() => handleToggle(task)}
             onClick={(e) => e.stopPropagation()}
           />
           <span
@@ -69,11 +566,30 @@ export function TasksWidget() {
           >
             {task.title}
           </span>
+          <span className="ml-auto flex items-center gap-1">
+            {!task.completed && <SnoozeMenu task={task} />}
+            <TaskTimer
+              taskId={task._id}
+              estimateMinutes={task.estimateMinutes}
+            />
+          </span>
         </div>
         <div className="flex items-center gap-2 mb-2">
           <Badge className={`${getPriorityColor(task.priority)}`}>
             {task.priority || "medium"}
           </Badge>
+          <BlockedBadge task={task} />
+          {task.recurrenceRule && (
+            <span
+              className="flex items-center gap-1 text-xs text-muted-foreground"
+              title={describeRecurrence(task.recurrenceRule)}
+            >
+              <RepeatIcon className="h-3 w-3" />
+              <span>{describeRecurrence(task.recurrenceRule)}</span>
+            </span>
+          )}
+          <SubtaskToggle task={task} />
+          <ItemCounts itemId={task._id} />
         </div>
         {task.description && (
           <p className="text-sm text-muted-foreground mb-2">
@@ -97,45 +613,71 @@ export function TasksWidget() {
             ))}
           </div>
         )}
+        {expandedTaskIds.has(task._id) && (
+          <SubtaskList subtasks={task.subtasks} />
+        )}
       </CardContent>
     </Card>
   );
 
+  const LoadMoreCompleted = () =>
+    !isFiltered && completedStatus !== "Exhausted" ? (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="w-full text-muted-foreground"
+        disabled={completedStatus !== "CanLoadMore"}
+        onClick={() => loadMoreCompleted(COMPLETED_PAGE_SIZE)}
+      >
+        {completedStatus === "CanLoadMore"
+          ? "Show more completed tasks"
+          : "Loading..."}
+      </Button>
+    ) : null;
+
   const KanbanView = () => {
-    const columns = {
-      todo: tasks.filter(
-        (t) => (!t.status || t.status === "todo") && !t.completed
-      ),
-      in_progress: tasks.filter(
-        (t) => t.status === "in_progress" && !t.completed
+    const tasksByColumn = columns.map((column) => ({
+      column,
+      columnTasks: tasks.filter(
+        (t) => getTaskColumn(columns, t)?.status === column.status
       ),
-      done: tasks.filter((t) => t.completed),
-    };
+    }));
 
     return (
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        {Object.entries(columns).map(([status, columnTasks]) => (
+      <div className="grid grid-cols-1 md:grid-flow-col md:auto-cols-[minmax(14rem,1fr)] gap-4 overflow-x-auto">
+        {tasksByColumn.map(({ column, columnTasks }) => (
           <div
-            key={status}
+            key={column.status}
             className="bg-muted/50 p-4 rounded-lg"
             onDragOver={handleDragOver}
             onDrop={(e) => {
-              void handleDrop(e, status);
+              void handleDrop(e, column.status, columnTasks);
             }}
           >
-            <h3 className="text-sm font-medium mb-4 capitalize flex items-center">
-              <span>{status.replace("_", " ")}</span>
+            <h3 className="text-sm font-medium mb-4 flex items-center">
+              <span
+                className={`h-2 w-2 rounded-full mr-2 ${getColumnColor(column.color).dot}`}
+              />
+              <span>{column.name}</span>
               <Badge className="ml-2">{columnTasks.length}</Badge>
             </h3>
             <div className="space-y-3">
               {columnTasks.map((task) => (
-                <TaskCard key={task._id} task={task} />
+                <TaskCard
+                  key={task._id}
+                  task={task}
+                  onDrop={(e) => {
+                    e.stopPropagation();
+                    void handleDrop(e, column.status, columnTasks, task._id);
+                  }}
+                />
               ))}
               {columnTasks.length === 0 && (
                 <div className="text-center py-6 text-muted-foreground text-sm">
                   No tasks
                 </div>
               )}
+              {column.completed && <LoadMoreCompleted />}
             </div>
           </div>
         ))}
@@ -147,17 +689,21 @@ export function TasksWidget() {
     <div className="space-y-2">
       {tasks.length === 0 ? (
         <div className="text-center py-10 text-muted-foreground">
-          No tasks yet
+          {isFiltered ? "No matching tasks" : "No tasks yet"}
         </div>
       ) : (
         tasks.map((task) => (
-          <Card key={task._id} className="transition-colors">
+          <Card
+            key={task._id}
+            onClick={(e) => handleCardClick(e, task._id)}
+            className={`cursor-pointer hover:bg-muted/30 transition-colors select-none ${selectionClass(task._id)}`}
+          >
             <CardContent className="p-3 flex items-start gap-3">
               <Checkbox
                 checked={task.completed}
-                onCheckedChange={() => {
-                  void toggleTask({ id: task._id });
-                }}
+                disabled={task.isBlocked && !task.completed}
+                onCheckedChange={() => handleToggle(task)}
+                onClick={(e) => e.stopPropagation()}
                 className="mt-1"
               />
               <div className="flex-1">
@@ -174,7 +720,15 @@ export function TasksWidget() {
                   <Badge className={`${getPriorityColor(task.priority)}`}>
                     {task.priority || "medium"}
                   </Badge>
-                  <Badge>{task.status || "todo"}</Badge>
+                  <StatusBadge task={task} />
+                  <BlockedBadge task={task} />
+                  {task.recurrenceRule && (
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <RepeatIcon className="h-3 w-3" />
+                      <span>{describeRecurrence(task.recurrenceRule)}</span>
+                    </span>
+                  )}
+                  <SubtaskToggle task={task} />
                 </div>
                 {task.description && (
                   <p className="text-sm text-muted-foreground mt-1">
@@ -198,11 +752,48 @@ export function TasksWidget() {
                     ))}
                   </div>
                 )}
+                {expandedTaskIds.has(task._id) && (
+                  <SubtaskList subtasks={task.subtasks} />
+                )}
               </div>
             </CardContent>
           </Card>
         ))
       )}
+      <LoadMoreCompleted />
+    </div>
+  );
+
+  const MatrixView = () => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {tasksByQuadrant.map(({ quadrant, quadrantTasks }) => (
+        <div
+          key={quadrant.id}
+          className="bg-muted/50 p-4 rounded-lg min-h-[12rem]"
+          onDragOver={handleDragOver}
+          onDrop={(e) => {
+            void handleMatrixDrop(e, quadrant.id);
+          }}
+        >
+          <h3 className="text-sm font-medium flex items-center">
+            <span>{quadrant.label}</span>
+            <Badge className="ml-2">{quadrantTasks.length}</Badge>
+          </h3>
+          <p className="text-xs text-muted-foreground mb-4">
+            {quadrant.description}
+          </p>
+          <div className="space-y-3">
+            {quadrantTasks.map((task) => (
+              <TaskCard key={task._id} task={task} />
+            ))}
+            {quadrantTasks.length === 0 && (
+              <div className="text-center py-6 text-muted-foreground text-sm">
+                No tasks
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
     </div>
   );
 
@@ -211,10 +802,36 @@ export function TasksWidget() {
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
           <CardTitle className="text-xl font-heading">Tasks</CardTitle>
+          <div className="flex items-center gap-2">
+            <TemplateMenu projectId={projectId ?? undefined} />
+            {!fixedProjectId && (
+              <Select value={projectFilter} onValueChange={setProjectFilter}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder="All tasks" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_PROJECTS}>All tasks</SelectItem>
+                  {projects.map((project) => (
+                    <SelectItem key={project._id} value={project._id}>
+                      {project.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setWorkflowSettingsOpen(true)}
+              aria-label="Edit workflow"
+            >
+              <Settings2Icon className="h-4 w-4" />
+            </Button>
+          </div>
           <Tabs
             value={view}
             onValueChange={(v) => setView(v as ViewType)}
-            className="w-[200px]"
+            className="w-[300px]"
           >
             <TabsList>
               <TabsTrigger value="kanban" className="flex items-center gap-1">
@@ -225,14 +842,197 @@ export function TasksWidget() {
                 <ListIcon className="h-4 w-4" />
                 <span>List</span>
               </TabsTrigger>
+              <TabsTrigger value="matrix" className="flex items-center gap-1">
+                <Grid2x2Icon className="h-4 w-4" />
+                <span>Matrix</span>
+              </TabsTrigger>
             </TabsList>
           </Tabs>
         </div>
       </CardHeader>
       <Separator />
       <CardContent className="pt-6">
-        {view === "kanban" ? <KanbanView /> : <ListView />}
+        <div className="mb-6 space-y-2">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setAppliedQuery(queryText);
+            }}
+            className="flex items-center gap-2"
+          >
+            <div className="relative flex-1">
+              <SearchIcon className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={queryText}
+                onChange={(e) => setQueryText(e.target.value)}
+                placeholder='Filter, e.g. tag:work due:<7d priority:high -status:done project:"Website"'
+                className="pl-8"
+              />
+            </div>
+            {(queryText || appliedQuery) && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={clearQuery}
+                aria-label="Clear filter"
+              >
+                <XIcon className="h-4 w-4" />
+              </Button>
+            )}
+            {activeView ? (
+              <>
+                {queryText !== activeView.query && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      void handleUpdateView();
+                    }}
+                  >
+                    <SaveIcon className="mr-1 h-4 w-4" />
+                    Update view
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    void handleRemoveView();
+                  }}
+                  aria-label="Delete view"
+                >
+                  <Trash2Icon className="h-4 w-4" />
+                </Button>
+              </>
+            ) : (
+              queryText.trim() &&
+              newViewName === null && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setNewViewName("")}
+                >
+                  <BookmarkPlusIcon className="mr-1 h-4 w-4" />
+                  Save view
+                </Button>
+              )
+            )}
+          </form>
+          {newViewName !== null && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                void handleSaveView();
+              }}
+              className="flex items-center gap-2"
+            >
+              <Input
+                autoFocus
+                value={newViewName}
+                onChange={(e) => setNewViewName(e.target.value)}
+                placeholder="View name"
+              />
+              <Button type="submit" size="sm" disabled={!newViewName.trim()}>
+                Save
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setNewViewName(null)}
+              >
+                Cancel
+              </Button>
+            </form>
+          )}
+          {queryErrors.length > 0 && (
+            <p className="text-xs text-destructive">
+              {queryErrors.join(" · ")}
+            </p>
+          )}
+        </div>
+        {checkedTaskIds.length > 0 && (
+          <BulkActionsBar
+            taskIds={checkedTaskIds}
+            columns={columns}
+            projects={projects}
+            onSelectionChange={(ids) => setCheckedIds(new Set(ids))}
+          />
+        )}
+        {view === "matrix" && (
+          <div className="mb-4 flex items-center gap-2 text-sm text-muted-foreground">
+            <span>Urgent when due within</span>
+            <Input
+              type="number"
+              min={1}
+              value={matrixSettings.urgentWithinDays}
+              onChange={(e) => handleUrgentDaysChange(e.target.value)}
+              className="h-8 w-16"
+              aria-label="Urgency threshold in days"
+            />
+            <span>days · important when priority is high</span>
+          </div>
+        )}
+        {view === "kanban" ? (
+          <KanbanView />
+        ) : view === "list" ? (
+          <ListView />
+        ) : (
+          <MatrixView />
+        )}
+        <SnoozedTasks />
       </CardContent>
+      <WorkflowSettingsDialog
+        open={workflowSettingsOpen}
+        onOpenChange={setWorkflowSettingsOpen}
+        projectId={projectId}
+      />
+      <TaskDetailDialog
+        task={selectedTask}
+        onOpenChange={(open) => {
+          if (!open) setSelectedTaskId(null);
+        }}
+      />
+      <AlertDialog
+        open={pendingToggle !== null}
+        onOpenChange={(open) => {
+          if (!open) setPendingToggle(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Complete subtasks too?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingToggle?.title}" has{" "}
+              {pendingToggle
+                ? pendingToggle.subtaskCount -
+                  pendingToggle.completedSubtaskCount
+                : 0}{" "}
+              open subtasks.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel
+              onClick={() => {
+                if (pendingToggle) void runToggle(pendingToggle);
+              }}
+            >
+              Only this task
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingToggle) void runToggle(pendingToggle, true);
+              }}
+            >
+              Complete all
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
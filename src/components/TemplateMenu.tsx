@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { TaskTemplatesDialog } from "./TaskTemplatesDialog";
+import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
+import { getTemplateDay } from "../utils/taskTemplates";
+import { LayoutTemplateIcon } from "lucide-react";
+
+interface TemplateMenuProps {
+  // Put the new task in this project instead of the template's own
+  projectId?: Id<"projects">;
+  source?: "ui" | "quickCapture";
+}
+
+// Create a task from one of the user's templates, or manage them
+export function TemplateMenu({ projectId, source }: TemplateMenuProps) {
+  const { toast } = useToast();
+  const { undoAction } = useUndo();
+  const templates = useQuery(api.taskTemplates.list) || [];
+  const instantiate = useMutation(api.taskTemplates.instantiate);
+  const [manageOpen, setManageOpen] = useState(false);
+
+  const handleUse = async (template: Doc<"taskTemplates">) => {
+    try {
+      const { undoEntryId } = await instantiate({
+        id: template._id,
+        ...getTemplateDay(),
+        projectId,
+        source,
+      });
+      toast({
+        title: "Task created",
+        description: `From the "${template.name}" template`,
+        action: undoAction(undoEntryId),
+      });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: `Failed to create task from template: ${err instanceof Error ? err.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button type="button" variant="outline" size="sm">
+            <LayoutTemplateIcon className="mr-2 h-4 w-4" />
+            Templates
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>New task from template</DropdownMenuLabel>
+          {templates.length === 0 ? (
+            <DropdownMenuItem disabled>No templates yet</DropdownMenuItem>
+          ) : (
+            templates.map((template) => (
+              <DropdownMenuItem
+                key={template._id}
+                onSelect={() => void handleUse(template)}
+              >
+                {template.name}
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setManageOpen(true)}>
+            Manage templates...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <TaskTemplatesDialog open={manageOpen} onOpenChange={setManageOpen} />
+    </>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { addDays, addWeeks, format, startOfWeek } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Separator } from "./ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { useToast } from "../hooks/use-toast";
+import { useNow } from "../hooks/useNow";
+import { formatDuration, minutesToMs } from "../utils/duration";
+import { ChevronLeftIcon, ChevronRightIcon, Trash2Icon } from "lucide-react";
+
+const NO_PROJECT = "none";
+
+/**
+ * Weekly time report: tracked time per project and day, the week's entries,
+ * and estimated vs tracked time for tasks with an estimate.
+ */
+export function TimeReportWidget() {
+  const { toast } = useToast();
+  const [weekStart, setWeekStart] = useState(() =>
+    startOfWeek(new Date(), { weekStartsOn: 1 })
+  );
+  const from = weekStart.getTime();
+  const to = addWeeks(weekStart, 1).getTime();
+  const report = useQuery(api.timeEntries.report, { from, to });
+  const projects = useQuery(api.projects.list) || [];
+  const removeEntry = useMutation(api.timeEntries.remove);
+  const entries = report?.entries ?? [];
+  // Running entries count up to now
+  const now = useNow(
+    60 * 1000,
+    entries.some((e) => e.end === undefined)
+  );
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const projectTitle = (projectId: string) =>
+    projects.find((p) => p._id === projectId)?.title ?? "No project";
+
+  // Milliseconds per project per day, splitting entries that cross midnight
+  const byProject = new Map<string, number[]>();
+  for (const entry of entries) {
+    const key = entry.projectId ?? NO_PROJECT;
+    const totals = byProject.get(key) ?? days.map(() => 0);
+    days.forEach((day, i) => {
+      const dayStart = day.getTime();
+      const dayEnd = addDays(day, 1).getTime();
+      const overlap =
+        Math.min(entry.end ?? now, dayEnd) - Math.max(entry.start, dayStart);
+      if (overlap > 0) totals[i] += overlap;
+    });
+    byProject.set(key, totals);
+  }
+  const rows = [...byProject].sort(([a], [b]) =>
+    projectTitle(a).localeCompare(projectTitle(b))
+  );
+  const dayTotals = days.map((_, i) =>
+    rows.reduce((total, [, totals]) => total + totals[i], 0)
+  );
+  const weekTotal = dayTotals.reduce((total, ms) => total + ms, 0);
+
+  const handleRemove = async (id: Id<"timeEntries">) => {
+    try {
+      await removeEntry({ id });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: `Failed to delete time entry: ${err instanceof Error ? err.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl font-heading">Time</CardTitle>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setWeekStart(addWeeks(weekStart, -1))}
+              aria-label="Previous week"
+            >
+              <ChevronLeftIcon className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium">
+              {format(weekStart, "MMM d")} –{" "}
+              {format(addDays(weekStart, 6), "MMM d, yyyy")}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setWeekStart(addWeeks(weekStart, 1))}
+              aria-label="Next week"
+            >
+              <ChevronRightIcon className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <Separator />
+      <CardContent className="pt-6 space-y-8">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Project</TableHead>
+              {days.map((day) => (
+                <TableHead key={day.getTime()} className="text-right">
+                  {format(day, "EEE d")}
+                </TableHead>
+              ))}
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell
+                  colSpan={9}
+                  className="text-center text-muted-foreground"
+                >
+                  No time tracked this week
+                </TableCell>
+              </TableRow>
+            )}
+            {rows.map(([projectId, totals]) => (
+              <TableRow key={projectId}>
+                <TableCell className="font-medium">
+                  {projectTitle(projectId)}
+                </TableCell>
+                {totals.map((ms, i) => (
+                  <TableCell key={i} className="text-right tabular-nums">
+                    {ms > 0 ? formatDuration(ms) : "–"}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right tabular-nums font-medium">
+                  {formatDuration(totals.reduce((a, b) => a + b, 0))}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          {rows.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                {dayTotals.map((ms, i) => (
+                  <TableCell key={i} className="text-right tabular-nums">
+                    {formatDuration(ms)}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right tabular-nums">
+                  {formatDuration(weekTotal)}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+
+        {entries.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Entries</h3>
+            <ul className="divide-y rounded-md border">
+              {[...entries]
+                .sort((a, b) => b.start - a.start)
+                .map((entry) => (
+                  <li
+                    key={entry._id}
+                    className="flex items-center gap-3 px-3 py-2 text-sm"
+                  >
+                    <span className="w-32 text-muted-foreground">
+                      {format(entry.start, "EEE p")}
+                      {entry.end !== undefined &&
+                        ` – ${format(entry.end, "p")}`}
+                    </span>
+                    <span className="flex-1 truncate">
+                      {entry.taskTitle}
+                      {entry.note && (
+                        <span className="text-muted-foreground">
+                          {" "}
+                          · {entry.note}
+                        </span>
+                      )}
+                    </span>
+                    <span className="tabular-nums">
+                      {entry.end === undefined
+                        ? "Running"
+                        : formatDuration(entry.end - entry.start)}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => {
+                        void handleRemove(entry._id);
+                      }}
+                      aria-label="Delete time entry"
+                    >
+                      <Trash2Icon className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+            </ul>
+          </div>
+        )}
+
+        {report && report.estimates.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Estimates vs actuals</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Task</TableHead>
+                  <TableHead className="text-right">Estimate</TableHead>
+                  <TableHead className="text-right">Tracked</TableHead>
+                  <TableHead className="text-right">Difference</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.estimates.map((row) => {
+                  const estimateMs = minutesToMs(row.estimateMinutes);
+                  const difference = row.trackedMs - estimateMs;
+                  return (
+                    <TableRow key={row.taskId}>
+                      <TableCell
+                        className={row.completed ? "text-muted-foreground" : ""}
+                      >
+                        {row.title}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatDuration(estimateMs)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatDuration(row.trackedMs)}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right tabular-nums ${
+                          difference > 0
+                            ? "text-destructive"
+                            : "text-emerald-600"
+                        }`}
+                      >
+                        {difference > 0 ? "+" : "−"}
+                        {formatDuration(Math.abs(difference))}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
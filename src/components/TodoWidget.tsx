@@ -1,10 +1,10 @@
 import { useState } from "react";
 import { useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
-import { Doc } from "../../convex/_generated/dataModel";
+import { Doc, Id } from "../../convex/_generated/dataModel";
 
 export function TodoWidget() {
-  const tasks = useQuery(api.tasks.list);
+  const tasks = useQuery(api.tasks.list, {});
   const [newTask, setNewTask] = useState("");
   const createTask = useMutation(api.tasks.create);
   const updateTask = useMutation(api.tasks.update);
@@ -31,7 +31,7 @@ export function TodoWidget() {
     });
   };
 
-  const handleDeleteTask = async (id: string) => {
+  const handleDeleteTask = async (id: Id<"tasks">) => {
     await deleteTask({ id });
   };
 
@@ -0,0 +1,182 @@
+import { ReactNode, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { FunctionReturnType } from "convex/server";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Separator } from "./ui/separator";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import { useToast } from "../hooks/use-toast";
+import { useUndo } from "../hooks/useUndo";
+import {
+  BookmarkIcon,
+  CalendarIcon,
+  CheckSquareIcon,
+  FileTextIcon,
+  FolderIcon,
+  RotateCcwIcon,
+  Trash2Icon,
+} from "lucide-react";
+
+type TrashItem = FunctionReturnType<typeof api.trash.list>[number];
+
+const TABLE_LABELS: Record<
+  TrashItem["table"],
+  { label: string; icon: ReactNode }
+> = {
+  tasks: { label: "Task", icon: <CheckSquareIcon className="h-4 w-4" /> },
+  projects: { label: "Project", icon: <FolderIcon className="h-4 w-4" /> },
+  notes: { label: "Note", icon: <FileTextIcon className="h-4 w-4" /> },
+  bookmarks: { label: "Bookmark", icon: <BookmarkIcon className="h-4 w-4" /> },
+  events: { label: "Event", icon: <CalendarIcon className="h-4 w-4" /> },
+};
+
+/**
+ * Deleted tasks, projects, notes, bookmarks and events. Items can be restored
+ * until they're purged 30 days after deletion.
+ */
+export function TrashWidget() {
+  const { toast } = useToast();
+  const { undoAction } = useUndo();
+  const items = useQuery(api.trash.list) || [];
+  const restore = useMutation(api.trash.restore);
+  const remove = useMutation(api.trash.remove);
+  const empty = useMutation(api.trash.empty);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+  const showError = (action: string, err: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${err instanceof Error ? err.message : "Unknown error"}`,
+      variant: "destructive",
+    });
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      const { undoEntryId } = await restore({ id: item._id });
+      toast({
+        title: `${TABLE_LABELS[item.table].label} restored`,
+        description: item.title,
+        action: undoAction(undoEntryId),
+      });
+    } catch (err) {
+      showError("restore item", err);
+    }
+  };
+
+  const handleRemove = async (item: TrashItem) => {
+    try {
+      await remove({ id: item._id });
+      toast({
+        title: "Deleted permanently",
+        description: item.title,
+      });
+    } catch (err) {
+      showError("delete item", err);
+    }
+  };
+
+  const handleEmpty = async () => {
+    try {
+      await empty({});
+      toast({ title: "Trash emptied" });
+    } catch (err) {
+      showError("empty trash", err);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl font-heading">Trash</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-destructive"
+            disabled={items.length === 0}
+            onClick={() => setConfirmEmpty(true)}
+          >
+            <Trash2Icon className="mr-2 h-4 w-4" />
+            Empty trash
+          </Button>
+        </div>
+      </CardHeader>
+      <Separator />
+      <CardContent className="pt-6">
+        {items.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground">
+            Trash is empty
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {items.map((item) => (
+              <li key={item._id} className="flex items-center gap-3 py-3">
+                <span
+                  className="text-muted-foreground"
+                  title={TABLE_LABELS[item.table].label}
+                >
+                  {TABLE_LABELS[item.table].icon}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium">{item.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {TABLE_LABELS[item.table].label} · Deleted{" "}
+                    {format(item.deletedAt, "MMM d, yyyy")} · Removed for good
+                    on {format(item.purgeAt, "MMM d")}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => void handleRestore(item)}
+                >
+                  <RotateCcwIcon className="mr-2 h-4 w-4" />
+                  Restore
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => void handleRemove(item)}
+                >
+                  Delete forever
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmEmpty} onOpenChange={setConfirmEmpty}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Empty trash?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {items.length} {items.length === 1 ? "item" : "items"} in the
+              trash are deleted permanently, along with their subtasks, tracked
+              time and focus sessions. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => void handleEmpty()}>
+              Empty trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useToast } from "../hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  CheckCircle2Icon,
+  CircleIcon,
+  PlusIcon,
+  Trash2Icon,
+} from "lucide-react";
+import {
+  COLUMN_COLORS,
+  WorkflowColumn,
+  getColumnColor,
+} from "../utils/workflow";
+
+interface WorkflowSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edit this project's workflow instead of the default one
+  projectId: Id<"projects"> | null;
+}
+
+export function WorkflowSettingsDialog({
+  open,
+  onOpenChange,
+  projectId,
+}: WorkflowSettingsDialogProps) {
+  const { toast } = useToast();
+  const scope = projectId ? { projectId } : {};
+  const workflow = useQuery(api.workflows.get, scope);
+  const projects = useQuery(api.projects.list) || [];
+  const addColumn = useMutation(api.workflows.addColumn);
+  const updateColumn = useMutation(api.workflows.updateColumn);
+  const reorderColumns = useMutation(api.workflows.reorderColumns);
+  const removeColumn = useMutation(api.workflows.removeColumn);
+  const resetProjectWorkflow = useMutation(api.workflows.resetProjectWorkflow);
+  const [newColumnName, setNewColumnName] = useState("");
+  const [removing, setRemoving] = useState<WorkflowColumn | null>(null);
+  const [moveTo, setMoveTo] = useState("");
+
+  const columns = workflow?.columns ?? [];
+  const project = projects.find((p) => p._id === projectId);
+
+  const run = async (action: string, fn: () => Promise<unknown>) => {
+    try {
+      await fn();
+    } catch (err) {
+      console.error(`Failed to ${action}:`, err);
+      toast({
+        title: "Error",
+        description: `Failed to ${action}: ${err instanceof Error ? err.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const moveColumn = (index: number, delta: number) => {
+    const statuses = columns.map((c) => c.status);
+    const [moved] = statuses.splice(index, 1);
+    statuses.splice(index + delta, 0, moved);
+    void run("reorder columns", () => reorderColumns({ ...scope, statuses }));
+  };
+
+  const handleAddColumn = async () => {
+    if (!newColumnName.trim()) return;
+    await run("add column", () =>
+      addColumn({ ...scope, name: newColumnName, color: "slate" })
+    );
+    setNewColumnName("");
+  };
+
+  const handleRemove = async () => {
+    if (!removing || !moveTo) return;
+    await run("remove column", () =>
+      removeColumn({ ...scope, status: removing.status, moveTo })
+    );
+    setRemoving(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-heading">
+            {project ? `${project.title} workflow` : "Default workflow"}
+          </DialogTitle>
+          <DialogDescription>
+            {project
+              ? workflow?.inherited
+                ? "This project uses the default workflow. Editing it here gives the project its own columns."
+                : "This project has its own columns."
+              : "Columns used for tasks outside projects with their own workflow."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-2">
+          {columns.map((column, index) => (
+            <ColumnRow
+              // Keyed by name too so the input resets after a rename lands
+              key={`${column.status}:${column.name}`}
+              column={column}
+              isFirst={index === 0}
+              isLast={index === columns.length - 1}
+              onRename={(name) =>
+                void run("rename column", () =>
+                  updateColumn({ ...scope, status: column.status, name })
+                )
+              }
+              onColorChange={(color) =>
+                void run("update column", () =>
+                  updateColumn({ ...scope, status: column.status, color })
+                )
+              }
+              onMakeCompleted={() =>
+                void run("update column", () =>
+                  updateColumn({
+                    ...scope,
+                    status: column.status,
+                    completed: true,
+                  })
+                )
+              }
+              onMove={(delta) => moveColumn(index, delta)}
+              onRemove={() => {
+                setRemoving(column);
+                setMoveTo("");
+              }}
+            />
+          ))}
+        </ul>
+
+        {removing && (
+          <div className="rounded-md border p-3 space-y-2">
+            <Label htmlFor="workflow-move-to">
+              Move tasks in "{removing.name}" to
+            </Label>
+            <div className="flex gap-2">
+              <Select value={moveTo} onValueChange={setMoveTo}>
+                <SelectTrigger id="workflow-move-to">
+                  <SelectValue placeholder="Select a column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {columns
+                    .filter((c) => c.status !== removing.status)
+                    .map((c) => (
+                      <SelectItem key={c.status} value={c.status}>
+                        {c.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="destructive"
+                disabled={!moveTo}
+                onClick={() => {
+                  void handleRemove();
+                }}
+              >
+                Remove
+              </Button>
+              <Button variant="outline" onClick={() => setRemoving(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            void handleAddColumn();
+          }}
+          className="flex gap-2"
+        >
+          <Input
+            placeholder="Add a column..."
+            value={newColumnName}
+            onChange={(e) => setNewColumnName(e.target.value)}
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            size="icon"
+            disabled={!newColumnName.trim()}
+          >
+            <PlusIcon className="h-4 w-4" />
+          </Button>
+        </form>
+
+        {projectId && workflow && !workflow.inherited && (
+          <Button
+            variant="ghost"
+            className="justify-self-start"
+            onClick={() =>
+              void run("reset workflow", () =>
+                resetProjectWorkflow({ projectId })
+              )
+            }
+          >
+            Use the default workflow
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ColumnRow({
+  column,
+  isFirst,
+  isLast,
+  onRename,
+  onColorChange,
+  onMakeCompleted,
+  onMove,
+  onRemove,
+}: {
+  column: WorkflowColumn;
+  isFirst: boolean;
+  isLast: boolean;
+  onRename: (name: string) => void;
+  onColorChange: (color: string) => void;
+  onMakeCompleted: () => void;
+  onMove: (delta: number) => void;
+  onRemove: () => void;
+}) {
+  const [name, setName] = useState(column.name);
+
+  const commitName = () => {
+    if (name.trim() && name.trim() !== column.name) onRename(name);
+    else setName(column.name);
+  };
+
+  return (
+    <li className="flex items-center gap-2">
+      <Select value={column.color} onValueChange={onColorChange}>
+        <SelectTrigger className="w-14" aria-label="Column color">
+          <span
+            className={`h-3 w-3 rounded-full ${getColumnColor(column.color).dot}`}
+          />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(COLUMN_COLORS).map(([color, classes]) => (
+            <SelectItem key={color} value={color}>
+              <span className="flex items-center gap-2 capitalize">
+                <span className={`h-3 w-3 rounded-full ${classes.dot}`} />
+                {color}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+        aria-label="Column name"
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        title={
+          column.completed ? "Completed column" : "Make the completed column"
+        }
+        onClick={column.completed ? undefined : onMakeCompleted}
+      >
+        {column.completed ? (
+          <CheckCircle2Icon className="h-4 w-4 text-emerald-600" />
+        ) : (
+          <CircleIcon className="h-4 w-4 text-muted-foreground" />
+        )}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        disabled={isFirst}
+        onClick={() => onMove(-1)}
+        aria-label="Move column up"
+      >
+        <ArrowUpIcon className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        disabled={isLast}
+        onClick={() => onMove(1)}
+        aria-label="Move column down"
+      >
+        <ArrowDownIcon className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        disabled={column.completed}
+        onClick={onRemove}
+        aria-label="Remove column"
+      >
+        <Trash2Icon className="h-4 w-4" />
+      </Button>
+    </li>
+  );
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react";
+
+/**
+ * The current time, refreshed every `intervalMs` while `enabled` so running
+ * timers re-render as they tick.
+ */
+export function useNow(intervalMs = 1000, enabled = true) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!enabled) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs, enabled]);
+
+  return now;
+}
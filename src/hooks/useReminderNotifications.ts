@@ -0,0 +1,67 @@
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { format } from "date-fns";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "./use-toast";
+
+const canUseBrowserNotifications = () =>
+  typeof window !== "undefined" && "Notification" in window;
+
+/**
+ * Surface reminders delivered by Convex scheduled functions while the app is
+ * open: each pending notification is shown as a toast and, when permitted, a
+ * browser notification, then marked as delivered.
+ */
+export function useReminderNotifications() {
+  const pending = useQuery(api.notifications.listPending);
+  const markDelivered = useMutation(api.notifications.markDelivered);
+  // Guards against showing the same reminder twice before the mutation lands
+  const shownIds = useRef(new Set<Id<"notifications">>());
+
+  useEffect(() => {
+    if (canUseBrowserNotifications() && Notification.permission === "default") {
+      void Notification.requestPermission();
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!pending || pending.length === 0) return;
+    const fresh = pending.filter((n) => !shownIds.current.has(n._id));
+    if (fresh.length === 0) return;
+
+    for (const notification of fresh) {
+      shownIds.current.add(notification._id);
+      const when = notification.dueAt
+        ? `${notification.kind === "event_reminder" ? "Starts" : "Due"} ${format(
+            notification.dueAt,
+            "PPp"
+          )}`
+        : undefined;
+      const description = [when, notification.body].filter(Boolean).join(" · ");
+
+      toast({
+        title:
+          notification.kind === "task_resurfaced"
+            ? `Back from snooze: ${notification.title}`
+            : `Reminder: ${notification.title}`,
+        description: description || undefined,
+      });
+
+      if (
+        canUseBrowserNotifications() &&
+        Notification.permission === "granted"
+      ) {
+        new Notification(notification.title, {
+          body: description,
+          icon: "/logo.svg",
+          tag: notification._id,
+        });
+      }
+    }
+
+    markDelivered({ ids: fresh.map((n) => n._id) }).catch((err) => {
+      console.error("Failed to mark reminders as delivered:", err);
+    });
+  }, [pending, markDelivered]);
+}
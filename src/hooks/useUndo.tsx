@@ -0,0 +1,91 @@
+import { useCallback, useEffect } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "./use-toast";
+
+/**
+ * Undo and redo of recent changes, which the server keeps for a few minutes.
+ * `undoAction` goes on the toast confirming a change, given the undo entry id
+ * the mutation returned, and undoes that change only.
+ */
+export function useUndo() {
+  const { toast } = useToast();
+  const undoMutation = useMutation(api.undo.undo);
+  const redoMutation = useMutation(api.undo.redo);
+
+  const run = useCallback(
+    async (action: "undo" | "redo", entryId?: Id<"undoEntries">) => {
+      try {
+        const result =
+          action === "undo"
+            ? await undoMutation({ entryId })
+            : await redoMutation({});
+        if (!result) {
+          toast({ title: `Nothing to ${action}` });
+        } else if (result.outcome === "changed") {
+          toast({
+            title: `Can't ${action}`,
+            description: `"${result.label}" was changed since, so it was left as it is.`,
+            variant: "destructive",
+          });
+        } else if (result.outcome === "superseded") {
+          toast({
+            title: `Can't ${action}`,
+            description: `Newer changes were made after "${result.label}". Undo those first.`,
+            variant: "destructive",
+          });
+        } else {
+          toast({
+            title: action === "undo" ? "Undone" : "Redone",
+            description: result.label,
+          });
+        }
+      } catch (err) {
+        toast({
+          title: "Error",
+          description: `Failed to ${action}: ${err instanceof Error ? err.message : "Unknown error"}`,
+          variant: "destructive",
+        });
+      }
+    },
+    [undoMutation, redoMutation, toast]
+  );
+
+  const undo = useCallback(() => run("undo"), [run]);
+  const redo = useCallback(() => run("redo"), [run]);
+  const undoAction = (entryId: Id<"undoEntries"> | null) =>
+    entryId ? (
+      <ToastAction altText="Undo" onClick={() => void run("undo", entryId)}>
+        Undo
+      </ToastAction>
+    ) : undefined;
+
+  return { undo, redo, undoAction };
+}
+
+// Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), except while typing in a field,
+// where the browser's own text undo applies
+export function useUndoShortcuts() {
+  const { undo, redo } = useUndo();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== "z" || !(e.ctrlKey || e.metaKey)) return;
+      if (e.repeat) return;
+      const target = e.target as HTMLElement | null;
+      if (
+        target?.isContentEditable ||
+        target?.tagName === "INPUT" ||
+        target?.tagName === "TEXTAREA"
+      ) {
+        return;
+      }
+      e.preventDefault();
+      void (e.shiftKey ? redo() : undo());
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+}
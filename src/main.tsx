@@ -13,10 +13,16 @@ import "./index.css";
 import App from "./App";
 import Home from "./pages/Home";
 import TasksPage from "./pages/TasksPage";
+import TodayPage from "./pages/TodayPage";
+import UpcomingPage from "./pages/UpcomingPage";
 import ProjectsPage from "./pages/ProjectsPage";
+import ProjectDetailPage from "./pages/ProjectDetailPage";
 import NotesPage from "./pages/NotesPage";
 import CalendarPage from "./pages/CalendarPage";
 import BookmarksPage from "./pages/BookmarksPage";
+import TimePage from "./pages/TimePage";
+import FocusPage from "./pages/FocusPage";
+import TrashPage from "./pages/TrashPage";
 import { GoogleAuthCallback } from "./components/GoogleAuthCallback";
 
 // Verify required environment variables
@@ -70,6 +76,14 @@ const router = createBrowserRouter([
         index: true,
         element: <Home />,
       },
+      {
+        path: "today",
+        element: <TodayPage />,
+      },
+      {
+        path: "upcoming",
+        element: <UpcomingPage />,
+      },
       {
         path: "tasks",
         element: <TasksPage />,
@@ -78,6 +92,10 @@ const router = createBrowserRouter([
         path: "projects",
         element: <ProjectsPage />,
       },
+      {
+        path: "projects/:projectId",
+        element: <ProjectDetailPage />,
+      },
       {
         path: "notes",
         element: <NotesPage />,
@@ -90,6 +108,18 @@ const router = createBrowserRouter([
         path: "bookmarks",
         element: <BookmarksPage />,
       },
+      {
+        path: "time",
+        element: <TimePage />,
+      },
+      {
+        path: "focus",
+        element: <FocusPage />,
+      },
+      {
+        path: "trash",
+        element: <TrashPage />,
+      },
     ],
   },
   // Add a separate route for Google Auth callback
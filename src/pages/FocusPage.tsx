@@ -0,0 +1,22 @@
+import { Authenticated, Unauthenticated } from "convex/react";
+import { FocusWidget } from "../components/FocusWidget";
+import { MainLayout } from "../components/MainLayout";
+import { Navigate } from "react-router-dom";
+
+export default function FocusPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <Unauthenticated>
+        <Navigate to="/" replace />
+      </Unauthenticated>
+
+      <Authenticated>
+        <MainLayout>
+          <div className="space-y-8 w-full max-w-3xl mx-auto">
+            <FocusWidget />
+          </div>
+        </MainLayout>
+      </Authenticated>
+    </div>
+  );
+}
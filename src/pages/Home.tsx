@@ -7,6 +7,7 @@ import { TasksWidget } from "../components/TasksWidget";
 import { ProjectsWidget } from "../components/ProjectsWidget";
 import { CalendarWidget } from "../components/CalendarWidget";
 import { NotesWidget } from "../components/NotesWidget";
+import { ActivityFeed } from "../components/ActivityLog";
 import { Card, CardContent } from "../components/ui/card";
 import { Separator } from "../components/ui/separator";
 import { useToast } from "../hooks/use-toast";
@@ -67,6 +68,7 @@ function Content() {
               <TasksWidget />
               <CalendarWidget />
               <NotesWidget />
+              <ActivityFeed />
             </div>
           </div>
         </MainLayout>
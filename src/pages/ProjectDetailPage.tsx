@@ -0,0 +1,277 @@
+import { Authenticated, Unauthenticated, useQuery } from "convex/react";
+import { Link, Navigate, useParams } from "react-router-dom";
+import { format, startOfDay } from "date-fns";
+import { api } from "../../convex/_generated/api";
+import { Doc } from "../../convex/_generated/dataModel";
+import { FunctionReturnType } from "convex/server";
+import { MainLayout } from "../components/MainLayout";
+import { TasksWidget } from "../components/TasksWidget";
+import { ProjectDetailTabs } from "../components/ProjectDetailDialog";
+import { MilestoneList } from "../components/MilestoneList";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import { Progress } from "../components/ui/progress";
+import {
+  ArrowLeftIcon,
+  BookmarkIcon,
+  CalendarIcon,
+  FileTextIcon,
+  FlagIcon,
+} from "lucide-react";
+import {
+  getProgressLabel,
+  getProjectPriorityColor,
+  getProjectStatusColor,
+} from "../utils/projects";
+
+const formatDate = (timestamp: number) => format(timestamp, "MMM d, yyyy");
+
+function ProjectOverview({
+  project,
+  tasks,
+}: {
+  project: Doc<"projects">;
+  tasks: Doc<"tasks">[];
+}) {
+  const today = startOfDay(new Date()).getTime();
+  const openTasks = tasks.filter((task) => !task.completed);
+  const overdue = openTasks.filter(
+    (task) => task.dueDate !== undefined && task.dueDate < today
+  ).length;
+  const progress = Math.min(100, Math.max(0, project.progress ?? 0));
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-xl font-heading">
+            {project.title}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Badge className={getProjectStatusColor(project.status)}>
+              {project.status || "planning"}
+            </Badge>
+            <Badge className={getProjectPriorityColor(project.priority)}>
+              {project.priority || "medium"}
+            </Badge>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {project.description && (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+            {project.description}
+          </p>
+        )}
+        <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+          {project.startDate && (
+            <span>Start: {formatDate(project.startDate)}</span>
+          )}
+          {project.dueDate && <span>Due: {formatDate(project.dueDate)}</span>}
+          <span>
+            {openTasks.length} open task{openTasks.length === 1 ? "" : "s"}
+          </span>
+          {overdue > 0 && (
+            <span className="text-destructive">{overdue} overdue</span>
+          )}
+        </div>
+        <div>
+          <div className="flex justify-between text-xs text-muted-foreground mb-1">
+            <span>{getProgressLabel(project)}</span>
+            <span>{progress}%</span>
+          </div>
+          <Progress value={progress} className="h-1.5" />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function NotesCard({ notes }: { notes: Doc<"notes">[] }) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base font-heading">
+          <FileTextIcon className="h-4 w-4" />
+          Notes
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {notes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No notes in this project.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {notes.map((note) => (
+              <li key={note._id}>
+                <p className="text-sm font-medium">{note.title}</p>
+                <p className="text-xs text-muted-foreground line-clamp-2">
+                  {note.content}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Edited {formatDate(note.lastModified)}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function BookmarksCard({ bookmarks }: { bookmarks: Doc<"bookmarks">[] }) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base font-heading">
+          <BookmarkIcon className="h-4 w-4" />
+          Bookmarks
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {bookmarks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No bookmarks in this project.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {bookmarks.map((bookmark) => (
+              <li key={bookmark._id}>
+                <a
+                  href={bookmark.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm font-medium hover:underline"
+                >
+                  {bookmark.title}
+                </a>
+                {bookmark.description && (
+                  <p className="text-xs text-muted-foreground line-clamp-2">
+                    {bookmark.description}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type RelatedEvent = NonNullable<
+  FunctionReturnType<typeof api.projects.getDetail>
+>["events"][number];
+
+function EventsCard({ events }: { events: RelatedEvent[] }) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base font-heading">
+          <CalendarIcon className="h-4 w-4" />
+          Events
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No events during this project mention it by name.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {events.map((event) => (
+              <li key={event._id}>
+                <p className="text-sm font-medium">{event.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {event.isAllDay
+                    ? formatDate(event.startDate)
+                    : format(event.startDate, "MMM d, yyyy h:mm a")}
+                  {event.location && ` · ${event.location}`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ProjectDetail({ projectId }: { projectId: string }) {
+  const detail = useQuery(api.projects.getDetail, { id: projectId });
+
+  if (detail === undefined) {
+    return <p className="text-muted-foreground">Loading project...</p>;
+  }
+  if (detail === null) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          This project doesn't exist or has been moved to the trash.
+        </CardContent>
+      </Card>
+    );
+  }
+  return (
+    <>
+      <ProjectOverview project={detail.project} tasks={detail.tasks} />
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-base font-heading">
+            <FlagIcon className="h-4 w-4" />
+            Milestones
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <MilestoneList projectId={detail.project._id} />
+        </CardContent>
+      </Card>
+      {/* Keyed so the widget's project filter follows the route */}
+      <TasksWidget key={projectId} projectId={detail.project._id} />
+      <div className="grid gap-6 md:grid-cols-3">
+        <NotesCard notes={detail.notes} />
+        <BookmarksCard bookmarks={detail.bookmarks} />
+        <EventsCard events={detail.events} />
+      </div>
+      <Card>
+        <CardContent className="pt-6">
+          <ProjectDetailTabs project={detail.project} />
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+export default function ProjectDetailPage() {
+  const { projectId } = useParams();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Unauthenticated>
+        <Navigate to="/" replace />
+      </Unauthenticated>
+
+      <Authenticated>
+        <MainLayout>
+          <div className="space-y-8 w-full max-w-6xl mx-auto">
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/projects">
+                <ArrowLeftIcon className="mr-2 h-4 w-4" />
+                All projects
+              </Link>
+            </Button>
+            <ProjectDetail projectId={projectId ?? ""} />
+          </div>
+        </MainLayout>
+      </Authenticated>
+    </div>
+  );
+}
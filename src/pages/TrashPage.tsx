@@ -0,0 +1,22 @@
+import { Authenticated, Unauthenticated } from "convex/react";
+import { TrashWidget } from "../components/TrashWidget";
+import { MainLayout } from "../components/MainLayout";
+import { Navigate } from "react-router-dom";
+
+export default function TrashPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <Unauthenticated>
+        <Navigate to="/" replace />
+      </Unauthenticated>
+
+      <Authenticated>
+        <MainLayout>
+          <div className="space-y-8 w-full max-w-6xl mx-auto">
+            <TrashWidget />
+          </div>
+        </MainLayout>
+      </Authenticated>
+    </div>
+  );
+}
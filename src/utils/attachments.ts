@@ -0,0 +1,35 @@
+// Kept in sync with convex/attachments.ts, which has the final say
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+];
+
+export const isImage = (contentType: string) =>
+  contentType.startsWith("image/");
+
+export const isPdf = (contentType: string) => contentType === "application/pdf";
+
+// Why a file can't be attached, or null if it can
+export function validateAttachment(file: File): string | null {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `"${file.name}" is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  }
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `"${file.name}" isn't an image, PDF or text file`;
+  }
+  return null;
+}
+
+// File sizes for display, e.g. "512 B", "14 KB", "2.5 MB"
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, "")} MB`;
+}
@@ -0,0 +1,24 @@
+const MINUTE_MS = 60 * 1000;
+
+// Tracked time for summaries, e.g. "1h 05m", "25m"
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.floor(ms / MINUTE_MS);
+  if (totalMinutes < 1) return ms > 0 ? "<1m" : "0m";
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+}
+
+// A running timer's clock, e.g. "1:02:03" or "4:05"
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+export const minutesToMs = (minutes: number) => minutes * MINUTE_MS;
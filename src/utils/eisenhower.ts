@@ -0,0 +1,142 @@
+import { addDays, set } from "date-fns";
+
+export type Quadrant = "do" | "schedule" | "delegate" | "eliminate";
+
+export interface MatrixSettings {
+  // Tasks due within this many days from today, or overdue, are urgent
+  urgentWithinDays: number;
+}
+
+export const DEFAULT_MATRIX_SETTINGS: MatrixSettings = {
+  urgentWithinDays: 2,
+};
+
+export const QUADRANTS: {
+  id: Quadrant;
+  label: string;
+  description: string;
+  urgent: boolean;
+  important: boolean;
+}[] = [
+  {
+    id: "do",
+    label: "Do first",
+    description: "Urgent and important",
+    urgent: true,
+    important: true,
+  },
+  {
+    id: "schedule",
+    label: "Schedule",
+    description: "Important, not urgent",
+    urgent: false,
+    important: true,
+  },
+  {
+    id: "delegate",
+    label: "Delegate",
+    description: "Urgent, not important",
+    urgent: true,
+    important: false,
+  },
+  {
+    id: "eliminate",
+    label: "Eliminate",
+    description: "Neither urgent nor important",
+    urgent: false,
+    important: false,
+  },
+];
+
+const SETTINGS_KEY = "eisenhower_settings";
+
+export function loadMatrixSettings(): MatrixSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_MATRIX_SETTINGS;
+    return {
+      ...DEFAULT_MATRIX_SETTINGS,
+      ...(JSON.parse(saved) as Partial<MatrixSettings>),
+    };
+  } catch (error) {
+    console.error("Error loading matrix settings:", error);
+    return DEFAULT_MATRIX_SETTINGS;
+  }
+}
+
+export function saveMatrixSettings(settings: MatrixSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving matrix settings:", error);
+  }
+}
+
+interface MatrixTask {
+  dueDate?: number;
+  priority?: string;
+}
+
+// The first day that's no longer urgent, as the start of a local day
+const getUrgentUntil = (today: Date, settings: MatrixSettings) =>
+  addDays(today, settings.urgentWithinDays);
+
+export const isImportant = (task: MatrixTask) => task.priority === "high";
+
+export const isUrgent = (
+  task: MatrixTask,
+  today: Date,
+  settings: MatrixSettings
+) =>
+  task.dueDate !== undefined &&
+  task.dueDate < getUrgentUntil(today, settings).getTime();
+
+export function getQuadrant(
+  task: MatrixTask,
+  today: Date,
+  settings: MatrixSettings
+): Quadrant {
+  const urgent = isUrgent(task, today, settings);
+  const important = isImportant(task);
+  return QUADRANTS.find(
+    (q) => q.urgent === urgent && q.important === important
+  )!.id;
+}
+
+// Move a due date to another day, keeping its time of day
+const moveToDay = (dueDate: number | undefined, day: Date) => {
+  if (dueDate === undefined) return day.getTime();
+  const due = new Date(dueDate);
+  return set(day, {
+    hours: due.getHours(),
+    minutes: due.getMinutes(),
+    seconds: 0,
+    milliseconds: 0,
+  }).getTime();
+};
+
+/**
+ * The priority and due date changes that put a task in `quadrant`. Tasks
+ * made urgent become due today and tasks made non-urgent move to the first
+ * day past the threshold; importance flips the priority between high and
+ * medium. Returns only what changes.
+ */
+export function getQuadrantChanges(
+  task: MatrixTask,
+  quadrant: Quadrant,
+  today: Date,
+  settings: MatrixSettings
+): { priority?: string; dueDate?: number } {
+  const target = QUADRANTS.find((q) => q.id === quadrant)!;
+  const changes: { priority?: string; dueDate?: number } = {};
+  if (target.important !== isImportant(task)) {
+    changes.priority = target.important ? "high" : "medium";
+  }
+  if (target.urgent !== isUrgent(task, today, settings)) {
+    changes.dueDate = moveToDay(
+      task.dueDate,
+      target.urgent ? today : getUrgentUntil(today, settings)
+    );
+  }
+  return changes;
+}
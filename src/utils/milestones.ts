@@ -0,0 +1,30 @@
+import { format } from "date-fns";
+import type { MilestoneStatus } from "../../convex/milestones";
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  done: "Done",
+  overdue: "Overdue",
+  at_risk: "At risk",
+  on_track: "On track",
+};
+
+export const getMilestoneStatusColor = (status: MilestoneStatus) => {
+  switch (status) {
+    case "done":
+      return "bg-emerald-100 text-emerald-600";
+    case "overdue":
+      return "bg-destructive/20 text-destructive";
+    case "at_risk":
+      return "bg-amber-100 text-amber-600";
+    default:
+      return "bg-muted text-muted-foreground";
+  }
+};
+
+// "Due Mar 3 (4 days left)"
+export function formatMilestoneDue(dueDate: number, daysLeft: number) {
+  const date = format(dueDate, "MMM d");
+  if (daysLeft < 0) return `Due ${date} (${-daysLeft}d late)`;
+  if (daysLeft === 0) return "Due today";
+  return `Due ${date} (${daysLeft} day${daysLeft === 1 ? "" : "s"} left)`;
+}
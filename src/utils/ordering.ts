@@ -0,0 +1,28 @@
+/**
+ * Helpers for dropping cards into manually ordered kanban columns. The
+ * server computes the new sort key from the neighbours returned here.
+ */
+
+// Whether the pointer is over the upper half of the element handling the drop
+export function isOverUpperHalf(e: React.DragEvent): boolean {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return e.clientY < rect.top + rect.height / 2;
+}
+
+/**
+ * Find the cards that will surround `draggedId` once dropped into a column.
+ * Dropping on a card places it before or after that card; dropping on the
+ * column itself (`overId` omitted) places it at the end.
+ */
+export function getDropNeighbours<T extends string>(
+  columnIds: T[],
+  draggedId: T,
+  overId?: T,
+  before = false
+): { prevId?: T; nextId?: T } {
+  const ids = columnIds.filter((id) => id !== draggedId);
+  let index = overId ? ids.indexOf(overId) : -1;
+  if (index === -1) index = ids.length;
+  else if (!before) index++;
+  return { prevId: ids[index - 1], nextId: ids[index] };
+}
@@ -0,0 +1,74 @@
+import { minutesToMs } from "./duration";
+
+export type PomodoroPhase = "focus" | "shortBreak" | "longBreak";
+
+export interface PomodoroSettings {
+  focusMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  // Focus sessions per cycle; the break after the last one is a long break
+  sessionsPerCycle: number;
+}
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  sessionsPerCycle: 4,
+};
+
+export const PHASE_LABELS: Record<PomodoroPhase, string> = {
+  focus: "Focus",
+  shortBreak: "Short break",
+  longBreak: "Long break",
+};
+
+const SETTINGS_KEY = "pomodoro_settings";
+
+export function loadPomodoroSettings(): PomodoroSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_POMODORO_SETTINGS;
+    return {
+      ...DEFAULT_POMODORO_SETTINGS,
+      ...(JSON.parse(saved) as Partial<PomodoroSettings>),
+    };
+  } catch (error) {
+    console.error("Error loading pomodoro settings:", error);
+    return DEFAULT_POMODORO_SETTINGS;
+  }
+}
+
+export function savePomodoroSettings(settings: PomodoroSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving pomodoro settings:", error);
+  }
+}
+
+export function getPhaseMs(phase: PomodoroPhase, settings: PomodoroSettings) {
+  switch (phase) {
+    case "focus":
+      return minutesToMs(settings.focusMinutes);
+    case "shortBreak":
+      return minutesToMs(settings.shortBreakMinutes);
+    case "longBreak":
+      return minutesToMs(settings.longBreakMinutes);
+  }
+}
+
+/**
+ * The phase after `phase`, given how many focus sessions of the current
+ * cycle are done (including one that just finished).
+ */
+export function getNextPhase(
+  phase: PomodoroPhase,
+  completedInCycle: number,
+  settings: PomodoroSettings
+): PomodoroPhase {
+  if (phase !== "focus") return "focus";
+  return completedInCycle >= settings.sessionsPerCycle
+    ? "longBreak"
+    : "shortBreak";
+}
@@ -0,0 +1,35 @@
+import { Doc } from "../../convex/_generated/dataModel";
+
+export const getProjectStatusColor = (status: string | undefined) => {
+  switch (status) {
+    case "planning":
+      return "bg-blue-100 text-blue-600";
+    case "in_progress":
+      return "bg-amber-100 text-amber-600";
+    case "review":
+      return "bg-purple-100 text-purple-600";
+    case "completed":
+      return "bg-emerald-100 text-emerald-600";
+    default:
+      return "bg-muted text-muted-foreground";
+  }
+};
+
+export const getProjectPriorityColor = (priority: string | undefined) => {
+  switch (priority) {
+    case "high":
+      return "bg-destructive/20 text-destructive";
+    case "medium":
+      return "bg-amber-100 text-amber-600";
+    case "low":
+      return "bg-emerald-100 text-emerald-600";
+    default:
+      return "bg-muted text-muted-foreground";
+  }
+};
+
+// "7 of 12 tasks", once the project's tasks have been counted
+export const getProgressLabel = (project: Doc<"projects">): string => {
+  if (!project.taskCount) return "Progress";
+  return `${project.completedTaskCount ?? 0} of ${project.taskCount} tasks`;
+};
@@ -0,0 +1,201 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseDate,
+  parseQuickCapture,
+  parseTime,
+  parseTimeRange,
+} from "./quickCaptureParser";
+
+// Wednesday, January 10th 2024, 9am local time
+const now = new Date(2024, 0, 10, 9, 0);
+const day = (month: number, date: number, year = 2024) =>
+  new Date(year, month, date);
+const at = (month: number, date: number, hours: number, minutes = 0) =>
+  new Date(2024, month, date, hours, minutes);
+
+describe("parseTime", () => {
+  it("reads 12- and 24-hour times", () => {
+    expect(parseTime("3pm")).toEqual({ hours: 15, minutes: 0 });
+    expect(parseTime("3:30 am")).toEqual({ hours: 3, minutes: 30 });
+    expect(parseTime("12am")).toEqual({ hours: 0, minutes: 0 });
+    expect(parseTime("15:00")).toEqual({ hours: 15, minutes: 0 });
+    expect(parseTime("noon")).toEqual({ hours: 12, minutes: 0 });
+  });
+
+  it("needs am/pm or minutes", () => {
+    expect(parseTime("3")).toBeNull();
+    expect(parseTime("3", "pm")).toEqual({ hours: 15, minutes: 0 });
+    expect(parseTime("13pm")).toBeNull();
+    expect(parseTime("9:75")).toBeNull();
+  });
+});
+
+describe("parseTimeRange", () => {
+  it("lends the end's am/pm to the start", () => {
+    expect(parseTimeRange("12-1pm")).toEqual({
+      start: { hours: 12, minutes: 0 },
+      end: { hours: 13, minutes: 0 },
+    });
+    expect(parseTimeRange("11-1pm")).toEqual({
+      start: { hours: 11, minutes: 0 },
+      end: { hours: 13, minutes: 0 },
+    });
+    expect(parseTimeRange("10:30 to 11:15am")).toEqual({
+      start: { hours: 10, minutes: 30 },
+      end: { hours: 11, minutes: 15 },
+    });
+  });
+
+  it("rejects text that isn't a range", () => {
+    expect(parseTimeRange("3pm")).toBeNull();
+    expect(parseTimeRange("a-b")).toBeNull();
+  });
+});
+
+describe("parseDate", () => {
+  it("reads relative days", () => {
+    expect(parseDate(["today"], now)).toEqual({ date: day(0, 10), length: 1 });
+    expect(parseDate(["tmrw"], now)).toEqual({ date: day(0, 11), length: 1 });
+    expect(parseDate(["in", "2", "weeks"], now)).toEqual({
+      date: day(0, 24),
+      length: 3,
+    });
+    expect(parseDate(["next", "week"], now)).toEqual({
+      date: day(0, 15),
+      length: 2,
+    });
+  });
+
+  it("reads weekdays after next and this", () => {
+    expect(parseDate(["this", "wed"], now)?.date).toEqual(day(0, 10));
+    expect(parseDate(["next", "wednesday"], now)?.date).toEqual(day(0, 17));
+    expect(parseDate(["next", "thurs"], now)?.date).toEqual(day(0, 11));
+  });
+
+  it("only reads weekday and month names in date position", () => {
+    expect(parseDate(["fri"], now)).toBeNull();
+    expect(parseDate(["fri"], now, true)?.date).toEqual(day(0, 12));
+    expect(parseDate(["fri", "3pm"], now)?.date).toEqual(day(0, 12));
+    expect(parseDate(["march", "14"], now)).toBeNull();
+    expect(parseDate(["march", "14"], now, true)?.date).toEqual(day(2, 14));
+  });
+
+  it("only accepts full names and standard abbreviations", () => {
+    expect(parseDate(["sept", "3"], now, true)?.date).toEqual(day(8, 3));
+    expect(parseDate(["marc", "3"], now, true)).toBeNull();
+    expect(parseDate(["decide"], now, true)).toBeNull();
+    expect(parseDate(["sa"], now, true)).toBeNull();
+  });
+
+  it("reads calendar dates, rolling past ones into next year", () => {
+    expect(parseDate(["14th", "march", "2027"], now, true)).toEqual({
+      date: day(2, 14, 2027),
+      length: 3,
+    });
+    expect(parseDate(["jan", "2"], now, true)?.date).toEqual(day(0, 2, 2025));
+    expect(parseDate(["2027-03-14"], now)?.date).toEqual(day(2, 14, 2027));
+    expect(parseDate(["3/14"], now)?.date).toEqual(day(2, 14));
+    expect(parseDate(["feb", "30"], now, true)).toBeNull();
+  });
+});
+
+describe("parseQuickCapture", () => {
+  it("parses a task with its date, priority, tags and project", () => {
+    expect(
+      parseQuickCapture(
+        "Call dentist tomorrow 3pm !high #health @Personal",
+        now
+      )
+    ).toEqual({
+      title: "Call dentist",
+      type: "task",
+      priority: "high",
+      tags: ["health"],
+      project: "Personal",
+      start: at(0, 11, 15),
+      hasTime: true,
+    });
+  });
+
+  it("detects events from a time range and a place", () => {
+    expect(
+      parseQuickCapture("lunch with Sam fri 12-1pm at Cafe X", now)
+    ).toEqual({
+      title: "lunch with Sam",
+      type: "event",
+      tags: [],
+      start: at(0, 12, 12),
+      end: at(0, 12, 13),
+      hasTime: true,
+      location: "Cafe X",
+    });
+  });
+
+  it("detects events from a duration", () => {
+    const parsed = parseQuickCapture("Standup today 9:30am for 15 min", now);
+    expect(parsed.type).toBe("event");
+    expect(parsed.title).toBe("Standup");
+    expect(parsed.end).toEqual(at(0, 10, 9, 45));
+  });
+
+  it("drops the preposition before a date", () => {
+    const parsed = parseQuickCapture("Submit report due march 1st", now);
+    expect(parsed.title).toBe("Submit report");
+    expect(parsed.start).toEqual(day(2, 1));
+    expect(parsed.hasTime).toBe(false);
+  });
+
+  it("moves a time that has passed today to tomorrow", () => {
+    expect(parseQuickCapture("Stretch 8am", now).start).toEqual(at(0, 11, 8));
+  });
+
+  it.each([
+    "Pack sun hat",
+    "March with the band",
+    "Ask if we may 2 seats",
+    "Decide on venue",
+    "Pick up sat nav",
+    "Fix the wed report",
+  ])("leaves ordinary words in %j alone", (text) => {
+    const parsed = parseQuickCapture(text, now);
+    expect(parsed.title).toBe(text);
+    expect(parsed.start).toBeUndefined();
+  });
+
+  it("reads names after a date preposition", () => {
+    const parsed = parseQuickCapture("Renew passport by sat", now);
+    expect(parsed.title).toBe("Renew passport");
+    expect(parsed.start).toEqual(day(0, 13));
+  });
+
+  it("reads names that end the text", () => {
+    const weekday = parseQuickCapture("Call mom sunday", now);
+    expect(weekday.title).toBe("Call mom");
+    expect(weekday.start).toEqual(day(0, 14));
+
+    const month = parseQuickCapture("Dentist march 14 #health", now);
+    expect(month.title).toBe("Dentist");
+    expect(month.start).toEqual(day(2, 14));
+    expect(month.tags).toEqual(["health"]);
+  });
+
+  it("takes the longest project name that matches", () => {
+    const parsed = parseQuickCapture(
+      "Meeting mon 10am-11:30am @Website Redesign",
+      now,
+      ["Website", "Website Redesign"]
+    );
+    expect(parsed.title).toBe("Meeting");
+    expect(parsed.project).toBe("Website Redesign");
+    expect(parsed.start).toEqual(at(0, 15, 10));
+    expect(parsed.end).toEqual(at(0, 15, 11, 30));
+  });
+
+  it("takes one word as the project when no name matches", () => {
+    const parsed = parseQuickCapture("Draft post @blog ideas", now, [
+      "Website Redesign",
+    ]);
+    expect(parsed.project).toBe("blog");
+    expect(parsed.title).toBe("Draft post ideas");
+  });
+});
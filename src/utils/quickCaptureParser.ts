@@ -0,0 +1,537 @@
+/**
+ * Local natural-language parsing for Quick Capture. Understands text such as
+ * "Call dentist tomorrow 3pm !high #health @Personal" (a task) and
+ * "lunch with Sam fri 12-1pm at Cafe X" (an event). Dates resolve in local
+ * time relative to `now`; whatever isn't recognised becomes the title.
+ * Weekday and month names only count in date position or at the end of the
+ * text, so "Pack sun hat" and "March with the band" stay as they are.
+ */
+import { addDays, addMonths, addWeeks } from "date-fns";
+
+export type CapturePriority = "low" | "medium" | "high";
+
+export interface ParsedCapture {
+  title: string;
+  // "event" for appointment phrasing: a time range or duration, or a time
+  // and a place
+  type: "task" | "event";
+  priority?: CapturePriority;
+  tags: string[];
+  // Project name from "@Name", matched against projects by the caller. It
+  // runs over several words when they spell out one of `projectNames`.
+  project?: string;
+  start?: Date;
+  end?: Date;
+  // False when only a day was given, e.g. "tomorrow"
+  hasTime: boolean;
+  location?: string;
+}
+
+interface TimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+interface Token {
+  raw: string;
+  // Lowercased, without trailing punctuation
+  word: string;
+  used: boolean;
+  // Part of a date or time phrase, so a preposition before it is dropped too
+  isWhen?: boolean;
+}
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+const PRIORITIES: Record<string, CapturePriority> = {
+  high: "high",
+  h: "high",
+  "1": "high",
+  medium: "medium",
+  med: "medium",
+  m: "medium",
+  "2": "medium",
+  low: "low",
+  l: "low",
+  "3": "low",
+};
+// Standard abbreviations; anything else has to be spelt out in full
+const WEEKDAY_ABBREVIATIONS = new Map([
+  ["sun", 0],
+  ["mon", 1],
+  ["tue", 2],
+  ["tues", 2],
+  ["wed", 3],
+  ["thu", 4],
+  ["thur", 4],
+  ["thurs", 4],
+  ["fri", 5],
+  ["sat", 6],
+]);
+const MONTH_ABBREVIATIONS = new Map([
+  ["jan", 0],
+  ["feb", 1],
+  ["mar", 2],
+  ["apr", 3],
+  ["jun", 5],
+  ["jul", 6],
+  ["aug", 7],
+  ["sep", 8],
+  ["sept", 8],
+  ["oct", 9],
+  ["nov", 10],
+  ["dec", 11],
+]);
+const PREPOSITIONS = new Set(["on", "by", "at", "due", "from", "until"]);
+// Words after which a weekday or month name is taken as a date
+const DATE_PREPOSITIONS = new Set(["on", "by", "due", "until"]);
+const TONIGHT: TimeOfDay = { hours: 20, minutes: 0 };
+
+// "@personal-finance" matches a project titled "Personal Finance"
+export const normalizeProjectName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const isMarker = (raw: string) => /^[#!@]/.test(raw);
+
+const findName = (
+  names: string[],
+  abbreviations: Map<string, number>,
+  word: string | undefined
+) => {
+  if (!word) return -1;
+  const index = names.indexOf(word);
+  return index !== -1 ? index : (abbreviations.get(word) ?? -1);
+};
+const findWeekday = (word: string | undefined) =>
+  findName(WEEKDAYS, WEEKDAY_ABBREVIATIONS, word);
+const findMonth = (word: string | undefined) =>
+  findName(MONTHS, MONTH_ABBREVIATIONS, word);
+
+const atMidnight = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+function withTime(day: Date, time: TimeOfDay) {
+  const date = new Date(day);
+  date.setHours(time.hours, time.minutes, 0, 0);
+  return date;
+}
+
+/**
+ * Parse a time of day: "3pm", "3:30 pm", "15:00", "noon". A bare number
+ * like "3" only counts when `meridiem` supplies am/pm, as for the start of
+ * "3-4pm".
+ */
+export function parseTime(text: string, meridiem?: "am" | "pm") {
+  const value = text.toLowerCase().trim();
+  if (value === "noon") return { hours: 12, minutes: 0 };
+  if (value === "midnight") return { hours: 0, minutes: 0 };
+
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm|a|p)?$/.exec(value);
+  if (!match) return null;
+  const [, h, m, suffix] = match;
+  const marker = suffix ? (suffix[0] === "a" ? "am" : "pm") : meridiem;
+  if (!marker && m === undefined) return null;
+
+  let hours = Number(h);
+  const minutes = m === undefined ? 0 : Number(m);
+  if (minutes > 59) return null;
+  if (marker) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (marker === "pm" ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+  return { hours, minutes };
+}
+
+/**
+ * Parse a time range such as "12-1pm", "9am-5pm" or "10:30 to 11:15am".
+ * A start without am/pm borrows the end's, moving to the morning when that
+ * would put it after the end ("11-1pm" is 11am to 1pm).
+ */
+export function parseTimeRange(text: string) {
+  const match = /^(.+?)\s*(?:-|–|\bto\b)\s*(.+)$/.exec(text.toLowerCase());
+  if (!match) return null;
+  const end = parseTime(match[2]);
+  if (!end) return null;
+
+  let start = parseTime(match[1]);
+  if (!start) {
+    start = parseTime(match[1], end.hours >= 12 ? "pm" : "am");
+    if (!start) return null;
+    if (start.hours * 60 + start.minutes > end.hours * 60 + end.minutes) {
+      start = { ...start, hours: start.hours - 12 };
+    }
+    if (start.hours < 0) return null;
+  }
+  return { start, end };
+}
+
+// The next given weekday, today included unless `strictlyAfter` is set
+function nextWeekday(now: Date, weekday: number, strictlyAfter = false) {
+  let days = (weekday - now.getDay() + 7) % 7;
+  if (days === 0 && strictlyAfter) days = 7;
+  return addDays(atMidnight(now), days);
+}
+
+// A calendar date, rolling into next year when no year is given and the
+// date has already passed
+function calendarDate(now: Date, month: number, day: number, year?: number) {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+  const date = new Date(year ?? now.getFullYear(), month, day);
+  if (date.getMonth() !== month) return null;
+  if (year === undefined && date < atMidnight(now)) {
+    date.setFullYear(date.getFullYear() + 1);
+  }
+  return date;
+}
+
+const parseDayNumber = (word: string) => {
+  const match = /^(\d{1,2})(?:st|nd|rd|th)?$/.exec(word);
+  return match ? Number(match[1]) : null;
+};
+
+const parseYear = (word: string | undefined) =>
+  word && /^\d{4}$/.test(word) ? Number(word) : undefined;
+
+// Whether `words` open with a time or time range: "3pm", "3 pm", "12-1pm"
+const startsWithTime = ([first, second]: string[]) =>
+  !!first &&
+  (parseTime(first) !== null ||
+    parseTimeRange(first) !== null ||
+    ((second === "am" || second === "pm") &&
+      parseTime(`${first}${second}`) !== null));
+
+/**
+ * Match a date phrase starting at `words[0]`. Returns the day and how many
+ * words it spans. Phrases naming a weekday or month need `afterPreposition`
+ * ("on fri", "by march 14"), except after "next"/"this" and for a weekday
+ * followed by a time ("fri 3pm").
+ */
+export function parseDate(
+  words: string[],
+  now: Date,
+  afterPreposition = false
+): { date: Date; length: number; time?: TimeOfDay } | null {
+  const [first, second, third] = words;
+  const today = atMidnight(now);
+
+  switch (first) {
+    case "today":
+      return { date: today, length: 1 };
+    case "tonight":
+      return { date: today, length: 1, time: TONIGHT };
+    case "tomorrow":
+    case "tmr":
+    case "tmrw":
+      return { date: addDays(today, 1), length: 1 };
+  }
+
+  if (first === "next" || first === "this") {
+    if (first === "next" && second === "week") {
+      return { date: nextWeekday(now, 1, true), length: 2 };
+    }
+    if (first === "next" && second === "month") {
+      return {
+        date: addMonths(new Date(today.getFullYear(), today.getMonth(), 1), 1),
+        length: 2,
+      };
+    }
+    const weekday = findWeekday(second);
+    if (weekday !== -1) {
+      return {
+        date: nextWeekday(now, weekday, first === "next"),
+        length: 2,
+      };
+    }
+    return null;
+  }
+
+  // "in 3 days", "in 2 weeks"
+  if (first === "in" && second && third) {
+    const count = /^\d+$/.test(second) ? Number(second) : null;
+    if (count !== null && /^days?$/.test(third)) {
+      return { date: addDays(today, count), length: 3 };
+    }
+    if (count !== null && /^weeks?$/.test(third)) {
+      return { date: addWeeks(today, count), length: 3 };
+    }
+    return null;
+  }
+
+  const weekday = findWeekday(first);
+  if (weekday !== -1 && (afterPreposition || startsWithTime(words.slice(1)))) {
+    return { date: nextWeekday(now, weekday), length: 1 };
+  }
+
+  // "mar 14", "march 14th 2027"
+  const month = afterPreposition ? findMonth(first) : -1;
+  if (month !== -1 && second) {
+    const day = parseDayNumber(second);
+    const year = parseYear(third);
+    const date = day !== null && calendarDate(now, month, day, year);
+    if (date) return { date, length: year === undefined ? 2 : 3 };
+  }
+
+  // "14 mar", "14th march 2027"
+  const day = parseDayNumber(first);
+  if (day !== null && second && afterPreposition) {
+    const monthAfter = findMonth(second);
+    const year = parseYear(third);
+    const date = monthAfter !== -1 && calendarDate(now, monthAfter, day, year);
+    if (date) return { date, length: year === undefined ? 2 : 3 };
+  }
+
+  // "2027-03-14"
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(first);
+  if (iso) {
+    const date = calendarDate(now, Number(iso[2]) - 1, +iso[3], +iso[1]);
+    return date ? { date, length: 1 } : null;
+  }
+
+  // "3/14", "3/14/2027" (month first)
+  const slash = /^(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?$/.exec(first);
+  if (slash) {
+    const date = calendarDate(
+      now,
+      Number(slash[1]) - 1,
+      Number(slash[2]),
+      slash[3] ? Number(slash[3]) : undefined
+    );
+    return date ? { date, length: 1 } : null;
+  }
+
+  return null;
+}
+
+// "30m", "1h", "1.5 hours", "90 min" in minutes
+function parseDuration(words: string[]): { minutes: number; length: number } {
+  const joined = /^(\d+(?:\.\d+)?)(m|min|mins|minutes?|h|hr|hrs|hours?)$/;
+  const single = joined.exec(words[0] ?? "");
+  const split = words[1] ? joined.exec(`${words[0]}${words[1]}`) : null;
+  const match = single ?? split;
+  if (!match) return { minutes: 0, length: 0 };
+  const amount = Number(match[1]);
+  return {
+    minutes: match[2].startsWith("h") ? amount * 60 : amount,
+    length: single ? 1 : 2,
+  };
+}
+
+export function parseQuickCapture(
+  text: string,
+  now: Date = new Date(),
+  projectNames: string[] = []
+): ParsedCapture {
+  const tokens: Token[] = text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((raw) => ({
+      raw,
+      word: raw.toLowerCase().replace(/[,.;]+$/, ""),
+      used: false,
+    }));
+  const wordsFrom = (i: number) => tokens.slice(i).map((t) => t.word);
+  const consume = (i: number, length: number, isWhen = false) => {
+    for (let j = i; j < i + length; j++) {
+      tokens[j].used = true;
+      tokens[j].isWhen = isWhen;
+    }
+  };
+
+  const result: ParsedCapture = {
+    title: "",
+    type: "task",
+    tags: [],
+    hasTime: false,
+  };
+  let date: Date | undefined;
+  let time: TimeOfDay | undefined;
+  let endTime: TimeOfDay | undefined;
+  let durationMinutes: number | undefined;
+
+  // Tags, priority and project first, so they don't stand between a date
+  // and the end of the text
+  const knownProjects = new Set(projectNames.map(normalizeProjectName));
+  for (let i = 0; i < tokens.length; i++) {
+    const { raw, word } = tokens[i];
+    if (tokens[i].used) continue;
+
+    if (/^#[^#\s]+/.test(raw)) {
+      result.tags.push(raw.slice(1).replace(/[,.;]+$/, ""));
+      consume(i, 1);
+      continue;
+    }
+    if (word.startsWith("!") && PRIORITIES[word.slice(1)]) {
+      result.priority = PRIORITIES[word.slice(1)];
+      consume(i, 1);
+      continue;
+    }
+    if (/^@[^@\s]+/.test(raw)) {
+      // "@Website Redesign": the longest run of words naming a project
+      let length = 1;
+      for (let j = i + 1; j < tokens.length && !isMarker(tokens[j].raw); j++) {
+        const name = tokens
+          .slice(i, j + 1)
+          .map((t) => t.raw)
+          .join(" ");
+        if (knownProjects.has(normalizeProjectName(name))) length = j - i + 1;
+      }
+      result.project = tokens
+        .slice(i, i + length)
+        .map((t) => t.raw)
+        .join(" ")
+        .slice(1)
+        .replace(/[,.;]+$/, "");
+      consume(i, length);
+    }
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const { word } = tokens[i];
+    if (tokens[i].used) continue;
+
+    if (!date) {
+      const previous = tokens[i - 1];
+      let parsedDate = parseDate(
+        wordsFrom(i),
+        now,
+        !!previous && !previous.used && DATE_PREPOSITIONS.has(previous.word)
+      );
+      if (!parsedDate) {
+        // "Call mom sunday": a name ending the text is a date too
+        const atEnd = parseDate(wordsFrom(i), now, true);
+        if (atEnd && tokens.slice(i + atEnd.length).every((t) => t.used)) {
+          parsedDate = atEnd;
+        }
+      }
+      if (parsedDate) {
+        date = parsedDate.date;
+        time = time ?? parsedDate.time;
+        consume(i, parsedDate.length, true);
+        continue;
+      }
+    }
+
+    if (!time) {
+      // "12-1pm" as one word, or "9am to 5pm" / "9am - 5pm" across three
+      const [a, b, c] = wordsFrom(i);
+      for (const length of [1, 3]) {
+        const phrase = length === 1 ? a : b && c ? `${a} ${b} ${c}` : "";
+        if (length === 3 && b !== "-" && b !== "to") continue;
+        const range = phrase ? parseTimeRange(phrase) : null;
+        if (range) {
+          time = range.start;
+          endTime = range.end;
+          consume(i, length, true);
+          break;
+        }
+      }
+      if (time) continue;
+
+      // "3pm", or "3 pm" across two words
+      const spaced = b === "am" || b === "pm";
+      const single = spaced ? parseTime(`${word}${b}`) : parseTime(word);
+      if (single) {
+        time = single;
+        consume(i, spaced ? 2 : 1, true);
+        continue;
+      }
+    }
+
+    if (word === "for" && durationMinutes === undefined) {
+      const duration = parseDuration(wordsFrom(i + 1));
+      if (duration.length > 0) {
+        durationMinutes = duration.minutes;
+        consume(i, duration.length + 1, true);
+        continue;
+      }
+    }
+  }
+
+  // "on friday", "at 3pm", "due tomorrow": the preposition goes with the date
+  tokens.forEach((token, i) => {
+    const next = tokens[i + 1];
+    if (!token.used && PREPOSITIONS.has(token.word) && next?.isWhen) {
+      consume(i, 1, true);
+    }
+  });
+
+  // "at Cafe X": a capitalised place name running to the next parsed phrase
+  const atIndex = tokens.findIndex(
+    (token, i) =>
+      !token.used &&
+      token.word === "at" &&
+      tokens[i + 1] &&
+      !tokens[i + 1].used &&
+      /^[A-Z]/.test(tokens[i + 1].raw)
+  );
+  let locationLength = 0;
+  if (atIndex !== -1) {
+    while (
+      tokens[atIndex + 1 + locationLength] &&
+      !tokens[atIndex + 1 + locationLength].used
+    ) {
+      locationLength++;
+    }
+  }
+
+  if (date || time) {
+    let day = date ?? atMidnight(now);
+    // A time alone means its next occurrence
+    if (!date && time && withTime(now, time) <= now) day = addDays(day, 1);
+    result.start = time ? withTime(day, time) : day;
+    result.hasTime = time !== undefined;
+    if (endTime) {
+      result.end = withTime(day, endTime);
+      if (result.end <= result.start) result.end = addDays(result.end, 1);
+    } else if (durationMinutes !== undefined) {
+      result.end = new Date(result.start.getTime() + durationMinutes * 60000);
+    }
+  }
+
+  const hasLocation = locationLength > 0;
+  if (
+    endTime ||
+    durationMinutes !== undefined ||
+    (hasLocation && result.hasTime)
+  ) {
+    result.type = "event";
+  }
+  if (hasLocation && result.type === "event") {
+    result.location = tokens
+      .slice(atIndex + 1, atIndex + 1 + locationLength)
+      .map((t) => t.raw)
+      .join(" ")
+      .replace(/[,.;]+$/, "");
+    consume(atIndex, locationLength + 1);
+  }
+
+  result.title = tokens
+    .filter((t) => !t.used)
+    .map((t) => t.raw)
+    .join(" ")
+    .replace(/[,;]+$/, "");
+  return result;
+}
@@ -0,0 +1,126 @@
+/**
+ * Recurrence presets for tasks, converted to and from the RFC 5545 RRULE
+ * strings stored in Convex (see convex/recurrence.ts for the evaluator).
+ */
+
+export type RecurrencePreset =
+  "none" | "daily" | "weekdays" | "weekly" | "monthly_weekday" | "custom";
+
+export interface RecurrenceSettings {
+  preset: RecurrencePreset;
+  // Number of weeks between instances for the "weekly" preset
+  interval: number;
+  // Raw RRULE for the "custom" preset
+  customRule: string;
+}
+
+// Sent along with a rule so the server evaluates it in the user's zone
+export const localTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const DEFAULT_RECURRENCE: RecurrenceSettings = {
+  preset: "none",
+  interval: 1,
+  customRule: "",
+};
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+const ORDINALS: Record<string, string> = {
+  "1": "1st",
+  "2": "2nd",
+  "3": "3rd",
+  "4": "4th",
+  "-1": "last",
+};
+
+// "2TU" for the second Tuesday; the fifth occurrence is treated as "last"
+function nthWeekdayOf(date: Date): string {
+  const nth = Math.ceil(date.getDate() / 7);
+  return `${nth >= 5 ? -1 : nth}${WEEKDAY_CODES[date.getDay()]}`;
+}
+
+/**
+ * Build the RRULE for the chosen preset. The monthly preset repeats on the
+ * same weekday-of-month as the due date (or today when there is none).
+ */
+export function toRecurrenceRule(
+  settings: RecurrenceSettings,
+  dueDate?: number
+): string | null {
+  switch (settings.preset) {
+    case "none":
+      return null;
+    case "daily":
+      return "FREQ=DAILY";
+    case "weekdays":
+      return "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR";
+    case "weekly":
+      return settings.interval > 1
+        ? `FREQ=WEEKLY;INTERVAL=${settings.interval}`
+        : "FREQ=WEEKLY";
+    case "monthly_weekday":
+      return `FREQ=MONTHLY;BYDAY=${nthWeekdayOf(new Date(dueDate ?? Date.now()))}`;
+    case "custom":
+      return settings.customRule.trim() || null;
+  }
+}
+
+export function fromRecurrenceRule(rule?: string): RecurrenceSettings {
+  if (!rule) return DEFAULT_RECURRENCE;
+  let normalized = rule.replace(/^RRULE:/i, "").toUpperCase();
+  // Plain keywords, as used by events
+  if (/^(DAILY|WEEKLY|MONTHLY|YEARLY)$/.test(normalized)) {
+    normalized = `FREQ=${normalized}`;
+  }
+
+  if (normalized === "FREQ=DAILY") {
+    return { ...DEFAULT_RECURRENCE, preset: "daily" };
+  }
+  if (normalized === "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR") {
+    return { ...DEFAULT_RECURRENCE, preset: "weekdays" };
+  }
+  const weekly = /^FREQ=WEEKLY(?:;INTERVAL=(\d+))?$/.exec(normalized);
+  if (weekly) {
+    return {
+      ...DEFAULT_RECURRENCE,
+      preset: "weekly",
+      interval: weekly[1] ? Number(weekly[1]) : 1,
+    };
+  }
+  if (
+    /^FREQ=MONTHLY;BYDAY=(-1|[1-4])(SU|MO|TU|WE|TH|FR|SA)$/.test(normalized)
+  ) {
+    return { ...DEFAULT_RECURRENCE, preset: "monthly_weekday" };
+  }
+  return { ...DEFAULT_RECURRENCE, preset: "custom", customRule: rule };
+}
+
+// Human-readable summary of a rule, e.g. "Every 2 weeks"
+export function describeRecurrence(rule: string): string {
+  const settings = fromRecurrenceRule(rule);
+  switch (settings.preset) {
+    case "daily":
+      return "Every day";
+    case "weekdays":
+      return "Every weekday";
+    case "weekly":
+      return settings.interval > 1
+        ? `Every ${settings.interval} weeks`
+        : "Every week";
+    case "monthly_weekday": {
+      const [, ordinal, day] =
+        /BYDAY=(-1|\d)(\w{2})/i.exec(rule) || ([] as string[]);
+      return `Monthly on the ${ORDINALS[ordinal]} ${WEEKDAY_NAMES[WEEKDAY_CODES.indexOf(day.toUpperCase())]}`;
+    }
+    default:
+      return rule;
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  addDays,
+  addHours,
+  addWeeks,
+  set,
+  startOfHour,
+  startOfWeek,
+} from "date-fns";
+
+// Quick picks for snoozing a task, as the time it comes back
+export interface SnoozeOption {
+  label: string;
+  until: Date;
+}
+
+const MORNING = { hours: 9, minutes: 0, seconds: 0, milliseconds: 0 };
+// "Later today" is left out once it would run into tomorrow
+const LATER_TODAY_HOURS = 3;
+
+export function getSnoozeOptions(now: Date): SnoozeOption[] {
+  const options: SnoozeOption[] = [];
+  const laterToday = startOfHour(addHours(now, LATER_TODAY_HOURS + 1));
+  if (laterToday.getDate() === now.getDate()) {
+    options.push({ label: "Later today", until: laterToday });
+  }
+  options.push(
+    { label: "Tomorrow", until: set(addDays(now, 1), MORNING) },
+    {
+      label: "Next week",
+      until: set(startOfWeek(addWeeks(now, 1), { weekStartsOn: 1 }), MORNING),
+    }
+  );
+  return options;
+}
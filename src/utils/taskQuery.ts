@@ -0,0 +1,138 @@
+/**
+ * Filter query language for tasks, e.g.
+ * `tag:work due:<7d priority:high -status:done project:"Website redesign"`.
+ * Terms are combined with AND, a leading "-" negates one and bare words
+ * match the title or description. Parsing happens here; the server matches
+ * the resulting clauses in convex/taskFilters.ts.
+ *
+ * due: accepts today, tomorrow, overdue, none, any, Nd / Nw (that day),
+ * <Nd (by then, overdue included), >Nd (later), and YYYY-MM-DD with the
+ * same < and > prefixes.
+ */
+import type { TaskFilterClause } from "../../convex/taskFilters";
+
+export interface ParsedTaskQuery {
+  clauses: TaskFilterClause[];
+  errors: string[];
+}
+
+const PRIORITIES = ["low", "medium", "high"];
+const IS_VALUES: Record<string, string> = {
+  open: "open",
+  completed: "completed",
+  done: "completed",
+  blocked: "blocked",
+  recurring: "recurring",
+  subtask: "subtask",
+};
+
+// -field:value, -field:"quoted value", "quoted text" or a bare word
+const TERM = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+// Status values are column slugs, as created in convex/workflows.ts
+const toStatus = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+type DueRange = Pick<
+  TaskFilterClause,
+  "value" | "fromDays" | "toDays" | "from" | "to"
+>;
+
+function parseDue(value: string): DueRange | null {
+  const word = value.toLowerCase();
+  if (word === "none" || word === "any") return { value: word };
+  if (word === "today") return { value: "range", fromDays: 0, toDays: 1 };
+  if (word === "tomorrow") return { value: "range", fromDays: 1, toDays: 2 };
+  if (word === "overdue") return { value: "range", toDays: 0 };
+
+  const relative = word.match(/^([<>]?)(\d+)([dw])$/);
+  if (relative) {
+    const days = Number(relative[2]) * (relative[3] === "w" ? 7 : 1);
+    if (relative[1] === "<") return { value: "range", toDays: days + 1 };
+    if (relative[1] === ">") return { value: "range", fromDays: days + 1 };
+    return { value: "range", fromDays: days, toDays: days + 1 };
+  }
+
+  const absolute = word.match(/^([<>]?)(\d{4})-(\d{2})-(\d{2})$/);
+  if (absolute) {
+    const [, op, year, month, day] = absolute;
+    const start = new Date(Number(year), Number(month) - 1, Number(day));
+    if (isNaN(start.getTime())) return null;
+    const next = new Date(start);
+    next.setDate(next.getDate() + 1);
+    if (op === "<") return { value: "range", to: start.getTime() };
+    if (op === ">") return { value: "range", from: next.getTime() };
+    return { value: "range", from: start.getTime(), to: next.getTime() };
+  }
+
+  return null;
+}
+
+export function parseTaskQuery(text: string): ParsedTaskQuery {
+  const clauses: TaskFilterClause[] = [];
+  const errors: string[] = [];
+
+  for (const match of text.matchAll(TERM)) {
+    const negate = match[1] === "-";
+    const field = match[2]?.toLowerCase();
+    const value = (match[3] ?? match[4] ?? "").trim();
+    if (!value) {
+      if (field) errors.push(`"${field}:" needs a value`);
+      continue;
+    }
+
+    switch (field) {
+      case undefined:
+        clauses.push({ field: "text", value, negate });
+        break;
+      case "tag":
+        clauses.push({ field: "tag", value: value.replace(/^#/, ""), negate });
+        break;
+      case "priority":
+        if (PRIORITIES.includes(value.toLowerCase())) {
+          clauses.push({
+            field: "priority",
+            value: value.toLowerCase(),
+            negate,
+          });
+        } else {
+          errors.push(`Unknown priority "${value}"`);
+        }
+        break;
+      case "status":
+        clauses.push({ field: "status", value: toStatus(value), negate });
+        break;
+      case "project":
+        clauses.push({
+          field: "project",
+          value: value.replace(/^@/, ""),
+          negate,
+        });
+        break;
+      case "is":
+        if (IS_VALUES[value.toLowerCase()]) {
+          clauses.push({
+            field: "is",
+            value: IS_VALUES[value.toLowerCase()],
+            negate,
+          });
+        } else {
+          errors.push(`Unknown "is:${value}"`);
+        }
+        break;
+      case "due": {
+        const due = parseDue(value);
+        if (due) clauses.push({ field: "due", negate, ...due });
+        else errors.push(`Can't read "due:${value}"`);
+        break;
+      }
+      default:
+        errors.push(`Unknown filter "${field}:"`);
+    }
+  }
+
+  return { clauses, errors };
+}
@@ -0,0 +1,48 @@
+import { format, startOfDay } from "date-fns";
+
+export interface ChecklistItem {
+  title: string;
+  dueOffsetDays?: number;
+}
+
+// Placeholders filled in when a task is created from a template
+export const TEMPLATE_PLACEHOLDERS = ["{{date}}", "{{project}}"];
+
+// A trailing "+3d" on a checklist line makes that item due 3 days after
+// the task is created
+const OFFSET_SUFFIX = /\s+\+(\d+)d$/;
+
+// One checklist item per line, blank lines skipped
+export function parseChecklist(text: string): ChecklistItem[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const match = OFFSET_SUFFIX.exec(line);
+      return match
+        ? {
+            title: line.slice(0, match.index),
+            dueOffsetDays: Number(match[1]),
+          }
+        : { title: line };
+    });
+}
+
+export function formatChecklist(items: ChecklistItem[]): string {
+  return items
+    .map((item) =>
+      item.dueOffsetDays !== undefined
+        ? `${item.title} +${item.dueOffsetDays}d`
+        : item.title
+    )
+    .join("\n");
+}
+
+// What instantiating a template needs to know about the user's day
+export function getTemplateDay(now = new Date()) {
+  return {
+    today: startOfDay(now).getTime(),
+    date: format(now, "MMM d, yyyy"),
+  };
+}
@@ -0,0 +1,69 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  startOfWeek,
+} from "date-fns";
+
+export type TimelineZoom = "week" | "month" | "quarter";
+
+// Width of one day on the timeline, in pixels
+export const DAY_WIDTH: Record<TimelineZoom, number> = {
+  week: 40,
+  month: 14,
+  quarter: 5,
+};
+
+export type DragMode = "move" | "start" | "end";
+
+export interface DateSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * The days the timeline covers: from the Monday a week before the earliest
+ * date (or today) to four weeks after the latest.
+ */
+export function getTimelineRange(dates: number[], today: Date) {
+  const times = [...dates, today.getTime()];
+  const start = startOfWeek(addDays(Math.min(...times), -7), {
+    weekStartsOn: 1,
+  });
+  const end = addDays(Math.max(...times), 28);
+  return { start, days: differenceInCalendarDays(end, start) + 1 };
+}
+
+// Header labels: every day when zoomed in, Mondays by month, 1sts by quarter
+export function getTimelineTicks(
+  start: Date,
+  days: number,
+  zoom: TimelineZoom
+) {
+  const ticks: { index: number; label: string }[] = [];
+  for (let index = 0; index < days; index++) {
+    const date = addDays(start, index);
+    if (zoom === "week") {
+      ticks.push({ index, label: format(date, "EEE d") });
+    } else if (zoom === "month" && date.getDay() === 1) {
+      ticks.push({ index, label: format(date, "MMM d") });
+    } else if (zoom === "quarter" && date.getDate() === 1) {
+      ticks.push({ index, label: format(date, "MMM yyyy") });
+    }
+  }
+  return ticks;
+}
+
+// A span dragged by whole days: moved as a whole, or one end resized but
+// never past the other
+export function dragSpan(
+  span: DateSpan,
+  mode: DragMode,
+  days: number
+): DateSpan {
+  const start = addDays(span.start, mode === "end" ? 0 : days).getTime();
+  const end = addDays(span.end, mode === "start" ? 0 : days).getTime();
+  if (mode === "start") return { start: Math.min(start, span.end), end };
+  if (mode === "end") return { start, end: Math.max(end, span.start) };
+  return { start, end };
+}
@@ -0,0 +1,39 @@
+import { FunctionReturnType } from "convex/server";
+import { api } from "../../convex/_generated/api";
+import { Doc } from "../../convex/_generated/dataModel";
+
+export type WorkflowColumn = NonNullable<
+  FunctionReturnType<typeof api.workflows.get>
+>["columns"][number];
+
+// Palette keys stored on workflow columns, with their display classes
+export const COLUMN_COLORS: Record<string, { dot: string; badge: string }> = {
+  slate: { dot: "bg-slate-400", badge: "bg-slate-100 text-slate-600" },
+  blue: { dot: "bg-blue-500", badge: "bg-blue-100 text-blue-600" },
+  amber: { dot: "bg-amber-500", badge: "bg-amber-100 text-amber-600" },
+  purple: { dot: "bg-purple-500", badge: "bg-purple-100 text-purple-600" },
+  rose: { dot: "bg-rose-500", badge: "bg-rose-100 text-rose-600" },
+  emerald: {
+    dot: "bg-emerald-500",
+    badge: "bg-emerald-100 text-emerald-600",
+  },
+};
+
+export const getColumnColor = (color: string) =>
+  COLUMN_COLORS[color] ?? COLUMN_COLORS.slate;
+
+/**
+ * The column a task is shown in, mirroring `placeTask` in
+ * convex/workflows.ts: completed tasks go to the completed column and tasks
+ * with an unknown status to the first open column.
+ */
+export function getTaskColumn(
+  columns: WorkflowColumn[],
+  task: Pick<Doc<"tasks">, "status" | "completed">
+): WorkflowColumn | undefined {
+  if (task.completed) return columns.find((c) => c.completed) ?? columns[0];
+  const column = columns.find((c) => c.status === task.status);
+  return column && !column.completed
+    ? column
+    : (columns.find((c) => !c.completed) ?? columns[0]);
+}